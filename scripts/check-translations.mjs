@@ -0,0 +1,80 @@
+// Reports UI translations that are out of step with the English catalog:
+// keys a locale is missing (shown in English until translated), keys English
+// no longer has, and messages whose {placeholders} or plural forms differ.
+//
+// Usage:
+//   npm run i18n:check            # every locale in src/locales
+//   npm run i18n:check -- es fr   # only these locales
+//
+// Exits with status 1 when anything is reported, so it can gate CI.
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const LOCALES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'src', 'locales');
+const SOURCE_LOCALE = 'en';
+
+const readCatalog = (code) => JSON.parse(readFileSync(join(LOCALES_DIR, `${code}.json`), 'utf8'));
+
+// Plural messages are objects of forms; compare the placeholders across all of them
+const getPlaceholders = (message) => {
+  const texts = typeof message === 'string' ? [message] : Object.values(message);
+  return [...new Set(texts.flatMap((text) => [...text.matchAll(/\{(\w+)\}/g)].map((match) => match[1])))].sort();
+};
+
+const checkLocale = (code, source) => {
+  const catalog = readCatalog(code);
+  const problems = [];
+
+  for (const [key, message] of Object.entries(source)) {
+    if (!(key in catalog)) {
+      problems.push(`untranslated: ${key}`);
+      continue;
+    }
+
+    const translated = catalog[key];
+    if (typeof message !== typeof translated) {
+      problems.push(`${typeof message === 'string' ? 'plural forms given for a plain message' : 'plural forms missing'}: ${key}`);
+      continue;
+    }
+    if (typeof translated === 'object' && typeof translated.other !== 'string') {
+      problems.push(`plural form "other" missing: ${key}`);
+    }
+
+    const expected = getPlaceholders(message).join(', ');
+    const actual = getPlaceholders(translated).join(', ');
+    if (expected !== actual) {
+      problems.push(`placeholders differ: ${key} (expected {${expected}}, found {${actual}})`);
+    }
+  }
+
+  for (const key of Object.keys(catalog)) {
+    if (!(key in source)) problems.push(`not in ${SOURCE_LOCALE}: ${key}`);
+  }
+
+  return problems;
+};
+
+const source = readCatalog(SOURCE_LOCALE);
+const requested = process.argv.slice(2);
+const locales = requested.length
+  ? requested
+  : readdirSync(LOCALES_DIR)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .filter((code) => code !== SOURCE_LOCALE);
+
+let failed = false;
+for (const code of locales) {
+  const problems = checkLocale(code, source);
+  if (!problems.length) {
+    console.log(`${code}: all ${Object.keys(source).length} messages translated`);
+    continue;
+  }
+
+  failed = true;
+  console.log(`${code}: ${problems.length} problem${problems.length === 1 ? '' : 's'}`);
+  problems.forEach((problem) => console.log(`  ${problem}`));
+}
+
+process.exitCode = failed ? 1 : 0;
@@ -0,0 +1,214 @@
+// Loads IRS exempt-organization bulk files into public.exempt_organizations
+// so EINs can be verified without calling the IRS:
+//   - EO Business Master File extracts (eo1.csv ... eo4.csv or per-state files)
+//   - Publication 78 data (data-download-pub78.txt, unzipped)
+// The files are read from disk; the only connection is to the Supabase project,
+// which may be a local one started with `supabase start`.
+//
+// Usage:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     npm run import:exempt-orgs -- [--replace] [--dry-run] <file> [file...]
+//
+// --replace clears the table first, so pass every file of a full refresh in
+// one run. --dry-run only parses and counts.
+import { createReadStream } from 'node:fs';
+import { basename } from 'node:path';
+import { createInterface } from 'node:readline';
+import { createClient } from '@supabase/supabase-js';
+
+const BATCH_SIZE = 1000;
+const PROGRESS_EVERY = 50000;
+
+// One CSV line; BMF names never span lines but may be quoted
+const parseCSVLine = (line) => {
+  const cells = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  cells.push(field);
+  return cells.map((cell) => cell.trim());
+};
+
+const cleanEin = (value) => {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length === 9 ? digits : null;
+};
+
+const orNull = (value) => (value && value.trim()) || null;
+
+// EO BMF: comma-separated with a header row (EIN,NAME,ICO,STREET,CITY,STATE,...)
+const createBmfParser = (headerLine) => {
+  const headers = parseCSVLine(headerLine).map((header) => header.toUpperCase());
+  const column = (name) => headers.indexOf(name);
+  const ein = column('EIN');
+  const name = column('NAME');
+  const city = column('CITY');
+  const state = column('STATE');
+  const deductibility = column('DEDUCTIBILITY');
+
+  if (ein < 0 || name < 0) {
+    throw new Error('Not an EO BMF file: the header has no EIN and NAME columns');
+  }
+
+  return (line) => {
+    const cells = parseCSVLine(line);
+    const record = {
+      ein: cleanEin(cells[ein]),
+      name: orNull(cells[name]),
+      city: orNull(cells[city]),
+      state: orNull(cells[state]),
+      bmf_deductibility: orNull(cells[deductibility])
+    };
+    return record.ein && record.name ? record : null;
+  };
+};
+
+// Publication 78: pipe-delimited, no header
+// (EIN|Legal Name|City|State|Country|Deductibility Status codes)
+const parsePub78Line = (line) => {
+  const [ein, name, city, state, country, codes] = line.split('|').map((cell) => cell.trim());
+  const record = {
+    ein: cleanEin(ein),
+    name: orNull(name),
+    city: orNull(city),
+    state: orNull(state),
+    country: orNull(country),
+    pub78_codes: (codes || '').split(/[,;\s]+/).filter(Boolean)
+  };
+  return record.ein && record.name ? record : null;
+};
+
+const parseArgs = (args) => {
+  const options = { replace: false, dryRun: false, files: [] };
+  for (const arg of args) {
+    if (arg === '--replace') options.replace = true;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else options.files.push(arg);
+  }
+  return options;
+};
+
+const createSupabase = () => {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (the service role key bypasses row-level security)');
+  }
+  return createClient(url, key, { auth: { persistSession: false, autoRefreshToken: false } });
+};
+
+// Upserts one batch; the same EIN can appear twice in a file (group rulings),
+// and Postgres rejects a batch that updates a row twice, so the first wins
+const writeBatch = async (supabase, batch) => {
+  const byEin = new Map();
+  batch.forEach((row) => {
+    if (!byEin.has(row.ein)) byEin.set(row.ein, row);
+  });
+  const rows = [...byEin.values()];
+  const importedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('exempt_organizations')
+    .upsert(rows.map((row) => ({ ...row, imported_at: importedAt })), { onConflict: 'ein' });
+
+  if (error) throw new Error(`Error writing rows: ${error.message}`);
+};
+
+const importFile = async (file, supabase) => {
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  let parseLine = null;
+  let source = '';
+  let batch = [];
+  let imported = 0;
+  let skipped = 0;
+
+  const flush = async () => {
+    if (!batch.length) return;
+    if (supabase) await writeBatch(supabase, batch);
+    imported += batch.length;
+    batch = [];
+  };
+
+  for await (const rawLine of lines) {
+    const line = rawLine.replace(/^\uFEFF/, '');
+    if (!line.trim()) continue;
+
+    // Detect the format from the first line
+    if (!parseLine) {
+      if (line.includes('|')) {
+        source = 'Publication 78';
+        parseLine = parsePub78Line;
+      } else {
+        source = 'EO BMF';
+        parseLine = createBmfParser(line);
+        continue;
+      }
+    }
+
+    const record = parseLine(line);
+    if (!record) {
+      skipped++;
+      continue;
+    }
+
+    batch.push(record);
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+      if (imported % PROGRESS_EVERY === 0) console.log(`  ${basename(file)}: ${imported} rows`);
+    }
+  }
+
+  await flush();
+  console.log(`${basename(file)} (${source || 'empty'}): ${imported} rows imported, ${skipped} skipped`);
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.files.length) {
+    throw new Error('Usage: import-exempt-organizations.mjs [--replace] [--dry-run] <file> [file...]');
+  }
+
+  const supabase = options.dryRun ? null : createSupabase();
+
+  if (supabase && options.replace) {
+    const { error } = await supabase.from('exempt_organizations').delete().neq('ein', '');
+    if (error) throw new Error(`Error clearing exempt_organizations: ${error.message}`);
+    console.log('Cleared exempt_organizations');
+  }
+
+  for (const file of options.files) {
+    await importFile(file, supabase);
+  }
+
+  if (supabase) {
+    const { error } = await supabase.rpc('refresh_organization_verification');
+    if (error) throw new Error(`Error re-verifying organizations: ${error.message}`);
+    console.log('Re-verified organizations against the imported data');
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+// A stand-in for the OpenAI chat completions API, for running the
+// generate-text Edge Function locally without a key or network access.
+// Replies are deterministic: they are built from the prompt, with token counts
+// estimated from word counts.
+//
+// Usage:
+//   npm run mock:openai                  # listens on http://localhost:8787/v1
+//   MOCK_OPENAI_PORT=9000 npm run mock:openai
+//   MOCK_OPENAI_STATUS=429 npm run mock:openai   # every request fails with this status
+//
+// Then serve the function with OPENAI_BASE_URL=http://host.docker.internal:8787/v1
+// and any OPENAI_API_KEY.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_OPENAI_PORT) || 8787;
+const FAIL_STATUS = Number(process.env.MOCK_OPENAI_STATUS) || 0;
+
+const countTokens = (text) => Math.ceil(text.split(/\s+/).filter(Boolean).length * 1.3);
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const server = createServer(async (req, res) => {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    send(res, 404, { error: { message: `No mock for ${req.method} ${req.url}`, type: 'invalid_request_error' } });
+    return;
+  }
+
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    send(res, 401, { error: { message: 'Missing API key', type: 'invalid_request_error' } });
+    return;
+  }
+
+  if (FAIL_STATUS) {
+    send(res, FAIL_STATUS, { error: { message: `Mock failure (${FAIL_STATUS})`, type: 'server_error' } });
+    return;
+  }
+
+  let request;
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    send(res, 400, { error: { message: 'Invalid JSON', type: 'invalid_request_error' } });
+    return;
+  }
+
+  const messages = Array.isArray(request.messages) ? request.messages : [];
+  const prompt = messages.map(({ content }) => String(content ?? '')).join('\n');
+  const lastMessage = String(messages[messages.length - 1]?.content ?? '');
+  const content = `Mock reply: ${lastMessage.split(/\s+/).slice(0, 24).join(' ')}`;
+  const promptTokens = countTokens(prompt);
+  const completionTokens = countTokens(content);
+
+  console.log(`${new Date().toISOString()} ${request.model} ${promptTokens}+${completionTokens} tokens`);
+
+  send(res, 200, {
+    id: 'chatcmpl-mock',
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: request.model || 'mock',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OpenAI API on http://localhost:${PORT}/v1`);
+});
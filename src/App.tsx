@@ -1,7 +1,14 @@
 import QRCodeGenerator from './components/QRCodeGenerator';
+import RedirectHandler from './components/RedirectHandler';
+import { parseRedirectSlug } from './lib/dynamicLinks';
 
 function App() {
+  const redirectSlug = parseRedirectSlug(window.location.pathname);
+  if (redirectSlug) {
+    return <RedirectHandler slug={redirectSlug} />;
+  }
+
   return <QRCodeGenerator />;
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Wand2, Undo2, History, Loader2, X } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { generateText, TextGenerationKind } from '../lib/supabase';
+import { CopyOptions, VARIANT_COUNT, getTextErrorMessage, pushHistory, mergeTexts } from '../lib/copywriting';
+import { useI18n } from '../lib/i18n';
+
+interface AITextFieldProps {
+  label: string;
+  icon: LucideIcon;
+  kind: TextGenerationKind;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  options: CopyOptions;
+  url?: string;
+  organizationId: string | null;
+  signedIn: boolean;
+  onError: (message: string) => void;
+}
+
+// Textarea with AI variants to pick from or merge, and an undo history of the
+// texts they replaced. Each field tracks its own request.
+const AITextField: React.FC<AITextFieldProps> = ({
+  label,
+  icon: Icon,
+  kind,
+  value,
+  onChange,
+  placeholder,
+  options,
+  url,
+  organizationId,
+  signedIn,
+  onError
+}) => {
+  const { t } = useI18n();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [variants, setVariants] = useState<string[]>([]);
+  const [history, setHistory] = useState<string[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleGenerate = async () => {
+    if (isGenerating) return;
+
+    if (!signedIn) {
+      onError(t('ai.signIn'));
+      return;
+    }
+
+    onError('');
+    setIsGenerating(true);
+    try {
+      const texts = await generateText({
+        kind,
+        context: value,
+        url,
+        organizationId,
+        ...options,
+        variants: VARIANT_COUNT
+      });
+      if (!texts.length) {
+        onError(t('ai.error.empty'));
+      }
+      setVariants(texts);
+    } catch (err) {
+      onError(t(getTextErrorMessage(err)));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Every AI change keeps the text it replaced
+  const replaceText = (text: string) => {
+    setHistory((current) => pushHistory(current, value));
+    onChange(text);
+  };
+
+  const handleUndo = () => {
+    if (!history.length) return;
+    onChange(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+  };
+
+  const handleRestore = (index: number) => {
+    const text = history[index];
+    setHistory(pushHistory(history.filter((_, i) => i !== index), value));
+    onChange(text);
+    setShowHistory(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          {label}
+        </label>
+        {history.length > 0 && (
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleUndo}
+              className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+              title={t('ai.undoHint')}
+            >
+              <Undo2 size={14} />
+              {t('ai.undo')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowHistory(!showHistory)}
+              className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+              aria-expanded={showHistory}
+            >
+              <History size={14} />
+              {t('ai.history', { count: history.length })}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="relative">
+        <Icon className="absolute left-3 top-3 text-gray-400" size={20} />
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className="pl-10 pr-10 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          rows={3}
+        />
+        <button
+          type="button"
+          onClick={handleGenerate}
+          className="absolute right-3 top-3 text-indigo-600 hover:text-indigo-800 transition-colors disabled:opacity-50"
+          disabled={isGenerating}
+          title={t('ai.generate', { count: VARIANT_COUNT })}
+        >
+          {isGenerating ? <Loader2 size={20} className="animate-spin" /> : <Wand2 size={20} />}
+        </button>
+      </div>
+
+      {showHistory && history.length > 0 && (
+        <ul className="mt-2 border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {history.map((text, index) => ({ text, index })).reverse().map(({ text, index }) => (
+            <li key={index} className="flex items-start gap-2 p-2">
+              <p className="flex-1 text-sm text-gray-600 line-clamp-2">{text}</p>
+              <button
+                type="button"
+                onClick={() => handleRestore(index)}
+                className="text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                {t('ai.restore')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {variants.length > 0 && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-700">{t('ai.pickVersion')}</p>
+            <button
+              type="button"
+              onClick={() => setVariants([])}
+              className="text-gray-400 hover:text-gray-600"
+              title={t('ai.dismiss')}
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <div className="grid gap-2 md:grid-cols-3">
+            {variants.map((text, index) => (
+              <div key={index} className="flex flex-col p-3 border border-gray-200 rounded-lg bg-gray-50">
+                <p className="flex-1 text-sm text-gray-700 whitespace-pre-line">{text}</p>
+                <div className="mt-2 flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      replaceText(text);
+                      setVariants([]);
+                    }}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                  >
+                    {t('ai.use')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => replaceText(mergeTexts(value, text))}
+                    className="text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    {t('ai.addToText')}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AITextField;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Download, AlertCircle } from 'lucide-react';
+import { User } from '../lib/supabase';
+import {
+  BatchRow,
+  BatchRowError,
+  BATCH_COLUMNS,
+  parseBatchCSV,
+  generateBatchArchive,
+  batchRowToItem
+} from '../lib/batch';
+import { DownloadFormat, DOWNLOAD_FORMATS, FlyerDesign, downloadBlob } from '../lib/flyerExport';
+import { ExportSettings } from '../lib/printSettings';
+import { useI18n } from '../lib/i18n';
+
+interface BatchGeneratorProps {
+  user: User | null;
+  organizationId: string | null;  // Workspace the codes are saved to
+  baseDesign: FlyerDesign;  // Current design; CSV cells override it per row
+  logoKey: string | null;   // Stored copy of the design's logo
+  palette: string[] | null; // Enforced brand palette
+  exportSettings: ExportSettings;
+}
+
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ user, organizationId, baseDesign, logoKey, palette, exportSettings }) => {
+  const { t, tNodes } = useI18n();
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [rowErrors, setRowErrors] = useState<BatchRowError[]>([]);
+  const [format, setFormat] = useState<DownloadFormat>('png');
+  const [includeCombinedPdf, setIncludeCombinedPdf] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [error, setError] = useState('');
+
+  const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setProgress({ done: 0, total: 0 });
+    try {
+      const text = await file.text();
+      const parsed = parseBatchCSV(text, { ...baseDesign, palette });
+      setFileName(file.name);
+      setRows(parsed.rows);
+      setRowErrors(parsed.errors);
+    } catch (err) {
+      setError(t('batch.error.readFile'));
+      console.error('Error reading CSV:', err);
+    }
+  };
+
+  const runBatch = async () => {
+    if (!user?.id || !rows.length || isRunning) return;
+
+    setIsRunning(true);
+    setError('');
+
+    const userId = user.id;
+    let failures: BatchRowError[] = [];
+    try {
+      const result = await generateBatchArchive(
+        rows.map((row) => batchRowToItem(row, { userId, organizationId }, baseDesign, logoKey)),
+        {
+          format,
+          settings: exportSettings,
+          includeCombinedPdf,
+          palette,
+          onProgress: (done, total) => setProgress({ done, total })
+        }
+      );
+      failures = [...result.failures, ...result.unsaved];
+
+      if (result.archive) {
+        downloadBlob(result.archive, 'qr-codes.zip');
+      }
+    } catch (err) {
+      setError(t('batch.error.archive'));
+      console.error('Error creating ZIP archive:', err);
+    } finally {
+      setRowErrors((prev) => [...prev, ...failures].sort((a, b) => a.line - b.line));
+      setIsRunning(false);
+    }
+  };
+
+  const percent = progress.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {tNodes('batch.intro', {
+          columns: <span className="font-mono">{BATCH_COLUMNS.join(', ')}</span>,
+          url: <span className="font-mono">url</span>
+        })}
+      </p>
+
+      <label className="flex items-center justify-center gap-2 p-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-400 transition-colors">
+        <FileSpreadsheet className="text-gray-400" size={20} />
+        <span className="text-sm text-gray-600">{fileName || t('batch.chooseFile')}</span>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileInput}
+          className="hidden"
+          disabled={isRunning}
+        />
+      </label>
+
+      {fileName && (
+        <p className="text-sm text-gray-700">
+          {rowErrors.length > 0
+            ? t('batch.rowsWithErrors', { count: rows.length, errors: rowErrors.length })
+            : t('batch.rows', { count: rows.length })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('batch.format')}
+          </label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as DownloadFormat)}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {DOWNLOAD_FORMATS.map((option) => (
+              <option key={option} value={option}>{option.toUpperCase()}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-end gap-2 text-sm text-gray-700 pb-2">
+          <input
+            type="checkbox"
+            checked={includeCombinedPdf}
+            onChange={(e) => setIncludeCombinedPdf(e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          {t('batch.combinedPdf')}
+        </label>
+      </div>
+
+      {progress.total > 0 && (
+        <div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {t('batch.progress', { done: progress.done, total: progress.total })}
+          </p>
+        </div>
+      )}
+
+      <button
+        onClick={runBatch}
+        disabled={!user || !rows.length || isRunning}
+        className={`w-full flex items-center justify-center gap-2 p-2 rounded-lg transition-colors
+          ${user && rows.length && !isRunning
+            ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+            : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`}
+      >
+        <Download size={20} />
+        {isRunning ? t('batch.generating') : rows.length ? t('batch.generateCount', { count: rows.length }) : t('batch.generate')}
+      </button>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {rowErrors.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+          {rowErrors.map(({ line, messages }) => (
+            <li key={`${line}-${messages.map(({ key }) => key).join()}`} className="flex items-start gap-2 text-red-700">
+              <AlertCircle className="text-red-500 flex-shrink-0 mt-0.5" size={16} />
+              <span>{t('batch.rowError', { line, messages: messages.map(({ key, params }) => t(key, params)).join('; ') })}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BatchGenerator;
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import ColorInput from './ColorInput';
+import { BrandKit, BrandColor, saveBrandKit, uploadLogo } from '../lib/supabase';
+import { MAX_PALETTE_COLORS, getPaletteColors, validateBrandKit } from '../lib/brandKits';
+import { FLYER_FONTS, FlyerFont } from '../lib/flyerFonts';
+import { LocalizedMessage, MessageKey, useI18n } from '../lib/i18n';
+
+type BrandKitDraft = Omit<BrandKit, 'created_at' | 'updated_at'>;
+
+interface BrandKitEditorProps {
+  kit: BrandKitDraft;
+  currentLogo: string | null;  // Logo in the editor, offered as a kit logo
+  onSaved: (kit: BrandKit) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ kit, currentLogo, onSaved, onCancel }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<BrandKitDraft>(kit);
+  const [errors, setErrors] = useState<LocalizedMessage[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const palette = getPaletteColors(draft);
+
+  const update = <K extends keyof BrandKitDraft>(key: K, value: BrandKitDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateColor = (index: number, changes: Partial<BrandColor>) => {
+    update('palette', draft.palette.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const addColor = () => {
+    update('palette', [...draft.palette, { name: '', color: '#1e3a8a' }]);
+  };
+
+  const removeColor = (index: number) => {
+    update('palette', draft.palette.filter((_, i) => i !== index));
+  };
+
+  const setLogoFromEditor = async (key: 'primary_logo_key' | 'alternate_logo_key') => {
+    if (!currentLogo) return;
+
+    setErrors([]);
+    try {
+      update(key, await uploadLogo(currentLogo, draft.organization_id));
+    } catch {
+      setErrors([{ key: 'brandKit.error.uploadLogo' }]);
+    }
+  };
+
+  const handleSave = async () => {
+    const kitToSave = {
+      ...draft,
+      name: draft.name.trim(),
+      palette: draft.palette.map(({ name, color }) => ({ name: name.trim(), color: color.toLowerCase() })),
+      qr_color: draft.qr_color.toLowerCase(),
+      bg_color: draft.bg_color.toLowerCase()
+    };
+
+    const validationErrors = validateBrandKit(kitToSave);
+    setErrors(validationErrors);
+    if (validationErrors.length) return;
+
+    setIsSaving(true);
+    try {
+      onSaved(await saveBrandKit(kitToSave));
+    } catch {
+      setErrors([{ key: 'brandKit.error.save' }]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const logoControl = (label: MessageKey, key: 'primary_logo_key' | 'alternate_logo_key') => (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="text-gray-700">
+        {t(label)}: <span className="text-gray-500">{draft[key] ? t('brandKit.logoSet') : t('brandKit.logoNone')}</span>
+      </span>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => setLogoFromEditor(key)}
+          disabled={!currentLogo}
+          className="text-indigo-600 hover:text-indigo-800 disabled:text-gray-300"
+        >
+          {t('brandKit.useCurrentLogo')}
+        </button>
+        {draft[key] && (
+          <button type="button" onClick={() => update(key, null)} className="text-red-500 hover:text-red-700">
+            {t('brandKit.clearLogo')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-3 border border-gray-200 rounded-lg">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          {t('brandKit.name')}
+        </label>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => update('name', e.target.value)}
+          maxLength={100}
+          className={inputClassName}
+          placeholder={t('brandKit.namePlaceholder')}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          {t('brandKit.palette')}
+        </label>
+        {draft.palette.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={entry.color}
+              onChange={(e) => updateColor(index, { color: e.target.value })}
+              className="w-10 h-10 rounded-lg cursor-pointer flex-shrink-0"
+            />
+            <input
+              type="text"
+              value={entry.name}
+              onChange={(e) => updateColor(index, { name: e.target.value })}
+              placeholder={t('brandKit.colorName')}
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => removeColor(index)}
+              className="text-red-500 hover:text-red-700"
+              title={t('brandKit.removeColor')}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        {draft.palette.length < MAX_PALETTE_COLORS && (
+          <button
+            type="button"
+            onClick={addColor}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus size={16} />
+            {t('brandKit.addColor')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('brandKit.qrColor')}
+          </label>
+          <ColorInput value={draft.qr_color} onChange={(color) => update('qr_color', color)} palette={palette} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('brandKit.bgColor')}
+          </label>
+          <ColorInput value={draft.bg_color} onChange={(color) => update('bg_color', color)} palette={palette} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('brandKit.headingFont')}
+          </label>
+          <select
+            value={draft.heading_font}
+            onChange={(e) => update('heading_font', e.target.value as FlyerFont)}
+            className={inputClassName}
+          >
+            {FLYER_FONTS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('brandKit.bodyFont')}
+          </label>
+          <select
+            value={draft.body_font}
+            onChange={(e) => update('body_font', e.target.value as FlyerFont)}
+            className={inputClassName}
+          >
+            {FLYER_FONTS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {logoControl('brandKit.primaryLogo', 'primary_logo_key')}
+        {logoControl('brandKit.alternateLogo', 'alternate_logo_key')}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          {t('brandKit.description')}
+        </label>
+        <textarea
+          value={draft.default_description}
+          onChange={(e) => update('default_description', e.target.value)}
+          rows={3}
+          className={inputClassName}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={draft.enforce_palette}
+          onChange={(e) => update('enforce_palette', e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        {t('brandKit.enforcePalette')}
+      </label>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm space-y-1">
+          {errors.map(({ key, params }) => (
+            <p key={key} className="flex items-center gap-2">
+              <AlertCircle size={16} className="flex-shrink-0" />
+              {t(key, params)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className={`flex-1 p-2 rounded-lg transition-colors
+            ${isSaving ? 'bg-gray-300 text-gray-500 cursor-not-allowed' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+        >
+          {isSaving ? t('brandKit.saving') : t('brandKit.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+        >
+          {t('brandKit.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitEditor;
@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Edit2, Trash2, AlertCircle } from 'lucide-react';
+import BrandKitEditor from './BrandKitEditor';
+import { BrandKit, User, getBrandKits, deleteBrandKit } from '../lib/supabase';
+import { createBrandKit, getStoredActiveKitId, storeActiveKitId } from '../lib/brandKits';
+import { FlyerFonts } from '../lib/flyerFonts';
+import { MessageKey, useI18n } from '../lib/i18n';
+
+interface BrandKitPanelProps {
+  user: User | null;
+  organizationId: string | null;  // Workspace whose kits are listed
+  canEdit: boolean;               // Viewers can apply kits but not change them
+  activeKit: BrandKit | null;
+  // Current editor values, used to start a new kit
+  design: { qrColor: string; bgColor: string; logo: string | null; orgDescription: string; fonts: FlyerFonts };
+  onSelect: (kit: BrandKit | null) => void;
+  onUseLogo: (key: string) => void;
+}
+
+type BrandKitDraft = Omit<BrandKit, 'created_at' | 'updated_at'>;
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ user, organizationId, canEdit, activeKit, design, onSelect, onUseLogo }) => {
+  const { t } = useI18n();
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [editing, setEditing] = useState<BrandKitDraft | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const userId = user?.id;
+  // Viewers of an organization with enforced kits always work under one of them
+  const stickyKits = organizationId && !canEdit ? kits.filter(({ enforce_palette }) => enforce_palette) : [];
+  const isSticky = stickyKits.length > 0;
+  const selectableKits = isSticky ? stickyKits : kits;
+  // The generator passes a new callback on every render; only reload per user
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  // Load the workspace's kits and re-apply the one last used in this browser.
+  // Viewers fall back to the first enforced kit if that one isn't enforced.
+  useEffect(() => {
+    setEditing(null);
+    setKits([]);
+    if (!userId) return;
+
+    let cancelled = false;
+    getBrandKits({ userId, organizationId })
+      .then((loaded) => {
+        if (cancelled) return;
+        setKits(loaded);
+        const enforced = organizationId && !canEdit ? loaded.filter(({ enforce_palette }) => enforce_palette) : [];
+        const candidates = enforced.length ? enforced : loaded;
+        const remembered = candidates.find(({ id }) => id === getStoredActiveKitId()) ?? enforced[0];
+        if (remembered) onSelectRef.current(remembered);
+      })
+      .catch(() => {
+        if (!cancelled) setError('brandKit.error.load');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, organizationId, canEdit]);
+
+  const selectKit = (kitId: string) => {
+    const kit = selectableKits.find(({ id }) => id === kitId) ?? null;
+    if (!kit && isSticky) return;
+    storeActiveKitId(kit?.id ?? null);
+    onSelect(kit);
+  };
+
+  const startNewKit = () => {
+    if (!userId) return;
+
+    const colors = [...new Set([design.qrColor.toLowerCase(), design.bgColor.toLowerCase()])];
+    setEditing({
+      ...createBrandKit({ userId, organizationId }),
+      palette: colors.map((color) => ({ name: '', color })),
+      qr_color: design.qrColor,
+      bg_color: design.bgColor,
+      heading_font: design.fonts.heading,
+      body_font: design.fonts.body,
+      default_description: design.orgDescription
+    });
+  };
+
+  const handleSaved = (saved: BrandKit) => {
+    setKits((prev) =>
+      [...prev.filter(({ id }) => id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setEditing(null);
+    storeActiveKitId(saved.id ?? null);
+    onSelect(saved);
+  };
+
+  const handleDelete = async () => {
+    if (!activeKit?.id || !window.confirm(t('brandKit.confirmDelete', { name: activeKit.name }))) return;
+
+    setError(null);
+    try {
+      await deleteBrandKit(activeKit.id);
+      setKits((prev) => prev.filter(({ id }) => id !== activeKit.id));
+      storeActiveKitId(null);
+      onSelect(null);
+    } catch {
+      setError('brandKit.error.delete');
+    }
+  };
+
+  if (!user) {
+    return (
+      <p className="text-sm text-gray-500">
+        {t('brandKit.signIn')}
+      </p>
+    );
+  }
+
+  if (editing) {
+    return (
+      <BrandKitEditor
+        kit={editing}
+        currentLogo={design.logo}
+        onSaved={handleSaved}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  const actionClassName = 'p-2 text-gray-500 hover:text-indigo-600 rounded-lg hover:bg-gray-100';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select
+          value={activeKit?.id ?? ''}
+          onChange={(e) => selectKit(e.target.value)}
+          className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {!isSticky && <option value="">{t('brandKit.none')}</option>}
+          {selectableKits.map(({ id, name }) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        {canEdit && (
+          <button onClick={startNewKit} className={actionClassName} title={t('brandKit.new')}>
+            <Plus size={16} />
+          </button>
+        )}
+        {canEdit && activeKit && (
+          <>
+            <button onClick={() => setEditing(activeKit)} className={actionClassName} title={t('brandKit.edit')}>
+              <Edit2 size={16} />
+            </button>
+            <button onClick={handleDelete} className={`${actionClassName} hover:text-red-600`} title={t('brandKit.delete')}>
+              <Trash2 size={16} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {activeKit && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1">
+            {activeKit.palette.map(({ name, color }) => (
+              <span
+                key={color}
+                className="w-6 h-6 rounded border border-gray-300"
+                style={{ backgroundColor: color }}
+                title={name ? `${name} (${color})` : color}
+              />
+            ))}
+          </div>
+          {activeKit.enforce_palette && (
+            <p className="text-xs text-gray-500">
+              {isSticky ? t('brandKit.requiredPalette') : t('brandKit.limitedPalette')}
+            </p>
+          )}
+          {(activeKit.primary_logo_key || activeKit.alternate_logo_key) && (
+            <div className="flex gap-4 text-sm">
+              {activeKit.primary_logo_key && (
+                <button onClick={() => onUseLogo(activeKit.primary_logo_key as string)} className="text-indigo-600 hover:text-indigo-800">
+                  {t('brandKit.usePrimaryLogo')}
+                </button>
+              )}
+              {activeKit.alternate_logo_key && (
+                <button onClick={() => onUseLogo(activeKit.alternate_logo_key as string)} className="text-indigo-600 hover:text-indigo-800">
+                  {t('brandKit.useAlternateLogo')}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-center gap-2">
+          <AlertCircle size={16} />
+          {t(error)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitPanel;
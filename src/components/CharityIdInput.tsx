@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { getCharityIdSchemes, getCharityIdScheme, getOtherCountryCodes, hasCharityIdScheme, formatCharityId } from '../lib/charityIds';
+import { useI18n } from '../lib/i18n';
+
+interface CharityIdInputProps {
+  id: string;
+  country: string;
+  value: string;  // Formatted for the country
+  error?: string;
+  onChange: (country: string, value: string) => void;
+  className: string;  // Classes for the select and input, so the field matches its form
+}
+
+const OTHER_COUNTRY = 'other';
+
+// Country picker plus a registration number formatted as it is typed. Countries
+// without a scheme are picked from a second list behind "Other country" and
+// take any plain registration number.
+const CharityIdInput: React.FC<CharityIdInputProps> = ({ id, country, value, error, onChange, className }) => {
+  const { locale, t } = useI18n();
+  const scheme = getCharityIdScheme(country);
+  const countryNames = useMemo(() => new Intl.DisplayNames([locale], { type: 'region' }), [locale]);
+  const otherCountries = useMemo(
+    () => getOtherCountryCodes()
+      .map((code) => ({ code, name: countryNames.of(code) ?? code }))
+      .sort((a, b) => a.name.localeCompare(b.name, locale)),
+    [countryNames, locale]
+  );
+  const isOther = !hasCharityIdScheme(country);
+
+  const changeCountry = (nextCountry: string) => onChange(nextCountry, formatCharityId(nextCountry, value));
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <select
+          aria-label={t('charityId.country')}
+          value={isOther ? OTHER_COUNTRY : country}
+          onChange={(e) => changeCountry(e.target.value === OTHER_COUNTRY ? '' : e.target.value)}
+          className={className}
+        >
+          {getCharityIdSchemes().map(({ country: code }) => (
+            <option key={code} value={code}>{countryNames.of(code) ?? code}</option>
+          ))}
+          <option value={OTHER_COUNTRY}>{t('charityId.otherCountry')}</option>
+        </select>
+        {isOther && (
+          <select
+            aria-label={t('charityId.otherCountry')}
+            value={country}
+            onChange={(e) => changeCountry(e.target.value)}
+            className={className}
+          >
+            <option value="">{t('charityId.chooseCountry')}</option>
+            {otherCountries.map(({ code, name }) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          id={id}
+          value={value}
+          onChange={(e) => onChange(country, formatCharityId(country, e.target.value))}
+          maxLength={scheme.maxLength}
+          placeholder={scheme.placeholder}
+          className={`${className} flex-1 min-w-0`}
+          aria-invalid={!!error}
+          aria-describedby={`${id}-hint`}
+        />
+      </div>
+      {error && (
+        <p className="mt-1 text-sm text-red-600">
+          {error}
+        </p>
+      )}
+      <p className="mt-1 text-xs text-gray-500" id={`${id}-hint`}>
+        {t(scheme.label)}: {t(scheme.hint)}
+      </p>
+    </div>
+  );
+};
+
+export default CharityIdInput;
@@ -0,0 +1,54 @@
+import React from 'react';
+
+interface ColorInputProps {
+  value: string;
+  onChange: (color: string) => void;
+  palette?: string[] | null;  // When set, only these colors can be picked
+  disabled?: boolean;
+  className?: string;         // Classes for the free color input
+}
+
+// A native color input, or swatches of the brand palette when it is enforced
+const ColorInput: React.FC<ColorInputProps> = ({
+  value,
+  onChange,
+  palette,
+  disabled = false,
+  className = 'w-full h-10 rounded-lg cursor-pointer disabled:opacity-50'
+}) => {
+  if (!palette?.length) {
+    return (
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className={className}
+      />
+    );
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${disabled ? 'opacity-50' : ''}`}>
+      {palette.map((color) => {
+        const selected = color.toLowerCase() === value.toLowerCase();
+        return (
+          <button
+            key={color}
+            type="button"
+            onClick={() => onChange(color)}
+            disabled={disabled}
+            className={`w-7 h-7 rounded border border-gray-300
+              ${selected ? 'ring-2 ring-offset-1 ring-indigo-500' : ''}
+              ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+            style={{ backgroundColor: color }}
+            title={color}
+            aria-pressed={selected}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+export default ColorInput;
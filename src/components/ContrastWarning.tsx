@@ -0,0 +1,50 @@
+import React from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { analyzeQRContrast, suggestCompliantColors, describeSuggestion } from '../lib/contrast';
+import { useI18n } from '../lib/i18n';
+
+interface ContrastWarningProps {
+  qrColor: string;
+  bgColor: string;
+  palette?: string[];
+  paletteOnly?: boolean;  // Brand palette is enforced; never suggest other colors
+  onApply: (qrColor: string, bgColor: string) => void;
+}
+
+const ContrastWarning: React.FC<ContrastWarningProps> = ({ qrColor, bgColor, palette, paletteOnly, onApply }) => {
+  const { t } = useI18n();
+  const analysis = analyzeQRContrast(qrColor, bgColor);
+  if (analysis.status === 'ok') return null;
+
+  const suggestion = suggestCompliantColors(qrColor, bgColor, palette, paletteOnly);
+  const isFail = analysis.status === 'fail';
+  const Icon = isFail ? XCircle : AlertTriangle;
+
+  return (
+    <div className={`p-3 border rounded-lg text-sm space-y-2
+      ${isFail ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}
+    >
+      {analysis.messages.map(({ key, params }) => (
+        <p key={key} className="flex items-start gap-2">
+          <Icon className="flex-shrink-0 mt-0.5" size={16} />
+          {t(key, params)}
+        </p>
+      ))}
+      {suggestion && (
+        <button
+          type="button"
+          onClick={() => onApply(suggestion.qrColor, suggestion.bgColor)}
+          className="flex items-center gap-2 text-indigo-700 hover:text-indigo-900"
+        >
+          <span className="flex rounded overflow-hidden border border-gray-300">
+            <span className="w-4 h-4" style={{ backgroundColor: suggestion.qrColor }} />
+            <span className="w-4 h-4" style={{ backgroundColor: suggestion.bgColor }} />
+          </span>
+          {t('contrast.use', { suggestion: t(describeSuggestion(suggestion)) })}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ContrastWarning;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Repeat } from 'lucide-react';
+import { DynamicLink, getScanCount, updateDynamicLinkTarget } from '../lib/supabase';
+import { isValidTargetUrl } from '../lib/dynamicLinks';
+import { useI18n } from '../lib/i18n';
+
+interface DynamicLinkPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  shortUrl: string | null;
+  link: DynamicLink | null;
+  targetUrl: string;
+  onLinkUpdated: (link: DynamicLink) => void;
+}
+
+const DynamicLinkPanel: React.FC<DynamicLinkPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  shortUrl,
+  link,
+  targetUrl,
+  onLinkUpdated
+}) => {
+  const { t, tNodes, formatNumber } = useI18n();
+  const [scanCount, setScanCount] = useState<number | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState('');
+
+  const refreshScanCount = async (linkId: string) => {
+    try {
+      setScanCount(await getScanCount(linkId));
+    } catch (err) {
+      console.warn('Could not load scan count:', err);
+    }
+  };
+
+  const linkId = link?.id;
+
+  useEffect(() => {
+    setScanCount(null);
+    if (linkId) {
+      getScanCount(linkId)
+        .then(setScanCount)
+        .catch((err) => console.warn('Could not load scan count:', err));
+    }
+  }, [linkId]);
+
+  const handleUpdateTarget = async () => {
+    if (!link?.id) return;
+
+    if (!isValidTargetUrl(targetUrl)) {
+      setError(t('dynamicLink.error.invalidUrl'));
+      return;
+    }
+
+    setIsUpdating(true);
+    setError('');
+    try {
+      const updated = await updateDynamicLinkTarget(link.id, targetUrl);
+      onLinkUpdated(updated);
+    } catch (err) {
+      setError(t('dynamicLink.error.update'));
+      console.error('Error updating destination:', err);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const targetChanged = !!link && link.target_url !== targetUrl;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        {t('dynamicLink.enable')}
+      </label>
+
+      {enabled && shortUrl && (
+        <div className="p-3 bg-indigo-50 rounded-lg space-y-2 text-sm">
+          <p className="text-gray-700">
+            {tNodes('dynamicLink.encodes', { url: <span className="font-mono break-all">{shortUrl}</span> })}
+          </p>
+
+          {link ? (
+            <>
+              <p className="text-gray-600">
+                {tNodes('dynamicLink.target', { url: <span className="break-all">{link.target_url}</span> })}
+              </p>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">
+                  {t('dynamicLink.scans', { scans: scanCount === null ? '—' : formatNumber(scanCount) })}
+                </span>
+                <button
+                  onClick={() => link.id && refreshScanCount(link.id)}
+                  className="text-indigo-600 hover:text-indigo-800"
+                  title={t('dynamicLink.refresh')}
+                >
+                  <RefreshCw size={16} />
+                </button>
+              </div>
+              <button
+                onClick={handleUpdateTarget}
+                disabled={!targetChanged || isUpdating}
+                className={`w-full flex items-center justify-center gap-2 p-2 rounded-lg transition-colors
+                  ${targetChanged && !isUpdating
+                    ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`}
+              >
+                <Repeat size={16} />
+                {isUpdating ? t('dynamicLink.updating') : t('dynamicLink.update')}
+              </button>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">
+              {t('dynamicLink.createdOnDownload')}
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DynamicLinkPanel;
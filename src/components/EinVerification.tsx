@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Check, Loader2 } from 'lucide-react';
+import { ExemptOrganization, getExemptOrganization } from '../lib/supabase';
+import { getEinDigits, namesMatch, formatLocation, getDeductibility } from '../lib/exemptOrganizations';
+import { useI18n } from '../lib/i18n';
+
+interface EinVerificationProps {
+  ein: string;
+  organizationName: string;
+  // Fills in the IRS legal name; called automatically while the name is empty
+  onUseLegalName: (name: string) => void;
+}
+
+const LOOKUP_DELAY_MS = 300;
+
+type LookupState =
+  | { status: 'idle' | 'loading' | 'not-found' | 'error' }
+  | { status: 'found'; organization: ExemptOrganization };
+
+// Checks an EIN against the imported IRS exempt-organization data and flags
+// a name that differs from the legal name on file
+const EinVerification: React.FC<EinVerificationProps> = ({ ein, organizationName, onUseLegalName }) => {
+  const { t } = useI18n();
+  const [lookup, setLookup] = useState<LookupState>({ status: 'idle' });
+
+  const digits = getEinDigits(ein);
+  // Only the latest name matters when the lookup returns
+  const nameRef = useRef(organizationName);
+  nameRef.current = organizationName;
+  const onUseLegalNameRef = useRef(onUseLegalName);
+  onUseLegalNameRef.current = onUseLegalName;
+
+  useEffect(() => {
+    if (!digits) {
+      setLookup({ status: 'idle' });
+      return;
+    }
+
+    let cancelled = false;
+    setLookup({ status: 'loading' });
+
+    const timer = setTimeout(async () => {
+      try {
+        const organization = await getExemptOrganization(digits);
+        if (cancelled) return;
+        setLookup(organization ? { status: 'found', organization } : { status: 'not-found' });
+        if (organization && !nameRef.current.trim()) onUseLegalNameRef.current(organization.name);
+      } catch {
+        if (!cancelled) setLookup({ status: 'error' });
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [digits]);
+
+  switch (lookup.status) {
+    case 'idle':
+      return null;
+    case 'loading':
+      return (
+        <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+          <Loader2 size={12} className="animate-spin" />
+          {t('ein.checking')}
+        </p>
+      );
+    case 'not-found':
+      return (
+        <p className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+          <AlertTriangle size={12} />
+          {t('ein.notFound')}
+        </p>
+      );
+    case 'error':
+      return <p className="mt-1 text-xs text-gray-500">{t('ein.error')}</p>;
+  }
+
+  const { organization } = lookup;
+  const matches = namesMatch(organization.name, organizationName);
+  const location = formatLocation(organization);
+  const { deductible, label } = getDeductibility(organization, t);
+
+  return (
+    <div className={`mt-2 p-2 rounded-lg border text-xs space-y-1
+      ${matches ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-900">{organization.name}</span>
+        {/* The IRS data is public, so a match is not proof of who is asking */}
+        {matches && (
+          <span className="flex items-center gap-1 text-green-700">
+            <Check size={12} />
+            {t('ein.matches')}
+          </span>
+        )}
+      </div>
+      {location && <p className="text-gray-600">{location}</p>}
+      <p className={deductible === false ? 'text-amber-700' : 'text-gray-600'}>{label}</p>
+      {!matches && (
+        <p className="flex flex-wrap items-center gap-1 text-amber-700">
+          <AlertTriangle size={12} />
+          {t('ein.nameDiffers')}
+          <button
+            type="button"
+            onClick={() => onUseLegalName(organization.name)}
+            className="text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            {t('ein.useLegalName')}
+          </button>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EinVerification;
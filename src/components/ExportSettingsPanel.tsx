@@ -0,0 +1,143 @@
+import React from 'react';
+import {
+  ExportSettings,
+  OutputDpi,
+  PageSizeId,
+  PAGE_SIZES,
+  OUTPUT_DPIS,
+  MIN_CUSTOM_SIZE,
+  MAX_CUSTOM_SIZE
+} from '../lib/printSettings';
+import ColorInput from './ColorInput';
+import { useI18n } from '../lib/i18n';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  pageColor: string;
+  palette?: string[] | null;  // Enforced brand palette
+  onChange: (settings: ExportSettings) => void;
+  onPageColorChange: (color: string) => void;
+}
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, pageColor, palette, onChange, onPageColorChange }) => {
+  const { t } = useI18n();
+  const update = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('export.pageSize')}
+          </label>
+          <select
+            value={settings.pageSize}
+            onChange={(e) => update('pageSize', e.target.value as PageSizeId)}
+            className={inputClassName}
+          >
+            {PAGE_SIZES.map(({ value, label }) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+            <option value="custom">{t('export.customSize')}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('export.orientation')}
+          </label>
+          <select
+            value={settings.orientation}
+            onChange={(e) => update('orientation', e.target.value as ExportSettings['orientation'])}
+            className={inputClassName}
+          >
+            <option value="portrait">{t('export.portrait')}</option>
+            <option value="landscape">{t('export.landscape')}</option>
+          </select>
+        </div>
+      </div>
+
+      {settings.pageSize === 'custom' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('export.width')}
+            </label>
+            <input
+              type="number"
+              min={MIN_CUSTOM_SIZE}
+              max={MAX_CUSTOM_SIZE}
+              step={0.125}
+              value={settings.customWidth}
+              onChange={(e) => update('customWidth', Number(e.target.value))}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('export.height')}
+            </label>
+            <input
+              type="number"
+              min={MIN_CUSTOM_SIZE}
+              max={MAX_CUSTOM_SIZE}
+              step={0.125}
+              value={settings.customHeight}
+              onChange={(e) => update('customHeight', Number(e.target.value))}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('export.dpi')}
+          </label>
+          <select
+            value={settings.dpi}
+            onChange={(e) => update('dpi', Number(e.target.value) as OutputDpi)}
+            className={inputClassName}
+          >
+            {OUTPUT_DPIS.map((dpi) => (
+              <option key={dpi} value={dpi}>{t('export.dpiOption', { dpi })}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('export.pageColor')}
+          </label>
+          <ColorInput value={pageColor} onChange={onPageColorChange} palette={palette} />
+        </div>
+      </div>
+
+      <div className="space-y-2 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.bleed}
+            onChange={(e) => update('bleed', e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          {t('export.bleed')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.transparentPng}
+            onChange={(e) => update('transparentPng', e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          {t('export.transparentPng')}
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
@@ -0,0 +1,209 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Languages, Loader2, X } from 'lucide-react';
+import {
+  FlyerHeadings,
+  FlyerTranslation,
+  createTranslation,
+  getFlyerLanguage,
+  getFlyerLanguages
+} from '../lib/flyerLanguages';
+import { getTextErrorMessage, translateFlyerText } from '../lib/copywriting';
+import { useI18n } from '../lib/i18n';
+
+interface FlyerLanguagesPanelProps {
+  language: string;
+  headings: FlyerHeadings;
+  orgDescription: string;
+  urlPurpose: string;
+  translations: FlyerTranslation[];
+  onLanguageChange: (language: string) => void;
+  onHeadingsChange: (headings: FlyerHeadings) => void;
+  onTranslationsChange: (translations: FlyerTranslation[]) => void;
+  organizationId: string | null;
+  signedIn: boolean;
+  onError: (message: string) => void;
+}
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+interface HeadingInputsProps {
+  headings: FlyerHeadings;
+  dir: string;
+  onChange: (headings: FlyerHeadings) => void;
+}
+
+const HeadingInputs: React.FC<HeadingInputsProps> = ({ headings, dir, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <input
+        type="text"
+        aria-label={t('flyerLanguages.aboutHeading')}
+        value={headings.about}
+        onChange={(e) => onChange({ ...headings, about: e.target.value })}
+        dir={dir}
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        aria-label={t('flyerLanguages.purposeHeading')}
+        value={headings.purpose}
+        onChange={(e) => onChange({ ...headings, purpose: e.target.value })}
+        dir={dir}
+        className={inputClassName}
+      />
+    </div>
+  );
+};
+
+// The flyer's primary language and headings, plus editable translations of
+// its text. Adding a language translates the current text right away.
+const FlyerLanguagesPanel: React.FC<FlyerLanguagesPanelProps> = ({
+  language,
+  headings,
+  orgDescription,
+  urlPurpose,
+  translations,
+  onLanguageChange,
+  onHeadingsChange,
+  onTranslationsChange,
+  organizationId,
+  signedIn,
+  onError
+}) => {
+  const { t, locale } = useI18n();
+  const languageNames = useMemo(() => new Intl.DisplayNames([locale], { type: 'language' }), [locale]);
+  const [translating, setTranslating] = useState<string[]>([]);
+  // Translations finish after other edits, so merge into the latest list
+  const translationsRef = useRef(translations);
+  translationsRef.current = translations;
+
+  const usedLanguages = [language, ...translations.map((item) => item.language)];
+  const availableLanguages = getFlyerLanguages().filter(({ code }) => !usedLanguages.includes(code));
+  const hasSourceText = !!(orgDescription.trim() || urlPurpose.trim());
+
+  const updateTranslation = (code: string, changes: Partial<FlyerTranslation>, current: FlyerTranslation[] = translations) =>
+    current.map((item) => (item.language === code ? { ...item, ...changes } : item));
+
+  const translate = async (code: string) => {
+    if (!signedIn) {
+      onError(t('flyerLanguages.signIn'));
+      return;
+    }
+
+    onError('');
+    setTranslating((codes) => [...codes, code]);
+    try {
+      const translated = await translateFlyerText({ language, headings, orgDescription, urlPurpose }, code, organizationId);
+      onTranslationsChange(updateTranslation(code, translated, translationsRef.current));
+    } catch (err) {
+      onError(t(getTextErrorMessage(err)));
+    } finally {
+      setTranslating((codes) => codes.filter((item) => item !== code));
+    }
+  };
+
+  const handleAdd = (code: string) => {
+    if (!code) return;
+    onTranslationsChange([...translations, createTranslation(code)]);
+    if (signedIn && hasSourceText) translate(code);
+  };
+
+  const handleRemove = (code: string) => {
+    onTranslationsChange(translations.filter((item) => item.language !== code));
+  };
+
+  const primary = getFlyerLanguage(language);
+  const primaryName = languageNames.of(primary.code) ?? primary.name;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <select
+          aria-label={t('flyerLanguages.primary')}
+          value={language}
+          onChange={(e) => onLanguageChange(e.target.value)}
+          className={inputClassName}
+        >
+          {getFlyerLanguages().map(({ code, nativeName }) => (
+            <option key={code} value={code}>{nativeName}</option>
+          ))}
+        </select>
+        <HeadingInputs headings={headings} dir={primary.direction} onChange={onHeadingsChange} />
+        <p className="text-xs text-gray-500">
+          {t('flyerLanguages.primaryHint', { language: primaryName })}
+        </p>
+      </div>
+
+      {translations.map((translation) => {
+        const { code, nativeName, direction } = getFlyerLanguage(translation.language);
+        const isTranslating = translating.includes(code);
+
+        return (
+          <div key={code} className="p-3 border border-gray-200 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">{nativeName}</span>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => translate(code)}
+                  disabled={isTranslating || !hasSourceText}
+                  className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                  title={t('flyerLanguages.retranslate', { language: primaryName })}
+                >
+                  {isTranslating ? <Loader2 size={14} className="animate-spin" /> : <Languages size={14} />}
+                  {isTranslating ? t('flyerLanguages.translating') : t('flyerLanguages.translate')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(code)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title={t('flyerLanguages.remove', { language: nativeName })}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+            <HeadingInputs
+              headings={translation.headings}
+              dir={direction}
+              onChange={(value) => onTranslationsChange(updateTranslation(code, { headings: value }))}
+            />
+            <textarea
+              aria-label={t('flyerLanguages.description', { language: nativeName })}
+              value={translation.orgDescription}
+              onChange={(e) => onTranslationsChange(updateTranslation(code, { orgDescription: e.target.value }))}
+              dir={direction}
+              rows={3}
+              className={inputClassName}
+            />
+            <textarea
+              aria-label={t('flyerLanguages.purpose', { language: nativeName })}
+              value={translation.urlPurpose}
+              onChange={(e) => onTranslationsChange(updateTranslation(code, { urlPurpose: e.target.value }))}
+              dir={direction}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+        );
+      })}
+
+      {availableLanguages.length > 0 && (
+        <select
+          aria-label={t('flyerLanguages.add')}
+          value=""
+          onChange={(e) => handleAdd(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">{t('flyerLanguages.addPlaceholder')}</option>
+          {availableLanguages.map(({ code, nativeName }) => (
+            <option key={code} value={code}>{nativeName}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default FlyerLanguagesPanel;
@@ -0,0 +1,23 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { I18nContext, I18nContextValue, createTranslator, getInitialLocale, storeLocale } from '../lib/i18n';
+
+// Holds the UI locale for the whole app and remembers it in this browser
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState(getInitialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    ...createTranslator(locale),
+    setLocale: (code: string) => {
+      storeLocale(code);
+      setLocale(code);
+    }
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
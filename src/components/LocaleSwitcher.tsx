@@ -0,0 +1,25 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { getLocales, useI18n } from '../lib/i18n';
+
+const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className="inline-flex items-center gap-2 text-sm text-gray-600">
+      <Globe size={16} />
+      <select
+        aria-label={t('locale.label')}
+        value={locale}
+        onChange={(e) => setLocale(e.target.value)}
+        className="p-1 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {getLocales().map(({ code, nativeName }) => (
+          <option key={code} value={code}>{nativeName}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LocaleSwitcher;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Palette } from 'lucide-react';
+import { LogoPalette, extractLogoPalette } from '../lib/logoPalette';
+import { useI18n } from '../lib/i18n';
+
+interface LogoPalettePanelProps {
+  logo: string;
+  qrColor: string;
+  bgColor: string;
+  onApply: (qrColor: string, bgColor: string) => void;
+}
+
+// Colors found in the logo and code/background pairs built from them that
+// already pass the contrast check. Re-analyzed whenever the logo changes.
+const LogoPalettePanel: React.FC<LogoPalettePanelProps> = ({ logo, qrColor, bgColor, onApply }) => {
+  const { t, formatNumber } = useI18n();
+  const [palette, setPalette] = useState<LogoPalette | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPalette(null);
+    setFailed(false);
+
+    extractLogoPalette(logo)
+      .then((result) => {
+        if (!cancelled) setPalette(result);
+      })
+      .catch((err) => {
+        console.error('Error analyzing logo colors:', err);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [logo]);
+
+  if (failed) {
+    return <p className="text-sm text-gray-500">{t('logoPalette.error')}</p>;
+  }
+
+  if (!palette) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 size={14} className="animate-spin" />
+        {t('logoPalette.analyzing')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Palette size={16} className="text-gray-400" />
+        <div className="flex gap-1">
+          {palette.swatches.map(({ color, share }) => (
+            <span
+              key={color}
+              className="w-6 h-6 rounded border border-gray-300"
+              style={{ backgroundColor: color }}
+              title={t('logoPalette.swatch', { color, share: formatNumber(share, { style: 'percent' }) })}
+            />
+          ))}
+        </div>
+      </div>
+
+      {palette.pairs.length ? (
+        <div className="grid grid-cols-2 gap-2">
+          {palette.pairs.map((pair) => {
+            const isActive = pair.qrColor === qrColor.toLowerCase() && pair.bgColor === bgColor.toLowerCase();
+            return (
+              <button
+                key={`${pair.qrColor}-${pair.bgColor}`}
+                type="button"
+                onClick={() => onApply(pair.qrColor, pair.bgColor)}
+                disabled={isActive}
+                className={`flex items-center gap-2 p-2 border rounded-lg text-sm text-left
+                  ${isActive ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-700 hover:border-indigo-400'}`}
+              >
+                <span className="flex flex-shrink-0 rounded overflow-hidden border border-gray-300">
+                  <span className="w-4 h-4" style={{ backgroundColor: pair.qrColor }} />
+                  <span className="w-4 h-4" style={{ backgroundColor: pair.bgColor }} />
+                </span>
+                <span>
+                  {t(pair.shaded ? 'logoPalette.shadedPair' : 'logoPalette.pair', {
+                    ratio: formatNumber(pair.ratio, { maximumFractionDigits: 1 })
+                  })}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">{t('logoPalette.noPairs')}</p>
+      )}
+    </div>
+  );
+};
+
+export default LogoPalettePanel;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { ErrorCorrectionLevel } from '../lib/qrMatrix';
+import { LogoSettings, MIN_LOGO_SCALE, maxLogoScale } from '../lib/logoPlacement';
+import ColorInput from './ColorInput';
+import { useI18n } from '../lib/i18n';
+
+interface LogoSettingsPanelProps {
+  settings: LogoSettings;
+  level: ErrorCorrectionLevel;
+  palette?: string[] | null;  // Enforced brand palette
+  onChange: (settings: LogoSettings) => void;
+}
+
+const LogoSettingsPanel: React.FC<LogoSettingsPanelProps> = ({ settings, level, palette, onChange }) => {
+  const { t, formatNumber } = useI18n();
+  const maxScale = maxLogoScale(level);
+  const scale = Math.min(settings.scale, maxScale);
+
+  const update = <K extends keyof LogoSettings>(key: K, value: LogoSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4 p-3 border border-gray-200 rounded-lg">
+      <div className="flex gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="logo-placement"
+            checked={settings.placement === 'center'}
+            onChange={() => update('placement', 'center')}
+            className="text-indigo-600 focus:ring-indigo-500"
+          />
+          {t('logoSettings.center')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="logo-placement"
+            checked={settings.placement === 'above'}
+            onChange={() => update('placement', 'above')}
+            className="text-indigo-600 focus:ring-indigo-500"
+          />
+          {t('logoSettings.above')}
+        </label>
+      </div>
+
+      {settings.placement === 'center' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('logoSettings.size', { size: formatNumber(scale, { style: 'percent' }) })}
+            </label>
+            <input
+              type="range"
+              min={MIN_LOGO_SCALE}
+              max={maxScale}
+              step={0.01}
+              value={scale}
+              onChange={(e) => update('scale', Number(e.target.value))}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {t('logoSettings.sizeLimit', { size: formatNumber(maxScale, { style: 'percent' }), level })}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('logoSettings.padding', { padding: settings.padding })}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={3}
+                value={settings.padding}
+                onChange={(e) => update('padding', Number(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('logoSettings.radius')}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={0.5}
+                step={0.05}
+                value={settings.radius}
+                onChange={(e) => update('radius', Number(e.target.value))}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                <input
+                  type="checkbox"
+                  checked={settings.backplate}
+                  onChange={(e) => update('backplate', e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {t('logoSettings.backplate')}
+              </label>
+              <ColorInput
+                value={settings.backplateColor}
+                onChange={(color) => update('backplateColor', color)}
+                palette={palette}
+                disabled={!settings.backplate}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('logoSettings.border', { border: settings.border })}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.25}
+                value={settings.border}
+                onChange={(e) => update('border', Number(e.target.value))}
+                className="w-full mb-1"
+              />
+              <ColorInput
+                value={settings.borderColor}
+                onChange={(color) => update('borderColor', color)}
+                palette={palette}
+                disabled={settings.border === 0}
+                className="w-full h-6 rounded cursor-pointer disabled:opacity-50"
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LogoSettingsPanel;
@@ -1,15 +1,29 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import imageCompression from 'browser-image-compression';
-import { Upload, X, Image as ImageIcon } from 'lucide-react';
+import { Upload, X, Image as ImageIcon, FolderOpen } from 'lucide-react';
+import { StoredLogo, getStoredLogos, downloadLogo } from '../lib/supabase';
+import { LocalizedMessage, useI18n } from '../lib/i18n';
 
 interface LogoUploadProps {
-  onLogoChange: (logo: string | null) => void;
+  logo: string | null;
+  signedIn: boolean;  // Previously uploaded logos are only listed for signed-in users
+  organizationId: string | null;  // Workspace whose logos are listed
+  // key is set when the logo was picked from storage
+  onLogoChange: (logo: string | null, key?: string) => void;
 }
 
-const LogoUpload: React.FC<LogoUploadProps> = ({ onLogoChange }) => {
+const LogoUpload: React.FC<LogoUploadProps> = ({ logo, signedIn, organizationId, onLogoChange }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [error, setError] = useState<string>('');
-  const [preview, setPreview] = useState<string | null>(null);
+  const { t, formatDate } = useI18n();
+  // Translated when shown, so it follows locale changes
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [storedLogos, setStoredLogos] = useState<StoredLogo[] | null>(null);
+  const [isLoadingStored, setIsLoadingStored] = useState(false);
+
+  // The picker lists one workspace's logos; close it when that changes
+  useEffect(() => {
+    setStoredLogos(null);
+  }, [organizationId, signedIn]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -26,18 +40,18 @@ const LogoUpload: React.FC<LogoUploadProps> = ({ onLogoChange }) => {
       const img = new Image();
       img.onload = () => {
         if (img.width < 100 || img.height < 100) {
-          setError('Image must be at least 100x100 pixels');
+          setError({ key: 'logo.error.tooSmall', params: { size: 100 } });
           resolve(false);
         } else if (img.width > 2000 || img.height > 2000) {
-          setError('Image must be no larger than 2000x2000 pixels');
+          setError({ key: 'logo.error.tooLarge', params: { size: 2000 } });
           resolve(false);
         } else {
-          setError('');
+          setError(null);
           resolve(true);
         }
       };
       img.onerror = () => {
-        setError('Invalid image file');
+        setError({ key: 'logo.error.invalid' });
         resolve(false);
       };
       img.src = URL.createObjectURL(file);
@@ -47,12 +61,12 @@ const LogoUpload: React.FC<LogoUploadProps> = ({ onLogoChange }) => {
   const processImage = async (file: File) => {
     try {
       if (!file.type.startsWith('image/')) {
-        setError('Please upload an image file');
+        setError({ key: 'logo.error.notImage' });
         return;
       }
 
       if (file.size > 5 * 1024 * 1024) {
-        setError('File size must be less than 5MB');
+        setError({ key: 'logo.error.fileSize', params: { size: 5 } });
         return;
       }
 
@@ -69,14 +83,12 @@ const LogoUpload: React.FC<LogoUploadProps> = ({ onLogoChange }) => {
       const reader = new FileReader();
       
       reader.onloadend = () => {
-        const base64data = reader.result as string;
-        setPreview(base64data);
-        onLogoChange(base64data);
+        onLogoChange(reader.result as string);
       };
 
       reader.readAsDataURL(compressedFile);
     } catch (err) {
-      setError('Error processing image');
+      setError({ key: 'logo.error.processing' });
       console.error('Error processing image:', err);
     }
   };
@@ -100,28 +112,54 @@ const LogoUpload: React.FC<LogoUploadProps> = ({ onLogoChange }) => {
   };
 
   const handleRemove = () => {
-    setPreview(null);
     onLogoChange(null);
-    setError('');
+    setError(null);
+  };
+
+  const toggleStoredLogos = async () => {
+    if (storedLogos) {
+      setStoredLogos(null);
+      return;
+    }
+
+    setIsLoadingStored(true);
+    setError(null);
+    try {
+      setStoredLogos(await getStoredLogos(organizationId));
+    } catch {
+      setError({ key: 'logo.error.loadStored' });
+    } finally {
+      setIsLoadingStored(false);
+    }
+  };
+
+  const handlePickStored = async (stored: StoredLogo) => {
+    setError(null);
+    try {
+      onLogoChange(await downloadLogo(stored.key), stored.key);
+      setStoredLogos(null);
+    } catch {
+      setError({ key: 'logo.error.loadLogo' });
+    }
   };
 
   return (
     <div className="w-full space-y-2">
       <label className="block text-sm font-medium text-gray-700">
-        Organization Logo
+        {t('logo.label')}
       </label>
       
-      {preview ? (
+      {logo ? (
         <div className="relative w-full max-w-xs mx-auto">
           <img
-            src={preview}
-            alt="Logo preview"
+            src={logo}
+            alt={t('logo.previewAlt')}
             className="w-full h-auto rounded-lg shadow-md"
           />
           <button
             onClick={handleRemove}
             className="absolute -top-2 -right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
-            title="Remove logo"
+            title={t('logo.remove')}
           >
             <X size={16} />
           </button>
@@ -143,7 +181,7 @@ const LogoUpload: React.FC<LogoUploadProps> = ({ onLogoChange }) => {
             onChange={handleFileInput}
             accept="image/*"
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            aria-label="Upload logo"
+            aria-label={t('logo.upload')}
           />
           
           <div className="flex flex-col items-center justify-center space-y-2">
@@ -154,22 +192,54 @@ const LogoUpload: React.FC<LogoUploadProps> = ({ onLogoChange }) => {
             )}
             <div className="text-center">
               <p className="text-sm text-gray-600">
-                Drag and drop your logo here, or click to select
+                {t('logo.dropHint')}
               </p>
               <p className="text-xs text-gray-500 mt-1">
-                PNG, JPG, GIF up to 5MB
+                {t('logo.formats', { size: 5 })}
               </p>
             </div>
           </div>
         </div>
       )}
 
+      {signedIn && !logo && (
+        <button
+          type="button"
+          onClick={toggleStoredLogos}
+          disabled={isLoadingStored}
+          className="flex items-center gap-2 text-sm text-indigo-600 hover:text-indigo-700"
+        >
+          <FolderOpen size={16} />
+          {isLoadingStored ? t('logo.loadingStored') : storedLogos ? t('logo.hideStored') : t('logo.chooseStored')}
+        </button>
+      )}
+
+      {storedLogos && !logo && (
+        storedLogos.length ? (
+          <div className="grid grid-cols-4 gap-2">
+            {storedLogos.map((stored) => (
+              <button
+                key={stored.key}
+                type="button"
+                onClick={() => handlePickStored(stored)}
+                className="aspect-square p-1 border border-gray-300 rounded-lg hover:border-indigo-500 bg-white"
+                title={stored.created_at ? t('logo.uploaded', { date: formatDate(stored.created_at) }) : undefined}
+              >
+                <img src={stored.url} alt={t('logo.storedAlt')} className="w-full h-full object-contain" />
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">{t('logo.noStored')}</p>
+        )
+      )}
+
       {error && (
-        <p className="text-sm text-red-600 mt-1">{error}</p>
+        <p className="text-sm text-red-600 mt-1">{t(error.key, error.params)}</p>
       )}
       
       <p className="text-xs text-gray-500">
-        Recommended: Square logo between 200x200 and 1000x1000 pixels
+        {t('logo.recommended', { min: 200, max: 1000 })}
       </p>
     </div>
   );
@@ -0,0 +1,95 @@
+import React from 'react';
+import { PayloadFields, PayloadType, PAYLOAD_FIELDS, isFieldVisible, resetVisibleSelects } from '../lib/payloads';
+import { LocalizedMessage, useI18n } from '../lib/i18n';
+
+interface PayloadFormProps {
+  type: Exclude<PayloadType, 'url'>;
+  fields: PayloadFields;
+  errors: Record<string, LocalizedMessage>;
+  onChange: (fields: PayloadFields) => void;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `w-full p-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500
+    ${hasError ? 'border-red-300' : 'border-gray-300'}`;
+
+const PayloadForm: React.FC<PayloadFormProps> = ({ type, fields, errors, onChange }) => {
+  const { t } = useI18n();
+  const setField = (name: string, value: string) => {
+    onChange(resetVisibleSelects(type, { ...fields, [name]: value }));
+  };
+
+  return (
+    <div className="space-y-4">
+      {PAYLOAD_FIELDS[type].filter((field) => isFieldVisible(field, fields)).map((field) => {
+        const id = `payload-${type}-${field.name}`;
+        const value = fields[field.name] ?? '';
+        const fieldError = errors[field.name];
+
+        if (field.input === 'checkbox') {
+          return (
+            <label key={field.name} htmlFor={id} className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                id={id}
+                type="checkbox"
+                checked={value === 'true'}
+                onChange={(e) => setField(field.name, e.target.checked ? 'true' : '')}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {t(field.label)}
+            </label>
+          );
+        }
+
+        return (
+          <div key={field.name}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.required ? t(field.label) : t('payload.optional', { label: t(field.label) })}
+            </label>
+            {field.input === 'select' ? (
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => setField(field.name, e.target.value)}
+                className={inputClassName(!!fieldError)}
+              >
+                {field.options?.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label ? t(option.label) : option.value}</option>
+                ))}
+              </select>
+            ) : field.input === 'textarea' ? (
+              <textarea
+                id={id}
+                value={value}
+                onChange={(e) => setField(field.name, e.target.value)}
+                placeholder={field.placeholder}
+                className={inputClassName(!!fieldError)}
+                rows={3}
+              />
+            ) : (
+              <input
+                id={id}
+                type={field.input}
+                step={field.input === 'number' ? 'any' : undefined}
+                value={value}
+                onChange={(e) => setField(field.name, e.target.value)}
+                placeholder={field.placeholder}
+                className={inputClassName(!!fieldError)}
+                aria-invalid={!!fieldError}
+              />
+            )}
+            {fieldError && (
+              <p className="mt-1 text-sm text-red-600">{t(fieldError.key, fieldError.params)}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {errors._form && (
+        <p className="text-sm text-red-600">{t(errors._form.key, errors._form.params)}</p>
+      )}
+    </div>
+  );
+};
+
+export default PayloadForm;
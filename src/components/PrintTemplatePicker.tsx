@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { getPrintTemplates } from '../lib/printTemplates';
+import { useI18n } from '../lib/i18n';
+
+interface PrintTemplatePickerProps {
+  disabled: boolean;
+  onDownload: (templateId: string, copies: number) => Promise<void>;
+}
+
+const MAX_PAGES = 10;
+
+const PrintTemplatePicker: React.FC<PrintTemplatePickerProps> = ({ disabled, onDownload }) => {
+  const { t } = useI18n();
+  const templates = getPrintTemplates();
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const [copies, setCopies] = useState(templates[0]?.cells.length ?? 1);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const template = templates.find(({ id }) => id === templateId);
+  if (!template) return null;
+
+  const perPage = template.cells.length;
+  const maxCopies = perPage * MAX_PAGES;
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    // Default to one full page
+    setCopies(templates.find((candidate) => candidate.id === id)?.cells.length ?? 1);
+  };
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      await onDownload(template.id, Math.min(Math.max(1, copies), maxCopies));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={templateId}
+        onChange={(e) => selectTemplate(e.target.value)}
+        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {templates.map(({ id, name }) => (
+          <option key={id} value={id}>{t(name)}</option>
+        ))}
+      </select>
+      <p className="text-sm text-gray-500">{t(template.description)}</p>
+
+      {perPage > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('printTemplate.copies', { perPage })}
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={maxCopies}
+            value={copies}
+            onChange={(e) => setCopies(Number(e.target.value))}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+      )}
+
+      <button
+        onClick={handleDownload}
+        disabled={disabled || isExporting}
+        className={`w-full flex items-center justify-center gap-2 p-2 rounded-lg transition-colors
+          ${!disabled && !isExporting
+            ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+            : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`}
+      >
+        <Printer size={20} />
+        {isExporting ? t('printTemplate.preparing') : t('printTemplate.download')}
+      </button>
+    </div>
+  );
+};
+
+export default PrintTemplatePicker;
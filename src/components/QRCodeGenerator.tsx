@@ -1,180 +1,545 @@
-import { useState, useRef } from 'react';
-import { QRCodeCanvas } from 'qrcode.react';
-import { toPng, toJpeg } from 'html-to-image';
-import jsPDF from 'jspdf';
-import { Download, Link, Heart, Info, Edit2, Check, Wand2, AlertCircle } from 'lucide-react';
-import OpenAI from 'openai';
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { Download, Link, Heart, Info, Edit2, Check, AlertCircle, LogOut } from 'lucide-react';
 import LogoUpload from './LogoUpload';
 import UserForm from './UserForm';
-import { saveUser, saveQRCode, User } from '../lib/supabase';
-
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-const openai = apiKey ? new OpenAI({ apiKey, dangerouslyAllowBrowser: true }) : null;
+import DynamicLinkPanel from './DynamicLinkPanel';
+import BatchGenerator from './BatchGenerator';
+import PayloadForm from './PayloadForm';
+import UtmBuilder from './UtmBuilder';
+import QRCodePreview from './QRCodePreview';
+import LogoSettingsPanel from './LogoSettingsPanel';
+import ScanStatusBadge from './ScanStatusBadge';
+import ContrastWarning from './ContrastWarning';
+import QRStylePanel from './QRStylePanel';
+import PrintTemplatePicker from './PrintTemplatePicker';
+import ExportSettingsPanel from './ExportSettingsPanel';
+import QRCodeLibrary from './QRCodeLibrary';
+import BrandKitPanel from './BrandKitPanel';
+import WorkspacePanel from './WorkspacePanel';
+import ColorInput from './ColorInput';
+import AITextField from './AITextField';
+import FlyerLanguagesPanel from './FlyerLanguagesPanel';
+import LocaleSwitcher from './LocaleSwitcher';
+import LogoPalettePanel from './LogoPalettePanel';
+import {
+  supabase,
+  getSignedInUser,
+  signOut,
+  getAuthErrorMessage,
+  uploadLogo,
+  downloadLogo,
+  saveQRCode,
+  updateQRCode,
+  createDynamicLink,
+  getDynamicLinkById,
+  User,
+  DynamicLink,
+  QRCode,
+  BrandKit,
+  OrganizationMembership,
+  TextTone,
+  TextAudience,
+  TextLength
+} from '../lib/supabase';
+import { generateSlug, buildRedirectUrl, isValidTargetUrl } from '../lib/dynamicLinks';
+import {
+  PayloadType,
+  PayloadFields,
+  PAYLOAD_TYPES,
+  DEFAULT_PAYLOAD_FIELDS,
+  buildPayload,
+  validatePayload
+} from '../lib/payloads';
+import {
+  UtmParams,
+  EMPTY_UTM_PARAMS,
+  applyUtmParams,
+  extractUtmParams,
+  removeUtmParams,
+  toUtmColumns
+} from '../lib/utm';
+import { BatchItem, sanitizeFilename } from '../lib/batch';
+import { ErrorCorrectionLevel } from '../lib/qrMatrix';
+import { LogoSettings, DEFAULT_LOGO_SETTINGS, ERROR_CORRECTION_LEVELS } from '../lib/logoPlacement';
+import { QRStyle, DEFAULT_QR_STYLE, getStyleColors } from '../lib/qrStyle';
+import { analyzeStyledContrast } from '../lib/contrast';
+import { ExportSettings, DEFAULT_EXPORT_SETTINGS } from '../lib/printSettings';
+import { FlyerFonts, DEFAULT_FLYER_FONTS, getFontFamily } from '../lib/flyerFonts';
+import { getPaletteColors, getKitFonts, findOffPaletteColors } from '../lib/brandKits';
+import { canEditOrganization } from '../lib/organizations';
+import {
+  FlyerHeadings,
+  FlyerTranslation,
+  DEFAULT_FLYER_LANGUAGE,
+  getDefaultHeadings,
+  getFlyerLanguage,
+  isDefaultHeadings,
+  parseStoredHeadings,
+  parseStoredTranslations
+} from '../lib/flyerLanguages';
+import {
+  CopyOptions,
+  TEXT_TONES,
+  TEXT_AUDIENCES,
+  TEXT_LENGTHS,
+  getStoredCopyOptions,
+  storeCopyOptions
+} from '../lib/copywriting';
+import {
+  DownloadFormat,
+  DOWNLOAD_FORMATS,
+  FlyerDesign,
+  exportFlyer,
+  exportPrintTemplate,
+  exportPerLanguage,
+  downloadBlob,
+  getDesignColors,
+  verifyDesignScannability
+} from '../lib/flyerExport';
+import { useI18n } from '../lib/i18n';
 
 const QRCodeGenerator = () => {
+  const { t } = useI18n();
   const [url, setUrl] = useState('');
   const [orgDescription, setOrgDescription] = useState('');
   const [urlPurpose, setUrlPurpose] = useState('');
   const [qrColor, setQrColor] = useState('#000000');
   const [bgColor, setBgColor] = useState('#ffffff');
   const [size, setSize] = useState(256);
+  const [level, setLevel] = useState<ErrorCorrectionLevel>('H');
+  const [logoSettings, setLogoSettings] = useState<LogoSettings>(DEFAULT_LOGO_SETTINGS);
+  const [qrStyle, setQrStyle] = useState<QRStyle>(DEFAULT_QR_STYLE);
+  const [pageColor, setPageColor] = useState('#ffffff');
+  const [flyerFonts, setFlyerFonts] = useState<FlyerFonts>(DEFAULT_FLYER_FONTS);
+  const [flyerLanguage, setFlyerLanguage] = useState(DEFAULT_FLYER_LANGUAGE);
+  const [headings, setHeadings] = useState<FlyerHeadings>(() => getDefaultHeadings(DEFAULT_FLYER_LANGUAGE));
+  const [translations, setTranslations] = useState<FlyerTranslation[]>([]);
+  const [languageOutput, setLanguageOutput] = useState('primary');  // 'primary', 'each', or a language to pair with the primary one
+  const [activeKit, setActiveKit] = useState<BrandKit | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
   const [editingDescription, setEditingDescription] = useState(false);
   const [editingPurpose, setEditingPurpose] = useState(false);
   const [tempDescription, setTempDescription] = useState('');
   const [tempPurpose, setTempPurpose] = useState('');
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [copyOptions, setCopyOptions] = useState<CopyOptions>(getStoredCopyOptions);
   const [error, setError] = useState('');
   const [logo, setLogo] = useState<string | null>(null);
+  const [logoKey, setLogoKey] = useState<string | null>(null);  // Stored copy of `logo`, once uploaded
   const [user, setUser] = useState<User | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [workspace, setWorkspace] = useState<OrganizationMembership | null>(null);  // null is the personal workspace
+  const [isDynamic, setIsDynamic] = useState(false);
+  const [dynamicSlug, setDynamicSlug] = useState<string | null>(null);
+  const [dynamicLink, setDynamicLink] = useState<DynamicLink | null>(null);
+  const [payloadType, setPayloadType] = useState<PayloadType>('url');
+  const [payloadFields, setPayloadFields] = useState(DEFAULT_PAYLOAD_FIELDS);
+  const [showPayloadErrors, setShowPayloadErrors] = useState(false);
+  const [utmParams, setUtmParams] = useState<UtmParams>(EMPTY_UTM_PARAMS);
+  const [codeName, setCodeName] = useState<string | null>(null);  // Carried over from a code loaded from the library
+  // Library code being edited; downloads update it while it lives in the workspace they save to
+  const [loadedCode, setLoadedCode] = useState<{ id: string; organizationId: string | null } | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState(0);
   
   const qrRef = useRef<HTMLDivElement>(null);
-  const downloadRef = useRef<HTMLDivElement>(null);
+  // Bumped whenever the logo changes, so stored-logo downloads that finish
+  // after a newer choice are dropped
+  const logoRequestRef = useRef(0);
+  // The auth listener outlives locale changes, so it translates through this
+  const tRef = useRef(t);
+  tRef.current = t;
 
+  // Color pickers are limited to the palette only when the kit enforces it;
+  // contrast suggestions prefer kit colors either way
+  const kitPalette = activeKit ? getPaletteColors(activeKit) : undefined;
+  const enforcedPalette = activeKit?.enforce_palette ? kitPalette ?? null : null;
+  const workspaceId = workspace?.organization.id ?? null;
+  const canEditWorkspace = !workspace || canEditOrganization(workspace.role);
+  // Where downloads are saved: viewers keep theirs in their personal workspace
+  const ownerOrgId = canEditWorkspace ? workspaceId : null;
 
-  const handleUserSubmit = async (userData: Omit<User, 'id' | 'created_at'>) => {
-    setIsSubmitting(true);
-    setError('');
-    try {
-      const savedUser = await saveUser(userData);
-      setUser(savedUser);
-    } catch (err: any) {
-      setError(err.message || 'Error saving user data');
-    } finally {
-      setIsSubmitting(false);
+  const structuredType = payloadType === 'url' ? null : payloadType;
+  const structuredFields = structuredType ? payloadFields[structuredType] : null;
+  const payloadErrors = structuredType && structuredFields ? validatePayload(structuredType, structuredFields) : {};
+  // Only flag fields the user has touched until they try to download
+  const visiblePayloadErrors = Object.fromEntries(
+    Object.entries(payloadErrors).filter(([name]) => showPayloadErrors || name === '_form' || !!structuredFields?.[name])
+  );
+
+  const targetUrl = applyUtmParams(url, utmParams);
+  const shortUrl = !structuredType && isDynamic && dynamicSlug ? buildRedirectUrl(dynamicSlug) : null;
+  const qrValue = structuredType && structuredFields
+    ? buildPayload(structuredType, structuredFields)
+    : shortUrl || targetUrl || 'https://example.org';
+
+  const handlePayloadFieldsChange = (fields: PayloadFields) => {
+    if (!structuredType) return;
+    setPayloadFields((prev) => ({ ...prev, [structuredType]: fields }));
+  };
+
+  const handleDynamicToggle = (enabled: boolean) => {
+    setIsDynamic(enabled);
+    if (enabled && !dynamicSlug) {
+      setDynamicSlug(generateSlug());
     }
   };
 
-  const generateAIText = async (type: 'description' | 'purpose') => {
-    if (isGenerating) return;
-    
-    if (!openai) {
-      setError('OpenAI API key is not configured. Please add your API key to the environment variables.');
+  const handleLogoChange = (newLogo: string | null, key?: string) => {
+    logoRequestRef.current++;
+    setLogo(newLogo);
+    setLogoKey(key ?? null);
+  };
+
+  const loadStoredLogo = (key: string) => {
+    const request = ++logoRequestRef.current;
+    downloadLogo(key)
+      .then((storedLogo) => {
+        if (request === logoRequestRef.current) handleLogoChange(storedLogo, key);
+      })
+      .catch(() => {
+        if (request === logoRequestRef.current) setError(t('generator.error.storedLogo'));
+      });
+  };
+
+  // Applies a kit's colors, fonts, description and primary logo. With an
+  // enforced palette, other colors still in use fall back to the kit defaults.
+  const applyBrandKit = (kit: BrandKit | null) => {
+    setActiveKit(kit);
+    if (!kit) return;
+
+    setQrColor(kit.qr_color);
+    setBgColor(kit.bg_color);
+    setFlyerFonts(getKitFonts(kit));
+    if (kit.default_description) setOrgDescription(kit.default_description);
+    if (kit.primary_logo_key) loadStoredLogo(kit.primary_logo_key);
+
+    if (!kit.enforce_palette) return;
+
+    const palette = getPaletteColors(kit);
+    const inPalette = (color: string, fallback: string) => (palette.includes(color.toLowerCase()) ? color : fallback);
+    setPageColor((color) => inPalette(color, kit.bg_color));
+    setQrStyle((style) => ({
+      ...style,
+      eyeFrameColor: style.eyeFrameColor && inPalette(style.eyeFrameColor, kit.qr_color),
+      eyeBallColor: style.eyeBallColor && inPalette(style.eyeBallColor, kit.qr_color),
+      gradient: palette.includes(style.gradient.color.toLowerCase())
+        ? style.gradient
+        : { ...style.gradient, type: 'none', color: kit.qr_color }
+    }));
+    setLogoSettings((settings) => ({
+      ...settings,
+      backplateColor: inPalette(settings.backplateColor, kit.bg_color),
+      borderColor: inPalette(settings.borderColor, kit.qr_color)
+    }));
+  };
+
+  // Restores a saved code into the editor. Codes saved before logos were
+  // stored only know that they had one, so the current logo stays in place.
+  const loadSavedCode = async (code: QRCode) => {
+    setError('');
+    setCodeName(code.name);
+    setLoadedCode(code.id ? { id: code.id, organizationId: code.organization_id } : null);
+    setOrgDescription(code.org_description);
+    setUrlPurpose(code.url_purpose);
+    setQrColor(code.qr_color);
+    setBgColor(code.bg_color);
+    setSize(code.size);
+    setLevel(code.error_correction);
+    if (code.logo_settings) setLogoSettings(code.logo_settings);
+    logoRequestRef.current++;  // A logo still downloading for a previously loaded code
+    if (!code.has_logo) handleLogoChange(null);
+    if (code.logo_key) loadStoredLogo(code.logo_key);
+    setQrStyle(code.qr_style ?? DEFAULT_QR_STYLE);
+    setFlyerFonts(code.flyer_fonts ?? DEFAULT_FLYER_FONTS);
+    setFlyerLanguage(code.language);
+    setHeadings(parseStoredHeadings(code.flyer_headings, code.language));
+    setTranslations(parseStoredTranslations(code.translations));
+    setPayloadType(code.payload_type);
+    setShowPayloadErrors(false);
+    setIsDynamic(false);
+    setDynamicLink(null);
+    setDynamicSlug(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+
+    if (code.payload_type !== 'url') {
+      const fields = code.payload_data;
+      if (fields) setPayloadFields((prev) => ({ ...prev, [code.payload_type]: fields }));
       return;
     }
 
-    setError('');
-    setIsGenerating(true);
-    try {
-      const prompt = type === 'description'
-        ? `Write a concise, engaging description for a non-profit organization based on this context: ${orgDescription}. Make it professional and appealing to potential donors or supporters. Keep it under 100 words.`
-        : `Write a clear, compelling explanation of this URL's purpose based on this context: ${urlPurpose}. The URL is: ${url}. Focus on the value it provides to visitors. Keep it under 75 words.`;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: "You are a professional copywriter specializing in non-profit communications."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 150
-      });
+    setUrl(removeUtmParams(code.url));
+    setUtmParams(extractUtmParams(code.url));
 
-      const generatedText = response.choices[0]?.message?.content?.trim() || '';
-      
-      if (type === 'description') {
-        setOrgDescription(generatedText);
-      } else {
-        setUrlPurpose(generatedText);
+    if (code.dynamic_link_id) {
+      try {
+        const link = await getDynamicLinkById(code.dynamic_link_id);
+        if (link) {
+          setIsDynamic(true);
+          setDynamicSlug(link.slug);
+          setDynamicLink(link);
+        }
+      } catch (err) {
+        console.error('Error loading dynamic link:', err);
+        setError(t('generator.error.dynamicLink'));
       }
-    } catch (error: any) {
-      setError(error?.error?.message || 'Error generating AI text. Please try again.');
-    } finally {
-      setIsGenerating(false);
     }
   };
 
+  // Creates the redirect record on first download so the slug in the preview
+  // is the one that ends up in the database.
+  const ensureDynamicLink = async (userId: string): Promise<DynamicLink | null> => {
+    if (structuredType || !isDynamic || !dynamicSlug) return null;
+    if (dynamicLink) return dynamicLink;
+
+    const created = await createDynamicLink({
+      user_id: userId,
+      slug: dynamicSlug,
+      target_url: targetUrl
+    });
+    setDynamicLink(created);
+    return created;
+  };
+
+
+  // Follow the auth session; it persists across reloads and magic-link
+  // redirects. The profile load is deferred because awaiting Supabase calls
+  // inside the auth callback can deadlock the client.
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setUser(null);
+        setLogoKey(null);  // Stored under the previous account
+        setActiveKit(null);
+        setWorkspace(null);
+        return;
+      }
+      setTimeout(async () => {
+        try {
+          setUser(await getSignedInUser());
+        } catch (err) {
+          setError(tRef.current(getAuthErrorMessage(err, 'generator.error.account')));
+        }
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Store a newly added logo as soon as there is an account to store it under,
+  // so batch and variant records can reference it too
+  useEffect(() => {
+    if (!user?.id || !logo || logoKey) return;
+
+    let cancelled = false;
+    uploadLogo(logo, ownerOrgId)
+      .then((key) => {
+        if (!cancelled) setLogoKey(key);
+      })
+      .catch(() => {
+        // Retried when the design is downloaded
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, logo, logoKey, ownerOrgId]);
 
-  const downloadImage = async (format: 'png' | 'jpg' | 'pdf') => {
-    if (!downloadRef.current || !user?.id) return;
+  // Logos and brand kits belong to a workspace; the logo is stored again
+  // under the new one
+  const handleWorkspaceChange = (next: OrganizationMembership | null) => {
+    setWorkspace(next);
+    setLogoKey(null);
+    setActiveKit(null);
+  };
 
+  const handleSignOut = async () => {
+    setError('');
     try {
-      console.log('Starting QR code save...', {
+      await signOut();
+    } catch (err) {
+      setError(t(getAuthErrorMessage(err, 'generator.error.signOut')));
+    }
+  };
+
+  const handleCopyOptionChange = <K extends keyof CopyOptions>(key: K, value: CopyOptions[K]) => {
+    const next = { ...copyOptions, [key]: value };
+    setCopyOptions(next);
+    storeCopyOptions(next);
+  };
+
+  // Picking a language that has a translation swaps it with the current text
+  const handleFlyerLanguageChange = (code: string) => {
+    const translation = translations.find((item) => item.language === code);
+    if (translation) {
+      const current = { language: flyerLanguage, headings, orgDescription, urlPurpose };
+      setOrgDescription(translation.orgDescription);
+      setUrlPurpose(translation.urlPurpose);
+      setHeadings(translation.headings);
+      setTranslations(translations.map((item) => (item.language === code ? current : item)));
+    } else if (isDefaultHeadings(flyerLanguage, headings)) {
+      setHeadings(getDefaultHeadings(code));
+    }
+    setFlyerLanguage(code);
+  };
+
+  const perLanguage = languageOutput === 'each' && translations.length > 0;
+  const bilingualLanguage = translations.some(({ language }) => language === languageOutput) ? languageOutput : null;
+  const primaryDirection = getFlyerLanguage(flyerLanguage).direction;
+
+  const design = useMemo<FlyerDesign>(() => ({
+    value: qrValue,
+    qrColor,
+    bgColor,
+    style: qrStyle,
+    size,
+    level,
+    logo,
+    logoSettings,
+    pageColor,
+    fonts: flyerFonts,
+    language: flyerLanguage,
+    headings,
+    orgDescription,
+    urlPurpose,
+    translations,
+    textLanguages: bilingualLanguage ? [flyerLanguage, bilingualLanguage] : []
+  }), [qrValue, qrColor, bgColor, qrStyle, size, level, logo, logoSettings, pageColor, flyerFonts, flyerLanguage, headings, orgDescription, urlPurpose, translations, bilingualLanguage]);
+
+  // Contrast or brand palette problem that blocks every download of the
+  // design, single or in bulk
+  const getDesignError = () => {
+    const contrast = analyzeStyledContrast(getStyleColors(qrColor, qrStyle), bgColor);
+    if (contrast.status === 'fail') {
+      return t('generator.error.contrast', { message: t(contrast.messages[0].key, contrast.messages[0].params) });
+    }
+
+    const offPalette = enforcedPalette ? findOffPaletteColors(getDesignColors(design), enforcedPalette) : [];
+    if (offPalette.length) {
+      return t('generator.error.offPalette', { count: offPalette.length, colors: offPalette.join(', '), kit: activeKit?.name ?? '' });
+    }
+
+    return null;
+  };
+
+  // One static copy of the current design per utm_content value
+  const createUtmVariantItem = (utmContent: string, index: number): BatchItem | null => {
+    if (!user?.id || !isValidTargetUrl(url)) return null;
+
+    const value = applyUtmParams(url, { ...utmParams, utm_content: utmContent });
+    return {
+      line: index + 1,
+      filename: `qr-code-${sanitizeFilename(utmContent) || index + 1}`,
+      design: { ...design, value },
+      record: {
         user_id: user.id,
-        url,
+        organization_id: ownerOrgId,
+        name: utmContent,
+        url: value,
         org_description: orgDescription,
         url_purpose: urlPurpose,
         qr_color: qrColor,
         bg_color: bgColor,
         size,
-        has_logo: !!logo
-      });
-  
-      // First save the QR code
-      const savedQR = await saveQRCode({
-        user_id: user.id,
-        url,
+        has_logo: !!logo,
+        logo_key: logo ? logoKey : null,
+        error_correction: level,
+        logo_settings: logo ? logoSettings : null,
+        qr_style: qrStyle,
+        flyer_fonts: flyerFonts,
+        language: flyerLanguage,
+        flyer_headings: headings,
+        translations,
+        dynamic_link_id: null,
+        payload_type: 'url',
+        payload_data: null,
+        ...toUtmColumns(value)
+      }
+    };
+  };
+
+  // Saves the design, then downloads whatever `createBlob` renders from it
+  const downloadDesign = async (filename: string, createBlob: () => Promise<Blob>) => {
+    if (!user?.id) return;
+
+    const designError = getDesignError();
+    if (designError) {
+      setError(designError);
+      return;
+    }
+
+    if (structuredType && Object.keys(payloadErrors).length) {
+      setShowPayloadErrors(true);
+      setError(t('generator.error.payload'));
+      return;
+    }
+
+    if (!structuredType && isDynamic && !isValidTargetUrl(targetUrl)) {
+      setError(t('generator.error.dynamicUrl'));
+      return;
+    }
+
+    try {
+      const report = await verifyDesignScannability(design);
+      if (report.status === 'fail' && !window.confirm(t('generator.confirmUnscannable', { messages: report.messages.map(({ key, params }) => t(key, params)).join(' ') }))) {
+        return;
+      }
+
+      const link = await ensureDynamicLink(user.id);
+      const storedLogoKey = logo ? logoKey ?? await uploadLogo(logo, ownerOrgId) : null;
+      if (storedLogoKey !== logoKey) setLogoKey(storedLogoKey);
+
+      const changes = {
+        organization_id: ownerOrgId,
+        name: codeName,
+        url: structuredType ? qrValue : targetUrl,
         org_description: orgDescription,
         url_purpose: urlPurpose,
         qr_color: qrColor,
         bg_color: bgColor,
         size,
-        has_logo: !!logo
-      });
+        has_logo: !!logo,
+        logo_key: storedLogoKey,
+        error_correction: level,
+        logo_settings: logo ? logoSettings : null,
+        qr_style: qrStyle,
+        flyer_fonts: flyerFonts,
+        language: flyerLanguage,
+        flyer_headings: headings,
+        translations,
+        dynamic_link_id: link?.id ?? null,
+        payload_type: payloadType,
+        payload_data: structuredFields,
+        ...toUtmColumns(structuredType ? '' : targetUrl)
+      };
+
+      // Reopened codes are updated in place; viewers and codes from another
+      // workspace get a new copy instead
+      const savedQR = loadedCode && loadedCode.organizationId === ownerOrgId
+        ? await updateQRCode(loadedCode.id, changes, enforcedPalette)
+        : await saveQRCode({ user_id: user.id, ...changes }, enforcedPalette);
   
       console.log('QR code saved successfully:', savedQR);
+      if (savedQR.id && loadedCode) setLoadedCode({ id: savedQR.id, organizationId: ownerOrgId });
+      setLibraryVersion((version) => version + 1);
 
-      if (format === 'pdf') {
-        const dataUrl = await toPng(downloadRef.current, { quality: 1.0 });
-        const pdf = new jsPDF({
-          orientation: 'portrait',
-          unit: 'in',
-          format: 'letter' // 8.5 x 11 inches
-        });
-        
-        const imgProps = pdf.getImageProperties(dataUrl);
-        const pageWidth = 8.5;
-        const pageHeight = 11;
-        const margin = 0.5; // 0.5 inch margins
-        const maxWidth = pageWidth - (2 * margin);
-        const maxHeight = pageHeight - (2 * margin);
-        
-        // Calculate dimensions maintaining aspect ratio
-        const aspectRatio = imgProps.width / imgProps.height;
-        let width = maxWidth;
-        let height = width / aspectRatio;
-        
-        if (height > maxHeight) {
-          height = maxHeight;
-          width = height * aspectRatio;
-        }
-        
-        // Center the image on the page
-        const x = (pageWidth - width) / 2;
-        const y = (pageHeight - height) / 2;
-        
-        pdf.addImage(dataUrl, 'PNG', x, y, width, height);
-        pdf.save('qr-code.pdf');
-      } else {
-        const options = {
-          quality: 1.0,
-          backgroundColor: '#ffffff',
-          style: {
-            transform: 'none',
-            background: '#ffffff'
-          }
-        };
-
-        const convertFn = format === 'png' ? toPng : toJpeg;
-        const dataUrl = await convertFn(downloadRef.current, options);
-        
-        const link = document.createElement('a');
-        link.download = `qr-code.${format}`;
-        link.href = dataUrl;
-        link.click();
-      }
+      const blob = await createBlob();
+      downloadBlob(blob, filename);
     } catch (error) {
       console.error('Error downloading image:', error);
-      setError('Error downloading image. Please try again.');
+      setError(t('generator.error.download'));
     }
   };
 
+  const downloadImage = (format: DownloadFormat) =>
+    perLanguage
+      ? downloadDesign('qr-code-languages.zip', () =>
+          exportPerLanguage(design, 'qr-code', format, (languageDesign) => exportFlyer(languageDesign, format, exportSettings)))
+      : downloadDesign(`qr-code.${format}`, () => exportFlyer(design, format, exportSettings));
+
+  const downloadPrintTemplate = (templateId: string, copies: number) =>
+    perLanguage
+      ? downloadDesign(`qr-code-${templateId}-languages.zip`, () =>
+          exportPerLanguage(design, `qr-code-${templateId}`, 'pdf', (languageDesign) => exportPrintTemplate(languageDesign, templateId, copies)))
+      : downloadDesign(`qr-code-${templateId}.pdf`, () => exportPrintTemplate(design, templateId, copies));
+
   const startEditingDescription = () => {
     setTempDescription(orgDescription);
     setEditingDescription(true);
@@ -197,50 +562,18 @@ const QRCodeGenerator = () => {
 
 
 
-  // Downloadable content without edit buttons
-  const DownloadableContent = () => (
-    <div className="bg-white p-8 flex flex-col items-center justify-center space-y-8">
-      {logo && (
-        <div className="mb-8">
-          <img src={logo} alt="Organization logo" className="max-w-[200px] h-auto" />
-        </div>
-      )}
-      <div className="p-8 rounded-lg" style={{ backgroundColor: bgColor }}>
-        <QRCodeCanvas
-          value={url || 'https://example.org'}
-          size={size * 2} // Double the size for better quality
-          fgColor={qrColor}
-          bgColor={bgColor}
-          level="H"
-          includeMargin={true}
-        />
-      </div>
-      
-      {orgDescription && (
-        <div className="text-center max-w-3xl">
-          <h3 className="text-3xl font-bold text-gray-900 mb-4">About the Organization</h3>
-          <p className="text-xl text-gray-700 leading-relaxed">{orgDescription}</p>
-        </div>
-      )}
-
-      {urlPurpose && (
-        <div className="text-center max-w-3xl mt-8">
-          <h3 className="text-3xl font-bold text-gray-900 mb-4">Purpose</h3>
-          <p className="text-xl text-gray-700 leading-relaxed">{urlPurpose}</p>
-        </div>
-      )}
-    </div>
-  );
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50 p-6">
       <div className="max-w-4xl mx-auto">
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
         <div className="text-center mb-12">
           <h1 className="text-4xl font-bold text-indigo-900 mb-4">
-            Non-Profit QR Code Generator
+            {t('generator.title')}
           </h1>
           <p className="text-gray-600">
-            Create beautiful QR codes for your non-profit organization
+            {t('generator.subtitle')}
           </p>
         </div>
 
@@ -255,98 +588,235 @@ const QRCodeGenerator = () => {
           <div className="bg-white rounded-xl shadow-lg p-6 space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                URL
+                {t('generator.workspace')}
               </label>
-              <div className="relative">
-                <Link className="absolute left-3 top-3 text-gray-400" size={20} />
-                <input
-                  type="url"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  placeholder="https://your-nonprofit.org"
-                  className="pl-10 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                />
-              </div>
+              <WorkspacePanel user={user} workspace={workspace} onChange={handleWorkspaceChange} />
             </div>
 
-            <LogoUpload onLogoChange={setLogo} />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('generator.brandKit')}
+              </label>
+              <BrandKitPanel
+                user={user}
+                organizationId={workspaceId}
+                canEdit={canEditWorkspace}
+                activeKit={activeKit}
+                design={{ qrColor, bgColor, logo, orgDescription, fonts: flyerFonts }}
+                onSelect={applyBrandKit}
+                onUseLogo={loadStoredLogo}
+              />
+            </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Organization Description
+                {t('generator.contentType')}
               </label>
-              <div className="relative">
-                <Heart className="absolute left-3 top-3 text-gray-400" size={20} />
-                <textarea
-                  value={orgDescription}
-                  onChange={(e) => setOrgDescription(e.target.value)}
-                  placeholder="Tell us about your organization..."
-                  className="pl-10 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  rows={3}
+              <select
+                value={payloadType}
+                onChange={(e) => {
+                  setPayloadType(e.target.value as PayloadType);
+                  setShowPayloadErrors(false);
+                }}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {PAYLOAD_TYPES.map(({ value, label }) => (
+                  <option key={value} value={value}>{t(label)}</option>
+                ))}
+              </select>
+            </div>
+
+            {structuredType && structuredFields ? (
+              <PayloadForm
+                type={structuredType}
+                fields={structuredFields}
+                errors={visiblePayloadErrors}
+                onChange={handlePayloadFieldsChange}
+              />
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('generator.url')}
+                  </label>
+                  <div className="relative">
+                    <Link className="absolute left-3 top-3 text-gray-400" size={20} />
+                    <input
+                      type="url"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      placeholder={t('generator.urlPlaceholder')}
+                      className="pl-10 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                <DynamicLinkPanel
+                  enabled={isDynamic}
+                  onEnabledChange={handleDynamicToggle}
+                  shortUrl={shortUrl}
+                  link={dynamicLink}
+                  targetUrl={targetUrl}
+                  onLinkUpdated={setDynamicLink}
+                />
+
+                <UtmBuilder
+                  user={user}
+                  params={utmParams}
+                  onChange={setUtmParams}
+                  finalUrl={url ? targetUrl : ''}
+                  createVariantItem={createUtmVariantItem}
+                  getDesignError={getDesignError}
+                  exportSettings={exportSettings}
+                  palette={enforcedPalette}
                 />
-                <button
-                  onClick={() => generateAIText('description')}
-                  className={`absolute right-3 top-3 text-indigo-600 hover:text-indigo-800 transition-colors ${isGenerating ? 'animate-spin' : ''}`}
-                  disabled={isGenerating}
-                  title="Generate AI description"
+              </>
+            )}
+
+            <LogoUpload logo={logo} signedIn={!!user} organizationId={workspaceId} onLogoChange={handleLogoChange} />
+
+            {logo && (
+              <LogoSettingsPanel settings={logoSettings} level={level} palette={enforcedPalette} onChange={setLogoSettings} />
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('generator.writingStyle')}
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  aria-label={t('generator.tone')}
+                  value={copyOptions.tone}
+                  onChange={(e) => handleCopyOptionChange('tone', e.target.value as TextTone)}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  {TEXT_TONES.map(({ value, label }) => (
+                    <option key={value} value={value}>{t(label)}</option>
+                  ))}
+                </select>
+                <select
+                  aria-label={t('generator.audience')}
+                  value={copyOptions.audience}
+                  onChange={(e) => handleCopyOptionChange('audience', e.target.value as TextAudience)}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  {TEXT_AUDIENCES.map(({ value, label }) => (
+                    <option key={value} value={value}>{t(label)}</option>
+                  ))}
+                </select>
+                <select
+                  aria-label={t('generator.length')}
+                  value={copyOptions.length}
+                  onChange={(e) => handleCopyOptionChange('length', e.target.value as TextLength)}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                 >
-                  <Wand2 size={20} />
-                </button>
+                  {TEXT_LENGTHS.map(({ value, label }) => (
+                    <option key={value} value={value}>{t(label)}</option>
+                  ))}
+                </select>
               </div>
             </div>
 
+            <AITextField
+              label={t('generator.description')}
+              icon={Heart}
+              kind="description"
+              value={orgDescription}
+              onChange={setOrgDescription}
+              placeholder={t('generator.descriptionPlaceholder')}
+              options={copyOptions}
+              organizationId={workspaceId}
+              signedIn={!!user}
+              onError={setError}
+            />
+
+            <AITextField
+              label={t('generator.purpose')}
+              icon={Info}
+              kind="purpose"
+              value={urlPurpose}
+              onChange={setUrlPurpose}
+              placeholder={t('generator.purposePlaceholder')}
+              options={copyOptions}
+              url={url}
+              organizationId={workspaceId}
+              signedIn={!!user}
+              onError={setError}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                URL Purpose
+                {t('generator.flyerLanguages')}
               </label>
-              <div className="relative">
-                <Info className="absolute left-3 top-3 text-gray-400" size={20} />
-                <textarea
-                  value={urlPurpose}
-                  onChange={(e) => setUrlPurpose(e.target.value)}
-                  placeholder="What's the purpose of this URL? (e.g., Fundraising campaign, Newsletter signup)"
-                  className="pl-10 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  rows={3}
-                />
-                <button
-                  onClick={() => generateAIText('purpose')}
-                  className={`absolute right-3 top-3 text-indigo-600 hover:text-indigo-800 transition-colors ${isGenerating ? 'animate-spin' : ''}`}
-                  disabled={isGenerating}
-                  title="Generate AI purpose text"
-                >
-                  <Wand2 size={20} />
-                </button>
-              </div>
+              <FlyerLanguagesPanel
+                language={flyerLanguage}
+                headings={headings}
+                orgDescription={orgDescription}
+                urlPurpose={urlPurpose}
+                translations={translations}
+                onLanguageChange={handleFlyerLanguageChange}
+                onHeadingsChange={setHeadings}
+                onTranslationsChange={setTranslations}
+                organizationId={workspaceId}
+                signedIn={!!user}
+                onError={setError}
+              />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  QR Code Color
+                  {t('generator.qrColor')}
                 </label>
-                <input
-                  type="color"
-                  value={qrColor}
-                  onChange={(e) => setQrColor(e.target.value)}
-                  className="w-full h-10 rounded-lg cursor-pointer"
-                />
+                <ColorInput value={qrColor} onChange={setQrColor} palette={enforcedPalette} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('generator.bgColor')}
+                </label>
+                <ColorInput value={bgColor} onChange={setBgColor} palette={enforcedPalette} />
               </div>
+            </div>
+
+            {/* An enforced brand palette already decides the colors */}
+            {logo && !enforcedPalette && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Background Color
+                  {t('logoPalette.title')}
                 </label>
-                <input
-                  type="color"
-                  value={bgColor}
-                  onChange={(e) => setBgColor(e.target.value)}
-                  className="w-full h-10 rounded-lg cursor-pointer"
+                <LogoPalettePanel
+                  logo={logo}
+                  qrColor={qrColor}
+                  bgColor={bgColor}
+                  onApply={(suggestedQrColor, suggestedBgColor) => {
+                    setQrColor(suggestedQrColor);
+                    setBgColor(suggestedBgColor);
+                  }}
                 />
               </div>
+            )}
+
+            <ContrastWarning
+              qrColor={qrColor}
+              bgColor={bgColor}
+              palette={kitPalette}
+              paletteOnly={!!enforcedPalette}
+              onApply={(suggestedQrColor, suggestedBgColor) => {
+                setQrColor(suggestedQrColor);
+                setBgColor(suggestedBgColor);
+              }}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('generator.qrStyle')}
+              </label>
+              <QRStylePanel style={qrStyle} qrColor={qrColor} bgColor={bgColor} palette={enforcedPalette} onChange={setQrStyle} />
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Size: {size}px
+                {t('generator.size', { size })}
               </label>
               <input
                 type="range"
@@ -357,33 +827,42 @@ const QRCodeGenerator = () => {
                 className="w-full"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('generator.errorCorrection')}
+              </label>
+              <select
+                value={level}
+                onChange={(e) => setLevel(e.target.value as ErrorCorrectionLevel)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {ERROR_CORRECTION_LEVELS.map(({ value }) => (
+                  <option key={value} value={value}>{t(`errorCorrection.${value}`)}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="space-y-6">
             <div ref={qrRef} className="bg-white rounded-xl shadow-lg p-6 space-y-6">
               {/* Preview with edit buttons */}
               <div className="flex flex-col items-center justify-center">
-                {logo && (
+                {logo && logoSettings.placement === 'above' && (
                   <div className="mb-8">
-                    <img src={logo} alt="Organization logo" className="max-w-[200px] h-auto" />
+                    <img src={logo} alt={t('generator.logoAlt')} className="max-w-[200px] h-auto" />
                   </div>
                 )}
-                <div className="p-4 rounded-lg" style={{ backgroundColor: bgColor }}>
-                  <QRCodeCanvas
-                    value={url || 'https://example.org'}
-                    size={size}
-                    fgColor={qrColor}
-                    bgColor={bgColor}
-                    level="H"
-                    includeMargin={true}
-                  />
+                <QRCodePreview design={design} />
+                <div className="mt-4 w-full">
+                  <ScanStatusBadge design={design} />
                 </div>
               </div>
 
               {(orgDescription || editingDescription) && (
                 <div className="border-t pt-4">
                   <div className="flex justify-between items-start mb-2">
-                    <h3 className="text-lg font-medium text-gray-900">About the Organization</h3>
+                    <h3 className="text-lg font-medium text-gray-900" style={{ fontFamily: getFontFamily(flyerFonts.heading) }} dir={primaryDirection}>{headings.about}</h3>
                     {!editingDescription ? (
                       <button
                         onClick={startEditingDescription}
@@ -401,7 +880,7 @@ const QRCodeGenerator = () => {
                     )}
                   </div>
                   {!editingDescription ? (
-                    <p className="text-gray-600">{orgDescription}</p>
+                    <p className="text-gray-600" style={{ fontFamily: getFontFamily(flyerFonts.body) }} dir={primaryDirection}>{orgDescription}</p>
                   ) : (
                     <textarea
                       value={tempDescription}
@@ -416,7 +895,7 @@ const QRCodeGenerator = () => {
               {(urlPurpose || editingPurpose) && (
                 <div className="border-t pt-4">
                   <div className="flex justify-between items-start mb-2">
-                    <h3 className="text-lg font-medium text-gray-900">Purpose</h3>
+                    <h3 className="text-lg font-medium text-gray-900" style={{ fontFamily: getFontFamily(flyerFonts.heading) }} dir={primaryDirection}>{headings.purpose}</h3>
                     {!editingPurpose ? (
                       <button
                         onClick={startEditingPurpose}
@@ -434,7 +913,7 @@ const QRCodeGenerator = () => {
                     )}
                   </div>
                   {!editingPurpose ? (
-                    <p className="text-gray-600">{urlPurpose}</p>
+                    <p className="text-gray-600" style={{ fontFamily: getFontFamily(flyerFonts.body) }} dir={primaryDirection}>{urlPurpose}</p>
                   ) : (
                     <textarea
                       value={tempPurpose}
@@ -449,13 +928,60 @@ const QRCodeGenerator = () => {
 
             <div className="bg-white rounded-xl shadow-lg p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">
-                Download Options
+                {t('generator.downloadOptions')}
               </h3>
+              {loadedCode && (
+                <div className="mb-6 p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-800 flex items-center justify-between gap-3">
+                  <span>{t('generator.updatesSaved')}</span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setLoadedCode(null);
+                      setCodeName(null);
+                    }}
+                    className="flex-shrink-0 text-indigo-600 hover:text-indigo-800 font-medium"
+                  >
+                    {t('generator.saveAsNew')}
+                  </button>
+                </div>
+              )}
+              <div className="mb-6">
+                <ExportSettingsPanel
+                  settings={exportSettings}
+                  pageColor={pageColor}
+                  palette={enforcedPalette}
+                  onChange={setExportSettings}
+                  onPageColorChange={setPageColor}
+                />
+              </div>
+              {translations.length > 0 && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('generator.languages')}
+                  </label>
+                  <select
+                    value={perLanguage ? 'each' : bilingualLanguage ?? 'primary'}
+                    onChange={(e) => setLanguageOutput(e.target.value)}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="primary">{t('generator.primaryOnly', { language: getFlyerLanguage(flyerLanguage).nativeName })}</option>
+                    <option value="each">{t('generator.eachLanguage')}</option>
+                    {translations.map(({ language }) => (
+                      <option key={language} value={language}>
+                        {t('generator.bilingual', {
+                          primary: getFlyerLanguage(flyerLanguage).nativeName,
+                          language: getFlyerLanguage(language).nativeName
+                        })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="grid grid-cols-3 gap-4">
-                {['png', 'jpg', 'pdf'].map((format) => (
+                {DOWNLOAD_FORMATS.map((format) => (
                   <button
                     key={format}
-                    onClick={() => downloadImage(format as 'png' | 'jpg' | 'pdf')}
+                    onClick={() => downloadImage(format)}
                     disabled={!user}
                     className={`flex items-center justify-center gap-2 p-2 rounded-lg transition-colors
                       ${user 
@@ -469,29 +995,68 @@ const QRCodeGenerator = () => {
               </div>
               {!user && (
                 <p className="text-sm text-gray-500 mt-2 text-center">
-                  Please provide your information below to enable downloads
+                  {t('generator.signInToDownload')}
                 </p>
               )}
             </div>
 
-            {!user && (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                {t('generator.printLayouts')}
+              </h3>
+              <PrintTemplatePicker disabled={!user} onDownload={downloadPrintTemplate} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                {t('generator.batchGeneration')}
+              </h3>
+              <BatchGenerator user={user} organizationId={ownerOrgId} baseDesign={design} logoKey={logoKey} palette={enforcedPalette} exportSettings={exportSettings} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                {workspace ? t('generator.workspaceCodes', { workspace: workspace.organization.name }) : t('generator.myCodes')}
+              </h3>
+              <QRCodeLibrary
+                user={user}
+                organizationId={workspaceId}
+                canEdit={canEditWorkspace}
+                version={libraryVersion}
+                onLoad={loadSavedCode}
+              />
+            </div>
+
+            {user ? (
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">
+                  {t('generator.account')}
+                </h3>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{user.name}</p>
+                    <p className="text-sm text-gray-500 truncate">{user.email}</p>
+                  </div>
+                  <button
+                    onClick={handleSignOut}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    <LogOut size={16} />
+                    {t('generator.signOut')}
+                  </button>
+                </div>
+              </div>
+            ) : (
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">
-                  Enable Downloads
+                  {t('generator.signInTitle')}
                 </h3>
-                <UserForm onSubmit={handleUserSubmit} isSubmitting={isSubmitting} />
+                <UserForm />
               </div>
             )}
           </div>
         </div>
       </div>
-
-      {/* Hidden downloadable content */}
-      <div className="fixed left-[-9999px] top-[-9999px]" aria-hidden="true">
-        <div ref={downloadRef}>
-          <DownloadableContent />
-        </div>
-      </div>
     </div>
   );
 };
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, Upload, Copy, Edit2, Check, Trash2, AlertCircle } from 'lucide-react';
+import QRCodePreview from './QRCodePreview';
+import { QRCode, User, QR_CODE_PAGE_SIZE, getQRCodes, updateQRCode, deleteQRCode, duplicateQRCode } from '../lib/supabase';
+import { PayloadType, PAYLOAD_TYPES } from '../lib/payloads';
+import { getPayloadTypeLabel, getQRCodeTitle, recordToDesign } from '../lib/qrLibrary';
+import { MessageKey, useI18n } from '../lib/i18n';
+
+interface QRCodeLibraryProps {
+  user: User | null;
+  organizationId: string | null;  // Workspace whose codes are listed
+  canEdit: boolean;               // Viewers can load codes but not change them
+  version: number;  // Bumped by the generator after it saves a code
+  onLoad: (code: QRCode) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const QRCodeThumbnail: React.FC<{ code: QRCode }> = ({ code }) => {
+  const design = useMemo(() => recordToDesign(code), [code]);
+  return <QRCodePreview design={design} />;
+};
+
+const QRCodeLibrary: React.FC<QRCodeLibraryProps> = ({ user, organizationId, canEdit, version, onLoad }) => {
+  const { t, formatDate } = useI18n();
+  const [codes, setCodes] = useState<QRCode[]>([]);
+  const [search, setSearch] = useState('');
+  const [payloadType, setPayloadType] = useState<PayloadType | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);  // The last page was full, so there may be more
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setCodes([]);
+      setHasMore(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const results = await getQRCodes({ userId, organizationId }, { search, payloadType: payloadType || undefined });
+        if (!cancelled) {
+          setCodes(results);
+          setHasMore(results.length === QR_CODE_PAGE_SIZE);
+          setError(null);
+        }
+      } catch {
+        if (!cancelled) setError('library.error.load');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [userId, organizationId, search, payloadType, version]);
+
+  const loadMore = async () => {
+    if (!userId || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const results = await getQRCodes({ userId, organizationId }, { search, payloadType: payloadType || undefined }, codes.length);
+      // Codes saved since the first page shift later pages; skip any already listed
+      setCodes((prev) => [...prev, ...results.filter((code) => !prev.some(({ id }) => id === code.id))]);
+      setHasMore(results.length === QR_CODE_PAGE_SIZE);
+      setError(null);
+    } catch {
+      setError('library.error.load');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const replaceCode = (updated: QRCode) => {
+    setCodes((prev) => prev.map((code) => (code.id === updated.id ? updated : code)));
+  };
+
+  const startRename = (code: QRCode) => {
+    setRenamingId(code.id ?? null);
+    setRenameValue(getQRCodeTitle(code, t));
+  };
+
+  const handleRename = async (code: QRCode) => {
+    if (!code.id) return;
+
+    setError(null);
+    try {
+      replaceCode(await updateQRCode(code.id, { name: renameValue.trim() || null }));
+      setRenamingId(null);
+    } catch {
+      setError('library.error.rename');
+    }
+  };
+
+  const handleDuplicate = async (code: QRCode) => {
+    if (!userId) return;
+
+    setError(null);
+    try {
+      const copy = await duplicateQRCode(code, t('library.copyName', { name: getQRCodeTitle(code, t) }), userId);
+      setCodes((prev) => [copy, ...prev]);
+    } catch {
+      setError('library.error.duplicate');
+    }
+  };
+
+  const handleDelete = async (code: QRCode) => {
+    if (!code.id || !window.confirm(t('library.confirmDelete', { name: getQRCodeTitle(code, t) }))) return;
+
+    setError(null);
+    try {
+      await deleteQRCode(code.id);
+      setCodes((prev) => prev.filter(({ id }) => id !== code.id));
+    } catch {
+      setError('library.error.delete');
+    }
+  };
+
+  if (!user) {
+    return (
+      <p className="text-sm text-gray-500">
+        {t('library.signIn')}
+      </p>
+    );
+  }
+
+  const actionClassName = 'p-2 text-gray-500 hover:text-indigo-600 rounded-lg hover:bg-gray-100';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="col-span-2 relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('library.search')}
+            className="w-full pl-9 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+        <select
+          value={payloadType}
+          onChange={(e) => setPayloadType(e.target.value as PayloadType | '')}
+          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">{t('library.allTypes')}</option>
+          {PAYLOAD_TYPES.map(({ value, label }) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-center gap-2">
+          <AlertCircle size={16} />
+          {t(error)}
+        </div>
+      )}
+
+      {!isLoading && !codes.length && (
+        <p className="text-sm text-gray-500 text-center">
+          {search || payloadType ? t('library.noMatches') : t('library.empty')}
+        </p>
+      )}
+
+      <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+        {codes.map((code) => (
+          <li key={code.id} className="flex items-center gap-3 py-3">
+            <div className="flex-shrink-0 w-24">
+              <QRCodeThumbnail code={code} />
+            </div>
+
+            <div className="flex-1 min-w-0">
+              {renamingId === code.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename(code)}
+                    className="flex-1 min-w-0 p-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    autoFocus
+                  />
+                  <button onClick={() => handleRename(code)} className={actionClassName} title={t('library.saveName')}>
+                    <Check size={16} />
+                  </button>
+                </div>
+              ) : (
+                <p className="font-medium text-gray-900 truncate">{getQRCodeTitle(code, t)}</p>
+              )}
+              <p className="text-xs text-gray-500 truncate">
+                {getPayloadTypeLabel(code, t)}
+                {code.created_at && ` · ${formatDate(code.created_at)}`}
+                {code.url_purpose && ` · ${code.url_purpose}`}
+              </p>
+            </div>
+
+            <div className="flex flex-shrink-0">
+              <button onClick={() => onLoad(code)} className={actionClassName} title={t('library.load')}>
+                <Upload size={16} />
+              </button>
+              {canEdit && (
+                <>
+                  <button onClick={() => handleDuplicate(code)} className={actionClassName} title={t('library.duplicate')}>
+                    <Copy size={16} />
+                  </button>
+                  <button onClick={() => startRename(code)} className={actionClassName} title={t('library.rename')}>
+                    <Edit2 size={16} />
+                  </button>
+                  <button onClick={() => handleDelete(code)} className={`${actionClassName} hover:text-red-600`} title={t('library.delete')}>
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {hasMore && (
+        <button
+          type="button"
+          onClick={loadMore}
+          disabled={isLoading}
+          className="w-full p-2 text-sm text-indigo-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isLoading ? t('library.loading') : t('library.loadMore')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default QRCodeLibrary;
@@ -0,0 +1,40 @@
+import React, { useEffect, useRef } from 'react';
+import { FlyerDesign, buildQRCodeLayout } from '../lib/flyerExport';
+import { drawFlyer } from '../lib/rasterExport';
+
+interface QRCodePreviewProps {
+  design: FlyerDesign;
+}
+
+// Renders the QR card through the same layout as the exports, so the preview
+// shows exactly what will be downloaded (including an embedded logo)
+const QRCodePreview: React.FC<QRCodePreviewProps> = ({ design }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        const layout = await buildQRCodeLayout(design);
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        await drawFlyer(canvas, layout, window.devicePixelRatio || 1);
+        canvas.style.width = `${layout.width}px`;
+        canvas.style.height = `${layout.height}px`;
+      } catch (err) {
+        console.error('Error rendering QR preview:', err);
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [design]);
+
+  return <canvas ref={canvasRef} className="rounded-lg max-w-full" />;
+};
+
+export default QRCodePreview;
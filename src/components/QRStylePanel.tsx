@@ -0,0 +1,166 @@
+import React from 'react';
+import { XCircle } from 'lucide-react';
+import { QRStyle, QRGradient, GradientType, ModuleShape, EyeShape, MODULE_SHAPES, EYE_SHAPES } from '../lib/qrStyle';
+import { analyzeQRContrast } from '../lib/contrast';
+import ColorInput from './ColorInput';
+import { MessageKey, useI18n } from '../lib/i18n';
+
+interface QRStylePanelProps {
+  style: QRStyle;
+  qrColor: string;
+  bgColor: string;
+  palette?: string[] | null;  // Enforced brand palette
+  onChange: (style: QRStyle) => void;
+}
+
+const selectClassName = 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const QRStylePanel: React.FC<QRStylePanelProps> = ({ style, qrColor, bgColor, palette, onChange }) => {
+  const { t } = useI18n();
+  const update = <K extends keyof QRStyle>(key: K, value: QRStyle[K]) => {
+    onChange({ ...style, [key]: value });
+  };
+
+  const updateGradient = <K extends keyof QRGradient>(key: K, value: QRGradient[K]) => {
+    onChange({ ...style, gradient: { ...style.gradient, [key]: value } });
+  };
+
+  // The main color is covered by ContrastWarning; flag the extra style colors here
+  const styleColors: Array<{ label: MessageKey; color: string } | null> = [
+    style.gradient.type !== 'none' ? { label: 'qrStyle.lowContrast.gradient', color: style.gradient.color } : null,
+    style.eyeFrameColor ? { label: 'qrStyle.lowContrast.eyeFrame', color: style.eyeFrameColor } : null,
+    style.eyeBallColor ? { label: 'qrStyle.lowContrast.eyeBall', color: style.eyeBallColor } : null
+  ];
+  const lowContrastColors = styleColors.filter((entry): entry is { label: MessageKey; color: string } =>
+    !!entry && analyzeQRContrast(entry.color, bgColor).status === 'fail'
+  );
+
+  const eyeColorControl = (label: MessageKey, key: 'eyeFrameColor' | 'eyeBallColor') => (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+        <input
+          type="checkbox"
+          checked={style[key] !== null}
+          onChange={(e) => update(key, e.target.checked ? qrColor : null)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        {t(label)}
+      </label>
+      <ColorInput
+        value={style[key] ?? qrColor}
+        onChange={(color) => update(key, color)}
+        palette={palette}
+        disabled={style[key] === null}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-3 border border-gray-200 rounded-lg">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          {t('qrStyle.moduleShape')}
+        </label>
+        <select
+          value={style.moduleShape}
+          onChange={(e) => update('moduleShape', e.target.value as ModuleShape)}
+          className={selectClassName}
+        >
+          {MODULE_SHAPES.map(({ value, label }) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('qrStyle.eyeFrame')}
+          </label>
+          <select
+            value={style.eyeFrameShape}
+            onChange={(e) => update('eyeFrameShape', e.target.value as EyeShape)}
+            className={selectClassName}
+          >
+            {EYE_SHAPES.map(({ value, label }) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('qrStyle.eyeBall')}
+          </label>
+          <select
+            value={style.eyeBallShape}
+            onChange={(e) => update('eyeBallShape', e.target.value as EyeShape)}
+            className={selectClassName}
+          >
+            {EYE_SHAPES.map(({ value, label }) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {eyeColorControl('qrStyle.eyeFrameColor', 'eyeFrameColor')}
+        {eyeColorControl('qrStyle.eyeBallColor', 'eyeBallColor')}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('qrStyle.gradient')}
+          </label>
+          <select
+            value={style.gradient.type}
+            onChange={(e) => updateGradient('type', e.target.value as GradientType)}
+            className={selectClassName}
+          >
+            <option value="none">{t('qrStyle.gradient.none')}</option>
+            <option value="linear">{t('qrStyle.gradient.linear')}</option>
+            <option value="radial">{t('qrStyle.gradient.radial')}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('qrStyle.endColor')}
+          </label>
+          <ColorInput
+            value={style.gradient.color}
+            onChange={(color) => updateGradient('color', color)}
+            palette={palette}
+            disabled={style.gradient.type === 'none'}
+          />
+        </div>
+      </div>
+
+      {style.gradient.type === 'linear' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('qrStyle.angle', { angle: style.gradient.angle })}
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={345}
+            step={15}
+            value={style.gradient.angle}
+            onChange={(e) => updateGradient('angle', Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {lowContrastColors.map(({ label, color }) => (
+        <p key={label} className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <XCircle className="flex-shrink-0 mt-0.5" size={16} />
+          {t(label, { color })}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default QRStylePanel;
@@ -0,0 +1,26 @@
+import React, { useEffect } from 'react';
+import { getRedirectFunctionUrl } from '../lib/supabase';
+import { useI18n } from '../lib/i18n';
+
+interface RedirectHandlerProps {
+  slug: string;
+}
+
+// Local development stand-in for a redirect base URL that points at the
+// `redirect` Edge Function: forwards /r/:slug to the function, which resolves
+// the slug, records the scan and sends the visitor on to the current target.
+const RedirectHandler: React.FC<RedirectHandlerProps> = ({ slug }) => {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    window.location.replace(getRedirectFunctionUrl(slug));
+  }, [slug]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50 flex items-center justify-center p-6">
+      <p className="text-gray-600">{t('redirect.redirecting')}</p>
+    </div>
+  );
+};
+
+export default RedirectHandler;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, Loader2 } from 'lucide-react';
+import { FlyerDesign, verifyDesignScannability } from '../lib/flyerExport';
+import { ScanReport } from '../lib/scanVerification';
+import { useI18n } from '../lib/i18n';
+
+interface ScanStatusBadgeProps {
+  design: FlyerDesign;
+}
+
+// Decoding takes a few hundred milliseconds, so wait for edits to settle
+const CHECK_DELAY_MS = 600;
+
+const STATUS_STYLES = {
+  pass: { label: 'scan.pass', className: 'bg-green-50 text-green-700 border-green-200', Icon: CheckCircle },
+  warn: { label: 'scan.warn', className: 'bg-amber-50 text-amber-700 border-amber-200', Icon: AlertTriangle },
+  fail: { label: 'scan.fail', className: 'bg-red-50 text-red-700 border-red-200', Icon: XCircle }
+} as const;
+
+const ScanStatusBadge: React.FC<ScanStatusBadgeProps> = ({ design }) => {
+  const { t } = useI18n();
+  const [report, setReport] = useState<ScanReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsChecking(true);
+    setFailed(false);
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await verifyDesignScannability(design);
+        if (!cancelled) setReport(result);
+      } catch (err) {
+        console.error('Scannability check failed:', err);
+        if (!cancelled) {
+          setReport(null);
+          setFailed(true);
+        }
+      } finally {
+        if (!cancelled) setIsChecking(false);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [design]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <AlertTriangle size={16} />
+        {t('scan.error')}
+      </div>
+    );
+  }
+
+  if (isChecking || !report) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="animate-spin" size={16} />
+        {t('scan.checking')}
+      </div>
+    );
+  }
+
+  const { label, className, Icon } = STATUS_STYLES[report.status];
+
+  return (
+    <div className={`w-full border rounded-lg p-2 text-sm ${className}`}>
+      <div className="flex items-center gap-2 font-medium">
+        <Icon size={16} />
+        {t(label)}
+      </div>
+      {report.messages.length > 0 && (
+        <ul className="mt-1 ml-6 list-disc text-xs space-y-0.5">
+          {report.messages.map(({ key, params }) => (
+            <li key={`${key}-${params?.percent ?? ''}`}>{t(key, params)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScanStatusBadge;
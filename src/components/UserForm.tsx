@@ -1,101 +1,172 @@
 import React, { useState } from 'react';
-import { User } from '../lib/supabase';
+import { Mail } from 'lucide-react';
+import EinVerification from './EinVerification';
+import CharityIdInput from './CharityIdInput';
+import { sendSignInEmail, verifySignInCode, getAuthErrorMessage } from '../lib/supabase';
+import { DEFAULT_CHARITY_ID_COUNTRY, normalizeCharityId, validateCharityId } from '../lib/charityIds';
+import { MessageKey, useI18n } from '../lib/i18n';
 
-interface UserFormProps {
-  onSubmit: (userData: Omit<User, 'id' | 'created_at' | 'app_ids'>) => Promise<void>;
-  isSubmitting: boolean;
-}
-
-const UserForm: React.FC<UserFormProps> = ({ onSubmit, isSubmitting }) => {
+// Passwordless sign-in: the email carries both a magic link and a one-time
+// code. The session itself is picked up by the auth listener in the generator.
+const UserForm: React.FC = () => {
+  const { t, tNodes } = useI18n();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     organization: '',
-    ein: ''
+    charityIdCountry: DEFAULT_CHARITY_ID_COUNTRY,
+    charityId: ''  // Formatted for the country
   });
-  const [emailError, setEmailError] = useState('');
-  const [einError, setEinError] = useState('');
+  // Message keys, so the errors follow locale changes
+  const [emailError, setEmailError] = useState<MessageKey | null>(null);
+  const [charityIdError, setCharityIdError] = useState<MessageKey | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
 
   // RFC 5322 compliant email regex
   const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-  
-  // EIN format: XX-XXXXXXX
-  const einRegex = /^\d{2}-\d{7}$/;
 
   const validateEmail = (email: string): boolean => {
     if (!email) {
-      setEmailError('Email is required');
+      setEmailError('signIn.error.emailRequired');
       return false;
     }
     
     if (!emailRegex.test(email)) {
-      setEmailError('Please enter a valid email address');
+      setEmailError('signIn.error.emailInvalid');
       return false;
     }
   
-    setEmailError('');
+    setEmailError(null);
     return true;
   };
 
-  const validateEIN = (ein: string): boolean => {
-    if (!ein) {
-      setEinError('');
-      return true; // EIN is optional
-    }
-
-    if (!einRegex.test(ein)) {
-      setEinError('EIN must be in format: XX-XXXXXXX');
-      return false;
-    }
-
-    setEinError('');
-    return true;
+  // The charity ID is optional
+  const validateCharityIdField = (country: string, charityId: string): boolean => {
+    const message = validateCharityId(country, charityId);
+    setCharityIdError(message);
+    return !message;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!validateEmail(formData.email) || !validateEIN(formData.ein)) {
+    if (!validateEmail(formData.email) || !validateCharityIdField(formData.charityIdCountry, formData.charityId)) {
       return;
     }
 
-    const submitData = {
-      ...formData,
-      ein: formData.ein || undefined // Don't include empty EIN
-    };
-
-    await onSubmit(submitData);
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await sendSignInEmail(formData.email, {
+        name: formData.name,
+        organization: formData.organization,
+        charity_id_country: formData.charityIdCountry,
+        charity_id: normalizeCharityId(formData.charityId)
+      });
+      setCodeSent(true);
+    } catch (err) {
+      setError(t(getAuthErrorMessage(err, 'signIn.error.send')));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const formatEIN = (value: string) => {
-    // Remove all non-digits
-    const digits = value.replace(/\D/g, '');
-    
-    // Format as XX-XXXXXXX
-    if (digits.length <= 2) return digits;
-    return `${digits.slice(0, 2)}-${digits.slice(2, 9)}`;
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await verifySignInCode(formData.email, code.trim());
+    } catch (err) {
+      setError(t(getAuthErrorMessage(err, 'signIn.error.code')));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    
-    if (name === 'ein') {
-      const formattedEIN = formatEIN(value);
-      setFormData(prev => ({ ...prev, [name]: formattedEIN }));
-      validateEIN(formattedEIN);
-    } else {
-      setFormData(prev => ({ ...prev, [name]: value }));
-      if (name === 'email') {
-        validateEmail(value);
-      }
+
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (name === 'email') {
+      validateEmail(value);
     }
   };
 
+  const handleCharityIdChange = (charityIdCountry: string, charityId: string) => {
+    setFormData(prev => ({ ...prev, charityIdCountry, charityId }));
+    validateCharityIdField(charityIdCountry, charityId);
+  };
+
+  const errorMessage = error && (
+    <p className="text-sm text-red-600">{error}</p>
+  );
+
+  if (codeSent) {
+    return (
+      <form onSubmit={handleVerify} className="space-y-4">
+        <div className="flex items-start gap-2 text-sm text-gray-600">
+          <Mail size={16} className="mt-0.5 flex-shrink-0 text-indigo-600" />
+          <p>
+            {tNodes('signIn.codeSent', { email: <strong>{formData.email}</strong> })}
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+            {t('signIn.code')}
+          </label>
+          <input
+            type="text"
+            id="code"
+            name="code"
+            required
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={10}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm tracking-widest"
+            placeholder="123456"
+          />
+        </div>
+
+        {errorMessage}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !code}
+          className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white 
+            ${(isSubmitting || !code) ? 'bg-indigo-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'} 
+            focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500`}
+        >
+          {isSubmitting ? t('signIn.verifying') : t('signIn.verify')}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setCodeSent(false);
+            setCode('');
+            setError('');
+          }}
+          className="w-full text-sm text-indigo-600 hover:text-indigo-700"
+        >
+          {t('signIn.differentEmail')}
+        </button>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div>
         <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-          Name
+          {t('signIn.name')}
         </label>
         <input
           type="text"
@@ -107,13 +178,13 @@ const UserForm: React.FC<UserFormProps> = ({ onSubmit, isSubmitting }) => {
           value={formData.name}
           onChange={handleChange}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-          placeholder="Your name"
+          placeholder={t('signIn.namePlaceholder')}
         />
       </div>
 
       <div>
         <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-          Email
+          {t('signIn.email')}
         </label>
         <input
           type="email"
@@ -126,20 +197,20 @@ const UserForm: React.FC<UserFormProps> = ({ onSubmit, isSubmitting }) => {
             ${emailError 
               ? 'border-red-300 focus:border-red-500 focus:ring-red-500' 
               : 'border-gray-300 focus:border-indigo-500'}`}
-          placeholder="your@email.com"
+          placeholder={t('signIn.emailPlaceholder')}
           aria-invalid={!!emailError}
           aria-describedby={emailError ? "email-error" : undefined}
         />
         {emailError && (
           <p className="mt-1 text-sm text-red-600" id="email-error">
-            {emailError}
+            {t(emailError)}
           </p>
         )}
       </div>
 
       <div>
         <label htmlFor="organization" className="block text-sm font-medium text-gray-700">
-          Organization (optional)
+          {t('signIn.organization')}
         </label>
         <input
           type="text"
@@ -149,47 +220,47 @@ const UserForm: React.FC<UserFormProps> = ({ onSubmit, isSubmitting }) => {
           onChange={handleChange}
           maxLength={200}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-          placeholder="Your organization's name"
+          placeholder={t('signIn.organizationPlaceholder')}
         />
       </div>
 
       <div>
-        <label htmlFor="ein" className="block text-sm font-medium text-gray-700">
-          EIN (optional)
+        <label htmlFor="charityId" className="block text-sm font-medium text-gray-700">
+          {t('signIn.charityId')}
         </label>
-        <input
-          type="text"
-          id="ein"
-          name="ein"
-          value={formData.ein}
-          onChange={handleChange}
-          maxLength={10}
-          className={`mt-1 block w-full rounded-md shadow-sm focus:ring-indigo-500 sm:text-sm
-            ${einError 
-              ? 'border-red-300 focus:border-red-500 focus:ring-red-500' 
-              : 'border-gray-300 focus:border-indigo-500'}`}
-          placeholder="XX-XXXXXXX"
-          aria-invalid={!!einError}
-          aria-describedby={einError ? "ein-error" : undefined}
-        />
-        {einError && (
-          <p className="mt-1 text-sm text-red-600" id="ein-error">
-            {einError}
-          </p>
+        <div className="mt-1">
+          <CharityIdInput
+            id="charityId"
+            country={formData.charityIdCountry}
+            value={formData.charityId}
+            error={charityIdError ? t(charityIdError) : undefined}
+            onChange={handleCharityIdChange}
+            className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        {formData.charityIdCountry === 'US' && !charityIdError && (
+          <EinVerification
+            ein={formData.charityId}
+            organizationName={formData.organization}
+            onUseLegalName={(organization) => setFormData(prev => ({ ...prev, organization }))}
+          />
         )}
-        <p className="mt-1 text-xs text-gray-500">
-          Format: XX-XXXXXXX (Federal Tax ID Number)
-        </p>
       </div>
 
+      <p className="text-xs text-gray-500">
+        {t('signIn.accountOnly')}
+      </p>
+
+      {errorMessage}
+
       <button
         type="submit"
-        disabled={isSubmitting || !!emailError || !!einError}
+        disabled={isSubmitting || !!emailError || !!charityIdError}
         className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white 
-          ${(isSubmitting || !!emailError || !!einError) ? 'bg-indigo-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'} 
+          ${(isSubmitting || !!emailError || !!charityIdError) ? 'bg-indigo-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'} 
           focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500`}
       >
-        {isSubmitting ? 'Saving...' : 'Enable Downloads'}
+        {isSubmitting ? t('signIn.sending') : t('signIn.submit')}
       </button>
     </form>
   );
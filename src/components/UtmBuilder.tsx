@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Save, Trash2, Download } from 'lucide-react';
+import { User, UtmPreset, getUtmPresets, saveUtmPreset, deleteUtmPreset } from '../lib/supabase';
+import { UTM_KEYS, UTM_LABELS, UtmParams, hasUtmParams, parseUtmContentVariants } from '../lib/utm';
+import { BatchItem, generateBatchArchive, uniqueFilename } from '../lib/batch';
+import { DownloadFormat, DOWNLOAD_FORMATS, downloadBlob, verifyDesignScannability } from '../lib/flyerExport';
+import { ExportSettings } from '../lib/printSettings';
+import { useI18n } from '../lib/i18n';
+
+interface UtmBuilderProps {
+  user: User | null;
+  params: UtmParams;
+  onChange: (params: UtmParams) => void;
+  finalUrl: string;
+  createVariantItem: (utmContent: string, index: number) => BatchItem | null;
+  getDesignError: () => string | null;  // Contrast or palette problem blocking downloads
+  exportSettings: ExportSettings;
+  palette: string[] | null;  // Enforced brand palette
+}
+
+const UtmBuilder: React.FC<UtmBuilderProps> = ({ user, params, onChange, finalUrl, createVariantItem, getDesignError, exportSettings, palette }) => {
+  const { t, tNodes } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [presets, setPresets] = useState<UtmPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [variantsText, setVariantsText] = useState('');
+  const [variantFormat, setVariantFormat] = useState<DownloadFormat>('png');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setPresets([]);
+      return;
+    }
+    getUtmPresets(userId).then(setPresets);
+  }, [userId]);
+
+  const setParam = (key: keyof UtmParams, value: string) => {
+    onChange({ ...params, [key]: value });
+  };
+
+  const handleSavePreset = async () => {
+    if (!userId || !presetName.trim()) return;
+
+    setError('');
+    try {
+      const saved = await saveUtmPreset({ user_id: userId, name: presetName.trim(), params });
+      setPresets((prev) =>
+        [...prev.filter((preset) => preset.name !== saved.name), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setPresetName('');
+    } catch {
+      setError(t('utm.error.savePreset'));
+    }
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find(({ id }) => id === presetId);
+    if (preset) {
+      onChange({ ...params, ...preset.params });
+    }
+  };
+
+  const handleDeletePreset = async (presetId: string) => {
+    setError('');
+    try {
+      await deleteUtmPreset(presetId);
+      setPresets((prev) => prev.filter(({ id }) => id !== presetId));
+    } catch {
+      setError(t('utm.error.deletePreset'));
+    }
+  };
+
+  const variants = parseUtmContentVariants(variantsText);
+
+  const handleDownloadVariants = async () => {
+    if (isRunning) return;
+
+    const usedFilenames = new Set<string>();
+    const items = variants
+      .map((variant, index) => createVariantItem(variant, index))
+      .filter((item): item is BatchItem => !!item)
+      .map((item) => ({ ...item, filename: uniqueFilename(item.filename, usedFilenames) }));
+    if (!items.length) {
+      setError(t('utm.error.invalidUrl'));
+      return;
+    }
+
+    const designError = getDesignError();
+    if (designError) {
+      setError(designError);
+      return;
+    }
+
+    setIsRunning(true);
+    setError('');
+    try {
+      let unscannable = 0;
+      for (const item of items) {
+        const report = await verifyDesignScannability(item.design);
+        if (report.status === 'fail') unscannable++;
+      }
+      if (unscannable && !window.confirm(t('utm.confirmUnscannable', { count: unscannable }))) {
+        return;
+      }
+
+      const { archive, failures, unsaved } = await generateBatchArchive(items, {
+        format: variantFormat,
+        settings: exportSettings,
+        includeCombinedPdf: false,
+        palette,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+
+      if (archive) {
+        downloadBlob(archive, 'qr-code-variants.zip');
+      }
+      setError([
+        failures.length ? t('utm.error.failures', { count: failures.length }) : '',
+        unsaved.length ? t('utm.error.unsaved', { count: unsaved.length }) : ''
+      ].filter(Boolean).join(' '));
+    } catch (err) {
+      setError(t('batch.error.archive'));
+      console.error('Error creating variants archive:', err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between p-3 text-sm font-medium text-gray-700"
+      >
+        <span>
+          {t('utm.title')}
+          {hasUtmParams(params) && <span className="ml-2 text-xs text-indigo-600">{t('utm.active')}</span>}
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="p-3 pt-0 space-y-4">
+          {user && presets.length > 0 && (
+            <div className="flex gap-2">
+              {/* Held on the placeholder, so the same preset can be applied again */}
+              <select
+                value=""
+                onChange={(e) => handleApplyPreset(e.target.value)}
+                className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="" disabled>{t('utm.applyPreset')}</option>
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            {UTM_KEYS.map((key) => (
+              <div key={key}>
+                <label htmlFor={key} className="block text-xs font-medium text-gray-600 mb-1">
+                  {t(UTM_LABELS[key])} <span className="font-mono text-gray-400">{key}</span>
+                </label>
+                <input
+                  id={key}
+                  type="text"
+                  value={params[key]}
+                  onChange={(e) => setParam(key, e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          {finalUrl && (
+            <p className="text-xs text-gray-500 break-all">
+              {t('utm.finalUrl')} <span className="font-mono">{finalUrl}</span>
+            </p>
+          )}
+
+          {user && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder={t('utm.presetName')}
+                  className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                  type="button"
+                  onClick={handleSavePreset}
+                  disabled={!presetName.trim()}
+                  className="text-indigo-600 hover:text-indigo-800 disabled:text-gray-300"
+                  title={t('utm.savePreset')}
+                >
+                  <Save size={20} />
+                </button>
+              </div>
+              {presets.length > 0 && (
+                <ul className="space-y-1">
+                  {presets.map((preset) => (
+                    <li key={preset.id} className="flex items-center justify-between text-xs text-gray-600">
+                      <span>{preset.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => preset.id && handleDeletePreset(preset.id)}
+                        className="text-red-500 hover:text-red-700"
+                        title={t('utm.deletePreset')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="border-t pt-3 space-y-2">
+            <label className="block text-xs font-medium text-gray-600">
+              {tNodes('utm.variants', { key: <span className="font-mono">utm_content</span> })}
+            </label>
+            <textarea
+              value={variantsText}
+              onChange={(e) => setVariantsText(e.target.value)}
+              rows={3}
+              className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <div className="flex gap-2">
+              <select
+                value={variantFormat}
+                onChange={(e) => setVariantFormat(e.target.value as DownloadFormat)}
+                className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {DOWNLOAD_FORMATS.map((option) => (
+                  <option key={option} value={option}>{option.toUpperCase()}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleDownloadVariants}
+                disabled={!user || !variants.length || isRunning}
+                className={`flex-1 flex items-center justify-center gap-2 p-2 rounded-lg text-sm transition-colors
+                  ${user && variants.length && !isRunning
+                    ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`}
+              >
+                <Download size={16} />
+                {isRunning
+                  ? t('utm.generating', { done: progress.done, total: progress.total })
+                  : t('utm.download', { count: variants.length })}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              {t('utm.variantsHint')}
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UtmBuilder;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { useI18n } from '../lib/i18n';
+
+// Marks a confirmed organization whose EIN and name match the imported IRS data
+const VerifiedBadge: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded-full"
+      title={t('verifiedBadge.title')}
+    >
+      <ShieldCheck size={12} />
+      {t('verifiedBadge.label')}
+    </span>
+  );
+};
+
+export default VerifiedBadge;
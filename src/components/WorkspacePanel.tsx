@@ -0,0 +1,500 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Trash2, LogOut, AlertCircle } from 'lucide-react';
+import EinVerification from './EinVerification';
+import CharityIdInput from './CharityIdInput';
+import VerifiedBadge from './VerifiedBadge';
+import {
+  User,
+  OrganizationMembership,
+  OrganizationMember,
+  OrganizationInvitation,
+  OrganizationRole,
+  getOrganizationMemberships,
+  createOrganization,
+  getOrganizationMembers,
+  updateMemberRole,
+  removeMember,
+  inviteMember,
+  getOrganizationInvitations,
+  getMyInvitations,
+  acceptInvitation,
+  deleteInvitation
+} from '../lib/supabase';
+import {
+  ORGANIZATION_ROLES,
+  getRoleLabel,
+  getStoredWorkspaceId,
+  storeWorkspaceId
+} from '../lib/organizations';
+import {
+  DEFAULT_CHARITY_ID_COUNTRY,
+  formatCharityId,
+  normalizeCharityId,
+  validateCharityId
+} from '../lib/charityIds';
+import { LocalizedMessage, MessageKey, useI18n } from '../lib/i18n';
+
+interface WorkspacePanelProps {
+  user: User | null;
+  workspace: OrganizationMembership | null;  // null is the personal workspace
+  onChange: (workspace: OrganizationMembership | null) => void;
+}
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+// Errors raised by the database functions carry their own (English) message
+const getErrorMessage = (err: unknown, fallback: MessageKey): LocalizedMessage =>
+  err instanceof Error && err.message ? { key: 'workspace.error.server', params: { message: err.message } } : { key: fallback };
+
+// Picks the personal or an organization workspace, and lets owners manage
+// members and invitations
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ user, workspace, onChange }) => {
+  const { t, tNodes } = useI18n();
+  const [memberships, setMemberships] = useState<OrganizationMembership[]>([]);
+  const [myInvitations, setMyInvitations] = useState<OrganizationInvitation[]>([]);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [orgName, setOrgName] = useState('');
+  const [country, setCountry] = useState(DEFAULT_CHARITY_ID_COUNTRY);
+  const [registrationNumber, setRegistrationNumber] = useState('');  // Formatted for the country
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('editor');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [notice, setNotice] = useState<LocalizedMessage | null>(null);
+
+  const userId = user?.id;
+  const email = user?.email;
+  const organizationId = workspace?.organization.id ?? null;
+  const isOwner = workspace?.role === 'owner';
+  // The generator passes a new callback on every render; only reload per user
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Load the user's organizations and re-open the workspace last used here
+  useEffect(() => {
+    setMemberships([]);
+    setMyInvitations([]);
+    if (!userId || !email) return;
+
+    let cancelled = false;
+    Promise.all([getOrganizationMemberships(userId), getMyInvitations(email)])
+      .then(([loaded, invited]) => {
+        if (cancelled) return;
+        setMemberships(loaded);
+        setMyInvitations(invited);
+        const remembered = loaded.find(({ organization }) => organization.id === getStoredWorkspaceId());
+        if (remembered) onChangeRef.current(remembered);
+      })
+      .catch(() => {
+        if (!cancelled) setError({ key: 'workspace.error.loadOrganizations' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, email]);
+
+  // Members of the open organization; only owners see pending invitations
+  useEffect(() => {
+    setMembers([]);
+    setInvitations([]);
+    if (!organizationId) return;
+
+    let cancelled = false;
+    Promise.all([
+      getOrganizationMembers(organizationId),
+      isOwner ? getOrganizationInvitations(organizationId) : Promise.resolve([])
+    ])
+      .then(([loadedMembers, loadedInvitations]) => {
+        if (cancelled) return;
+        setMembers(loadedMembers);
+        setInvitations(loadedInvitations);
+      })
+      .catch(() => {
+        if (!cancelled) setError({ key: 'workspace.error.loadMembers' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organizationId, isOwner]);
+
+  const selectWorkspace = (membership: OrganizationMembership | null) => {
+    storeWorkspaceId(membership?.organization.id ?? null);
+    setError(null);
+    setNotice(null);
+    onChange(membership);
+  };
+
+  // Reloads the memberships after joining, leaving or a role change and keeps
+  // the open workspace in step with them
+  const refreshMemberships = async (openId: string | null) => {
+    if (!userId) return;
+
+    const loaded = await getOrganizationMemberships(userId);
+    setMemberships(loaded);
+    selectWorkspace(loaded.find(({ organization }) => organization.id === openId) ?? null);
+  };
+
+  const startCreating = () => {
+    setOrgName(user?.organization ?? '');
+    const userCountry = user?.charity_id_country ?? DEFAULT_CHARITY_ID_COUNTRY;
+    setCountry(userCountry);
+    setRegistrationNumber(formatCharityId(userCountry, user?.charity_id ?? ''));
+    setCreating(true);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!orgName.trim()) {
+      setError({ key: 'workspace.error.nameRequired' });
+      return;
+    }
+    const registrationError = normalizeCharityId(registrationNumber)
+      ? validateCharityId(country, registrationNumber)
+      : 'charityId.required';
+    if (registrationError) {
+      setError({ key: registrationError });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const created = await createOrganization(orgName.trim(), country, normalizeCharityId(registrationNumber));
+      setCreating(false);
+      await refreshMemberships(created.id);
+    } catch (err) {
+      setError(getErrorMessage(err, 'workspace.error.create'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAccept = async (invitation: OrganizationInvitation) => {
+    setError(null);
+    try {
+      await acceptInvitation(invitation.id);
+      setMyInvitations((prev) => prev.filter(({ id }) => id !== invitation.id));
+      await refreshMemberships(invitation.organization_id);
+    } catch {
+      setError({ key: 'workspace.error.accept' });
+    }
+  };
+
+  const handleDecline = async (invitation: OrganizationInvitation) => {
+    setError(null);
+    try {
+      await deleteInvitation(invitation.id);
+      setMyInvitations((prev) => prev.filter(({ id }) => id !== invitation.id));
+    } catch {
+      setError({ key: 'workspace.error.decline' });
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrganizationRole) => {
+    if (!organizationId) return;
+
+    setError(null);
+    try {
+      await updateMemberRole(organizationId, member.user_id, role);
+      if (member.user_id === userId) {
+        await refreshMemberships(organizationId);
+      } else {
+        setMembers((prev) => prev.map((m) => (m.user_id === member.user_id ? { ...m, role } : m)));
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'workspace.error.changeRole'));
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!organizationId) return;
+
+    const leaving = member.user_id === userId;
+    const organizationName = workspace?.organization.name ?? '';
+    const prompt = leaving
+      ? t('workspace.confirmLeave', { organization: organizationName })
+      : t('workspace.confirmRemove', { member: member.user?.name ?? t('workspace.thisMember'), organization: organizationName });
+    if (!window.confirm(prompt)) return;
+
+    setError(null);
+    try {
+      await removeMember(organizationId, member.user_id);
+      if (leaving) {
+        await refreshMemberships(null);
+      } else {
+        setMembers((prev) => prev.filter(({ user_id }) => user_id !== member.user_id));
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'workspace.error.remove'));
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) return;
+
+    if (!emailRegex.test(inviteEmail.trim())) {
+      setError({ key: 'workspace.error.emailInvalid' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const { invitation, emailSent } = await inviteMember({
+        organization_id: organizationId,
+        email: inviteEmail.trim(),
+        role: inviteRole
+      });
+      setInvitations((prev) => [...prev, invitation]);
+      setInviteEmail('');
+      setNotice({ key: emailSent ? 'workspace.inviteSent' : 'workspace.inviteSaved', params: { email: invitation.email } });
+    } catch {
+      setError({ key: 'workspace.error.invite' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: OrganizationInvitation) => {
+    setError(null);
+    try {
+      await deleteInvitation(invitation.id);
+      setInvitations((prev) => prev.filter(({ id }) => id !== invitation.id));
+    } catch {
+      setError({ key: 'workspace.error.revoke' });
+    }
+  };
+
+  if (!user) {
+    return (
+      <p className="text-sm text-gray-500">
+        {t('workspace.signIn')}
+      </p>
+    );
+  }
+
+  const ownerCount = members.filter(({ role }) => role === 'owner').length;
+  const roleDescription = ORGANIZATION_ROLES.find(({ value }) => value === workspace?.role)?.description;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <select
+          value={organizationId ?? ''}
+          onChange={(e) =>
+            selectWorkspace(memberships.find(({ organization }) => organization.id === e.target.value) ?? null)
+          }
+          className={`flex-1 ${inputClassName}`}
+        >
+          <option value="">{t('workspace.personal')}</option>
+          {memberships.map(({ organization, role }) => (
+            <option key={organization.id} value={organization.id}>
+              {organization.name} ({getRoleLabel(role, t)})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={startCreating}
+          className="p-2 text-gray-500 hover:text-indigo-600 rounded-lg hover:bg-gray-100"
+          title={t('workspace.new')}
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {workspace && roleDescription && (
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-xs text-gray-500">
+            {t(roleDescription)}
+          </p>
+          {workspace.organization.verified_at && <VerifiedBadge />}
+        </div>
+      )}
+
+      {workspace?.role === 'owner' && !workspace.organization.claimed_at && (
+        <p className="text-xs text-amber-700">
+          {t('workspace.claimPending')}
+        </p>
+      )}
+
+      {myInvitations.map((invitation) => (
+        <div key={invitation.id} className="p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm space-y-2">
+          <p className="text-indigo-900">
+            {tNodes(
+              'workspace.invited',
+              { organization: <span className="font-medium">{invitation.organization?.name ?? t('workspace.anOrganization')}</span> },
+              { role: getRoleLabel(invitation.role, t).toLowerCase() }
+            )}
+          </p>
+          <div className="flex gap-4">
+            <button onClick={() => handleAccept(invitation)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+              {t('workspace.accept')}
+            </button>
+            <button onClick={() => handleDecline(invitation)} className="text-gray-500 hover:text-gray-700">
+              {t('workspace.decline')}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {creating && (
+        <form onSubmit={handleCreate} className="space-y-3 p-3 border border-gray-200 rounded-lg">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('workspace.name')}
+            </label>
+            <input
+              type="text"
+              value={orgName}
+              onChange={(e) => setOrgName(e.target.value)}
+              maxLength={200}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="organizationCharityId" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('workspace.registrationNumber')}
+            </label>
+            <CharityIdInput
+              id="organizationCharityId"
+              country={country}
+              value={registrationNumber}
+              onChange={(nextCountry, nextNumber) => {
+                setCountry(nextCountry);
+                setRegistrationNumber(nextNumber);
+              }}
+              className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {t('workspace.registrationHint')}
+            </p>
+            {country === 'US' && (
+              <EinVerification ein={registrationNumber} organizationName={orgName} onUseLegalName={setOrgName} />
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`flex-1 p-2 rounded-lg transition-colors
+                ${isSubmitting ? 'bg-gray-300 text-gray-500 cursor-not-allowed' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+            >
+              {isSubmitting ? t('workspace.creating') : t('workspace.create')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setCreating(false)}
+              className="px-4 p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              {t('workspace.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {workspace && members.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-700">{t('workspace.members')}</h4>
+          {members.map((member) => {
+            const isSelf = member.user_id === userId;
+            // The database keeps at least one owner
+            const isLastOwner = member.role === 'owner' && ownerCount === 1;
+            return (
+              <div key={member.user_id} className="flex items-center gap-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-900 truncate">{isSelf ? t('workspace.you', { name: member.user?.name ?? t('workspace.member') }) : member.user?.name ?? t('workspace.member')}</p>
+                  <p className="text-xs text-gray-500 truncate">{member.user?.email}</p>
+                </div>
+                {isOwner && !isLastOwner ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as OrganizationRole)}
+                    className="p-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {ORGANIZATION_ROLES.map(({ value, label }) => (
+                      <option key={value} value={value}>{t(label)}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-gray-500">{getRoleLabel(member.role, t)}</span>
+                )}
+                {(isSelf || isOwner) && !isLastOwner && (
+                  <button
+                    onClick={() => handleRemove(member)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title={isSelf ? t('workspace.leave') : t('workspace.remove')}
+                  >
+                    {isSelf ? <LogOut size={16} /> : <Trash2 size={16} />}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isOwner && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-700">{t('workspace.invite')}</h4>
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="colleague@example.org"
+              className={`flex-1 ${inputClassName}`}
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+              className="p-2 border border-gray-300 rounded-lg"
+            >
+              {ORGANIZATION_ROLES.map(({ value, label }) => (
+                <option key={value} value={value}>{t(label)}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 p-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {t('workspace.inviteSubmit')}
+            </button>
+          </form>
+          {invitations.map((invitation) => (
+            <div key={invitation.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-gray-700 truncate">{invitation.email}</span>
+              <span className="text-gray-500">{t('workspace.pending', { role: getRoleLabel(invitation.role, t) })}</span>
+              <button
+                onClick={() => handleRevoke(invitation)}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title={t('workspace.revoke')}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-green-700">{t(notice.key, notice.params)}</p>}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-center gap-2">
+          <AlertCircle size={16} />
+          {t(error.key, error.params)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspacePanel;
@@ -0,0 +1,281 @@
+import JSZip from 'jszip';
+import { parseCSVRecords } from './csv';
+import { isValidTargetUrl } from './dynamicLinks';
+import { analyzeStyledContrast } from './contrast';
+import { QRCode, WorkspaceScope, saveQRCode } from './supabase';
+import { UTM_KEYS, UtmParams, applyUtmParams, toUtmColumns } from './utm';
+import { ExportSettings } from './printSettings';
+import { findOffPaletteColors } from './brandKits';
+import { getStyleColors } from './qrStyle';
+import type { LocalizedMessage } from './i18n';
+import {
+  DownloadFormat,
+  FlyerDesign,
+  FlyerDesignColors,
+  exportFlyer,
+  buildFlyerLayout,
+  createFlyerPDF,
+  addFlyerToPDF,
+  getDesignColors
+} from './flyerExport';
+
+export const MAX_BATCH_ROWS = 500;
+
+export const BATCH_COLUMNS = ['url', 'org_description', 'url_purpose', 'qr_color', 'bg_color', 'filename', ...UTM_KEYS] as const;
+
+export interface BatchRow {
+  line: number;
+  url: string;
+  orgDescription: string;
+  urlPurpose: string;
+  qrColor: string;
+  bgColor: string;
+  filename: string;
+  utm: UtmParams;
+}
+
+// One file in the archive: what to render and what to save for it
+export interface BatchItem {
+  line: number;
+  filename: string;
+  design: FlyerDesign;
+  record: Omit<QRCode, 'id' | 'created_at'>;
+}
+
+export interface BatchOptions {
+  format: DownloadFormat;
+  settings: ExportSettings;
+  includeCombinedPdf: boolean;
+  palette?: string[] | null;  // Enforced brand palette, checked again when saving
+  onProgress: (done: number, total: number) => void;
+}
+
+export interface BatchRowError {
+  line: number;
+  messages: LocalizedMessage[];
+}
+
+// The shared design; its style, page and logo colors apply to every row
+export interface BatchDefaults extends Pick<
+  FlyerDesign,
+  'orgDescription' | 'urlPurpose' | 'qrColor' | 'bgColor' | 'pageColor' | 'style' | 'logo' | 'logoSettings'
+> {
+  palette?: string[] | null;  // Enforced brand palette; other colors are rejected
+}
+
+const hexColorRegex = /^#[0-9a-fA-F]{6}$/;
+
+export const sanitizeFilename = (value: string) =>
+  value
+    .replace(/\.[a-z0-9]{2,4}$/i, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+
+// Distinct values can sanitize to the same name ("a b" and "a-b"); later ones
+// get a numeric suffix so no file in the archive is overwritten
+export const uniqueFilename = (filename: string, used: Set<string>) => {
+  let unique = filename;
+  let suffix = 2;
+  while (used.has(unique.toLowerCase())) {
+    unique = `${filename}-${suffix++}`;
+  }
+  used.add(unique.toLowerCase());
+  return unique;
+};
+
+// Accepts either qr_color/bg_color columns or a combined "colors" column
+// written as "#000000/#ffffff"
+const readColors = (record: Record<string, string>) => {
+  const [combinedQr = '', combinedBg = ''] = (record.colors || '').split(/[/;|]/).map((c) => c.trim());
+  return {
+    qrColor: record.qr_color || combinedQr,
+    bgColor: record.bg_color || combinedBg
+  };
+};
+
+// The single-download guardrail: contrast of every code color, and with an
+// enforced palette every color the design is drawn with
+const checkDesignColors = (design: FlyerDesignColors, palette?: string[] | null): LocalizedMessage[] => {
+  const messages: LocalizedMessage[] = [];
+
+  const contrast = analyzeStyledContrast(getStyleColors(design.qrColor, design.style), design.bgColor);
+  if (contrast.status === 'fail') messages.push(...contrast.messages);
+
+  const offPalette = palette ? findOffPaletteColors(getDesignColors(design), palette) : [];
+  if (offPalette.length) {
+    messages.push({ key: 'batch.error.offPalette', params: { count: offPalette.length, colors: offPalette.join(', ') } });
+  }
+
+  return messages;
+};
+
+export const parseBatchCSV = (text: string, defaults: BatchDefaults): { rows: BatchRow[]; errors: BatchRowError[] } => {
+  const { headers, records } = parseCSVRecords(text);
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+
+  if (!headers.includes('url')) {
+    return { rows, errors: [{ line: 1, messages: [{ key: 'batch.error.urlColumn' }] }] };
+  }
+
+  if (records.length > MAX_BATCH_ROWS) {
+    return { rows, errors: [{ line: 1, messages: [{ key: 'batch.error.tooManyRows', params: { max: MAX_BATCH_ROWS } }] }] };
+  }
+
+  const usedFilenames = new Set<string>();
+
+  records.forEach((record, index) => {
+    const line = index + 2;  // 1-based, after the header
+    const messages: LocalizedMessage[] = [];
+    const colors = readColors(record);
+    const qrColor = colors.qrColor || defaults.qrColor;
+    const bgColor = colors.bgColor || defaults.bgColor;
+
+    if (!record.url) {
+      messages.push({ key: 'batch.error.urlRequired' });
+    } else if (!isValidTargetUrl(record.url)) {
+      messages.push({ key: 'batch.error.urlInvalid' });
+    }
+
+    if (!hexColorRegex.test(qrColor)) {
+      messages.push({ key: 'batch.error.qrColor' });
+    }
+
+    if (!hexColorRegex.test(bgColor)) {
+      messages.push({ key: 'batch.error.bgColor' });
+    }
+
+    if (hexColorRegex.test(qrColor) && hexColorRegex.test(bgColor)) {
+      messages.push(...checkDesignColors({ ...defaults, qrColor, bgColor }, defaults.palette));
+    }
+
+    if (messages.length) {
+      errors.push({ line, messages });
+      return;
+    }
+
+    const filename = uniqueFilename(sanitizeFilename(record.filename || '') || `qr-code-${line}`, usedFilenames);
+    rows.push({
+      line,
+      url: record.url,
+      orgDescription: record.org_description || defaults.orgDescription,
+      urlPurpose: record.url_purpose || defaults.urlPurpose,
+      qrColor,
+      bgColor,
+      filename,
+      utm: Object.fromEntries(UTM_KEYS.map((key) => [key, record[key] || ''])) as UtmParams
+    });
+  });
+
+  return { rows, errors };
+};
+
+// Renders every item with the same pipeline as single downloads, then saves it
+// through saveQRCode. Rows that fail the color guardrail or rendering are
+// reported instead of aborting the batch and left out of the archive; rows that rendered but could not be saved stay in the archive and
+// are reported in unsaved, so nothing is saved without being downloaded.
+export const generateBatchArchive = async (
+  items: BatchItem[],
+  { format, settings, includeCombinedPdf, palette, onProgress }: BatchOptions
+): Promise<{ archive: Blob | null; failures: BatchRowError[]; unsaved: BatchRowError[] }> => {
+  const zip = new JSZip();
+  const combinedPdf = includeCombinedPdf ? createFlyerPDF(settings) : null;
+  const failures: BatchRowError[] = [];
+  const unsaved: BatchRowError[] = [];
+  let pages = 0;
+
+  onProgress(0, items.length);
+
+  for (const [index, item] of items.entries()) {
+    const colorErrors = checkDesignColors(item.design, palette);
+    if (colorErrors.length) {
+      failures.push({ line: item.line, messages: colorErrors });
+      onProgress(index + 1, items.length);
+      continue;
+    }
+
+    try {
+      const file = await exportFlyer(item.design, format, settings);
+      const layout = combinedPdf ? await buildFlyerLayout(item.design) : null;
+      zip.file(`${item.filename}.${format}`, file);
+
+      if (combinedPdf && layout) {
+        if (pages > 0) combinedPdf.addPage();
+        addFlyerToPDF(combinedPdf, layout, settings);
+        pages++;
+      }
+    } catch (err) {
+      console.error(`Error rendering row ${item.line}:`, err);
+      failures.push({ line: item.line, messages: [{ key: 'batch.error.render' }] });
+      onProgress(index + 1, items.length);
+      continue;
+    }
+
+    try {
+      await saveQRCode(item.record, palette);
+    } catch (err) {
+      console.error(`Error saving row ${item.line}:`, err);
+      unsaved.push({ line: item.line, messages: [{ key: 'batch.error.unsaved' }] });
+    }
+
+    onProgress(index + 1, items.length);
+  }
+
+  if (!Object.keys(zip.files).length) {
+    return { archive: null, failures, unsaved };
+  }
+
+  if (combinedPdf && pages > 0) {
+    zip.file('all-qr-codes.pdf', combinedPdf.output('blob'));
+  }
+
+  return { archive: await zip.generateAsync({ type: 'blob' }), failures, unsaved };
+};
+
+// Per-row values override the shared design (size, logo, error correction).
+// owner is the workspace the codes are saved to; logoKey is the stored copy of
+// baseDesign.logo.
+export const batchRowToItem = (row: BatchRow, owner: WorkspaceScope, baseDesign: FlyerDesign, logoKey: string | null): BatchItem => {
+  const value = applyUtmParams(row.url, row.utm);
+
+  return {
+    line: row.line,
+    filename: row.filename,
+    design: {
+      ...baseDesign,
+      value,
+      qrColor: row.qrColor,
+      bgColor: row.bgColor,
+      orgDescription: row.orgDescription,
+      urlPurpose: row.urlPurpose,
+      // Translations are of the shared text, not the row's
+      translations: [],
+      textLanguages: []
+    },
+    record: {
+      user_id: owner.userId,
+      organization_id: owner.organizationId,
+      name: row.filename,
+      url: value,
+      org_description: row.orgDescription,
+      url_purpose: row.urlPurpose,
+      qr_color: row.qrColor,
+      bg_color: row.bgColor,
+      size: baseDesign.size,
+      has_logo: !!baseDesign.logo,
+      logo_key: baseDesign.logo ? logoKey : null,
+      error_correction: baseDesign.level,
+      logo_settings: baseDesign.logo ? baseDesign.logoSettings : null,
+      qr_style: baseDesign.style,
+      flyer_fonts: baseDesign.fonts,
+      language: baseDesign.language,
+      flyer_headings: baseDesign.headings,
+      translations: [],
+      dynamic_link_id: null,
+      payload_type: 'url',
+      payload_data: null,
+      ...toUtmColumns(value)
+    }
+  };
+};
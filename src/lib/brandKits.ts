@@ -0,0 +1,63 @@
+import { BrandKit, WorkspaceScope } from './supabase';
+import { FlyerFonts, DEFAULT_FLYER_FONTS } from './flyerFonts';
+import { analyzeQRContrast } from './contrast';
+import { getPreference, setPreference } from './localPreferences';
+import type { LocalizedMessage } from './i18n';
+
+export const MAX_PALETTE_COLORS = 12;
+
+const hexColorRegex = /^#[0-9a-fA-F]{6}$/;
+
+// The kit last picked in this browser, re-applied when the generator opens
+const ACTIVE_KIT_PREFERENCE = 'brand-kit';
+
+export const createBrandKit = ({ userId, organizationId }: WorkspaceScope): Omit<BrandKit, 'created_at' | 'updated_at'> => ({
+  user_id: userId,
+  organization_id: organizationId,
+  name: '',
+  palette: [
+    { name: 'Black', color: '#000000' },
+    { name: 'White', color: '#ffffff' }
+  ],
+  qr_color: '#000000',
+  bg_color: '#ffffff',
+  primary_logo_key: null,
+  alternate_logo_key: null,
+  heading_font: DEFAULT_FLYER_FONTS.heading,
+  body_font: DEFAULT_FLYER_FONTS.body,
+  default_description: '',
+  enforce_palette: false
+});
+
+export const getPaletteColors = (kit: Pick<BrandKit, 'palette'>): string[] =>
+  kit.palette.map(({ color }) => color.toLowerCase());
+
+export const getKitFonts = (kit: Pick<BrandKit, 'heading_font' | 'body_font'>): FlyerFonts => ({
+  heading: kit.heading_font,
+  body: kit.body_font
+});
+
+// Colors of the design that are not in the palette, in their original order
+export const findOffPaletteColors = (colors: string[], palette: string[]): string[] =>
+  [...new Set(colors.map((color) => color.toLowerCase()))].filter((color) => !palette.includes(color));
+
+export const validateBrandKit = (kit: Omit<BrandKit, 'created_at' | 'updated_at'>): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+  const palette = getPaletteColors(kit);
+
+  if (!kit.name.trim()) errors.push({ key: 'brandKit.error.name' });
+  if (palette.length < 2) errors.push({ key: 'brandKit.error.tooFewColors' });
+  if (palette.length > MAX_PALETTE_COLORS) errors.push({ key: 'brandKit.error.tooManyColors', params: { max: MAX_PALETTE_COLORS } });
+  if (palette.some((color) => !hexColorRegex.test(color))) errors.push({ key: 'brandKit.error.hexColors' });
+  if (!palette.includes(kit.qr_color.toLowerCase()) || !palette.includes(kit.bg_color.toLowerCase())) {
+    errors.push({ key: 'brandKit.error.defaultsOffPalette' });
+  } else if (analyzeQRContrast(kit.qr_color, kit.bg_color).status === 'fail') {
+    errors.push({ key: 'brandKit.error.defaultsContrast' });
+  }
+
+  return errors;
+};
+
+export const getStoredActiveKitId = () => getPreference(ACTIVE_KIT_PREFERENCE);
+
+export const storeActiveKitId = (kitId: string | null) => setPreference(ACTIVE_KIT_PREFERENCE, kitId);
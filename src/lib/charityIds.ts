@@ -0,0 +1,163 @@
+import type { MessageKey } from './i18n';
+
+// Country-aware charity registration numbers. IDs are stored in a canonical
+// form (upper-case letters and digits only) next to their ISO 3166-1 alpha-2
+// country code, and formatted per country for display. Labels, hints and
+// errors are message keys, translated by the forms that show them.
+
+export interface CharityIdScheme {
+  country: string;      // ISO 3166-1 alpha-2 code
+  label: MessageKey;    // What the number is called locally
+  placeholder: string;
+  hint: MessageKey;
+  maxLength: number;    // Of the formatted value
+  // Formats canonical or partially typed input for display
+  format: (canonical: string) => string;
+  // Error message for a complete canonical ID, or null when it is valid
+  validate: (canonical: string) => MessageKey | null;
+}
+
+const registry = new Map<string, CharityIdScheme>();
+
+// New countries only need to be registered here; the forms list whatever is
+// in the registry
+export const registerCharityIdScheme = (scheme: CharityIdScheme) => {
+  registry.set(scheme.country, scheme);
+};
+
+export const getCharityIdSchemes = (): CharityIdScheme[] => Array.from(registry.values());
+
+export const DEFAULT_CHARITY_ID_COUNTRY = 'US';
+
+// Countries without a registered scheme still accept a plain registration number
+const genericScheme = (country: string): CharityIdScheme => ({
+  country,
+  label: 'charityId.generic.label',
+  placeholder: '',
+  hint: 'charityId.generic.hint',
+  maxLength: 40,
+  format: (canonical) => canonical,
+  validate: (canonical) =>
+    /^[A-Z0-9]{4,32}$/.test(canonical) ? null : 'charityId.generic.invalid'
+});
+
+export const getCharityIdScheme = (country: string): CharityIdScheme =>
+  registry.get(country) ?? genericScheme(country);
+
+export const hasCharityIdScheme = (country: string) => registry.has(country);
+
+// ISO 3166-1 alpha-2 codes, for countries without a registered scheme
+const COUNTRY_CODES = `
+  AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL
+  BM BN BO BQ BR BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV
+  CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD
+  GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM
+  IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK
+  LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW
+  MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR
+  PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS
+  ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY
+  UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW
+`.trim().split(/\s+/);
+
+// Countries without a registered scheme, for the "Other country" choice
+export const getOtherCountryCodes = () => COUNTRY_CODES.filter((code) => !registry.has(code));
+
+export const normalizeCharityId = (value: string) => value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+
+export const formatCharityId = (country: string, value: string) =>
+  getCharityIdScheme(country).format(normalizeCharityId(value));
+
+// Empty IDs are left to the caller (optional on sign-up, required for organizations)
+export const validateCharityId = (country: string, value: string): MessageKey | null => {
+  const canonical = normalizeCharityId(value);
+  if (!canonical) return null;
+  if (!/^[A-Z]{2}$/.test(country)) return 'charityId.countryRequired';
+  return getCharityIdScheme(country).validate(canonical);
+};
+
+// Inserts separators after the given lengths, e.g. [2] turns 123456789 into 12-3456789
+const group = (value: string, sizes: number[], separator: string) => {
+  const parts: string[] = [];
+  let rest = value;
+  for (const size of sizes) {
+    if (rest.length <= size) break;
+    parts.push(rest.slice(0, size));
+    rest = rest.slice(size);
+  }
+  return [...parts, rest].filter(Boolean).join(separator);
+};
+
+// Luhn check used by the nine-digit Canadian Business Number
+const passesLuhn = (digits: string) => {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, char, index) => {
+      let digit = Number(char);
+      if (index % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      return total + digit;
+    }, 0);
+  return sum % 10 === 0;
+};
+
+// ABN check: subtract 1 from the first digit, weight the digits and the sum
+// must be divisible by 89
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+
+const isValidAbn = (digits: string) => {
+  const sum = digits
+    .split('')
+    .reduce((total, char, index) => total + (Number(char) - (index === 0 ? 1 : 0)) * ABN_WEIGHTS[index], 0);
+  return sum % 89 === 0;
+};
+
+registerCharityIdScheme({
+  country: 'US',
+  label: 'charityId.US.label',
+  placeholder: 'XX-XXXXXXX',
+  hint: 'charityId.US.hint',
+  maxLength: 10,
+  format: (canonical) => group(canonical.replace(/\D/g, '').slice(0, 9), [2], '-'),
+  validate: (canonical) => (/^\d{9}$/.test(canonical) ? null : 'charityId.US.invalid')
+});
+
+registerCharityIdScheme({
+  country: 'GB',
+  label: 'charityId.GB.label',
+  placeholder: '1234567',
+  hint: 'charityId.GB.hint',
+  maxLength: 9,
+  format: (canonical) => canonical.slice(0, 9),
+  validate: (canonical) =>
+    /^(\d{6,7}|SC\d{6}|NIC\d{6})$/.test(canonical) ? null : 'charityId.GB.invalid'
+});
+
+registerCharityIdScheme({
+  country: 'CA',
+  label: 'charityId.CA.label',
+  placeholder: '123456782 RR 0001',
+  hint: 'charityId.CA.hint',
+  maxLength: 17,
+  format: (canonical) => group(canonical.slice(0, 15), [9, 2], ' '),
+  validate: (canonical) => {
+    if (!/^\d{9}RR\d{4}$/.test(canonical)) return 'charityId.CA.invalid';
+    return passesLuhn(canonical.slice(0, 9)) ? null : 'charityId.CA.checkDigit';
+  }
+});
+
+registerCharityIdScheme({
+  country: 'AU',
+  label: 'charityId.AU.label',
+  placeholder: '51 824 753 556',
+  hint: 'charityId.AU.hint',
+  maxLength: 14,
+  format: (canonical) => group(canonical.replace(/\D/g, '').slice(0, 11), [2, 3, 3], ' '),
+  validate: (canonical) => {
+    if (!/^\d{11}$/.test(canonical)) return 'charityId.AU.invalid';
+    return isValidAbn(canonical) ? null : 'charityId.AU.checksum';
+  }
+});
@@ -0,0 +1,58 @@
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const hexToRgb = (hex: string): RGB => {
+  let value = hex.replace('#', '').trim();
+  if (value.length === 3) {
+    value = value.split('').map((c) => c + c).join('');
+  }
+
+  const parsed = parseInt(value.slice(0, 6), 16);
+  if (Number.isNaN(parsed)) return { r: 0, g: 0, b: 0 };
+
+  return {
+    r: (parsed >> 16) & 0xff,
+    g: (parsed >> 8) & 0xff,
+    b: parsed & 0xff
+  };
+};
+
+export const rgbToHex = ({ r, g, b }: RGB): string =>
+  `#${[r, g, b].map((value) => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0')).join('')}`;
+
+// WCAG 2.x relative luminance
+export const relativeLuminance = (hex: string): number => {
+  const { r, g, b } = hexToRgb(hex);
+  const [R, G, B] = [r, g, b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+};
+
+export const contrastRatio = (a: string, b: string): number => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// Perceptually weighted RGB distance ("redmean"); good enough to rank palette colors
+export const colorDistance = (a: string, b: string): number => {
+  const c1 = hexToRgb(a);
+  const c2 = hexToRgb(b);
+  const rMean = (c1.r + c2.r) / 2;
+  const dr = c1.r - c2.r;
+  const dg = c1.g - c2.g;
+  const db = c1.b - c2.b;
+  return Math.sqrt((2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db);
+};
+
+// Blends toward black (amount > 0) or white (amount < 0)
+export const shadeColor = (hex: string, amount: number): string => {
+  const { r, g, b } = hexToRgb(hex);
+  const target = amount > 0 ? 0 : 255;
+  const t = Math.min(1, Math.abs(amount));
+  return rgbToHex({ r: r + (target - r) * t, g: g + (target - g) * t, b: b + (target - b) * t });
+};
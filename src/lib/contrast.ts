@@ -0,0 +1,97 @@
+import { colorDistance, contrastRatio, relativeLuminance, shadeColor } from './color';
+import type { LocalizedMessage, MessageKey } from './i18n';
+
+export type ContrastStatus = 'ok' | 'warn' | 'fail';
+
+// Below MIN_CONTRAST many phone scanners cannot separate modules from the
+// background; below RECOMMENDED_CONTRAST they struggle in poor light or print.
+export const MIN_CONTRAST = 3;
+export const RECOMMENDED_CONTRAST = 4.5;
+
+export interface ContrastAnalysis {
+  ratio: number;
+  inverted: boolean;
+  status: ContrastStatus;
+  messages: LocalizedMessage[];
+}
+
+export interface ColorSuggestion {
+  qrColor: string;
+  bgColor: string;
+  source: 'palette' | 'shade' | 'swap' | 'default';
+}
+
+export const analyzeQRContrast = (qrColor: string, bgColor: string): ContrastAnalysis => {
+  const ratio = contrastRatio(qrColor, bgColor);
+  const inverted = relativeLuminance(qrColor) > relativeLuminance(bgColor);
+  const messages: LocalizedMessage[] = [];
+  const shownRatio = Math.round(ratio * 10) / 10;  // Formatted for the locale when shown
+
+  if (ratio < MIN_CONTRAST) {
+    messages.push({ key: 'contrast.tooLow', params: { ratio: shownRatio, minimum: MIN_CONTRAST } });
+  } else if (ratio < RECOMMENDED_CONTRAST) {
+    messages.push({ key: 'contrast.belowRecommended', params: { ratio: shownRatio, recommended: RECOMMENDED_CONTRAST } });
+  }
+
+  if (inverted) {
+    messages.push({ key: 'contrast.inverted' });
+  }
+
+  const status: ContrastStatus = ratio < MIN_CONTRAST ? 'fail' : messages.length ? 'warn' : 'ok';
+  return { ratio, inverted, status, messages };
+};
+
+// A styled code is only as readable as its weakest dark color (gradient end,
+// custom eye colors)
+export const analyzeStyledContrast = (colors: string[], bgColor: string): ContrastAnalysis =>
+  colors
+    .map((color) => analyzeQRContrast(color, bgColor))
+    .reduce((worst, analysis) => (analysis.ratio < worst.ratio ? analysis : worst));
+
+const isCompliant = (qrColor: string, bgColor: string) =>
+  analyzeQRContrast(qrColor, bgColor).status === 'ok';
+
+// Nearest colors that pass: first the closest palette color for the code, then
+// a darker shade of the current color, then swapping an inverted pair, and
+// finally plain black on white. With paletteOnly (an enforced brand palette)
+// only palette colors are suggested, or nothing when no palette pair passes.
+export const suggestCompliantColors = (
+  qrColor: string,
+  bgColor: string,
+  palette: string[] = [],
+  paletteOnly: boolean = false
+): ColorSuggestion | null => {
+  if (isCompliant(qrColor, bgColor)) return null;
+
+  const fromPalette = palette
+    .filter((color) => isCompliant(color, bgColor))
+    .sort((a, b) => colorDistance(a, qrColor) - colorDistance(b, qrColor))[0];
+  if (fromPalette) return { qrColor: fromPalette, bgColor, source: 'palette' };
+
+  if (!paletteOnly) {
+    for (let amount = 0.1; amount <= 1; amount += 0.1) {
+      const shaded = shadeColor(qrColor, amount);
+      if (isCompliant(shaded, bgColor)) return { qrColor: shaded, bgColor, source: 'shade' };
+    }
+
+    if (isCompliant(bgColor, qrColor)) return { qrColor: bgColor, bgColor: qrColor, source: 'swap' };
+  }
+
+  const paletteBackground = palette
+    .filter((color) => isCompliant(qrColor, color))
+    .sort((a, b) => colorDistance(a, bgColor) - colorDistance(b, bgColor))[0];
+  if (paletteBackground) return { qrColor, bgColor: paletteBackground, source: 'palette' };
+
+  if (paletteOnly) {
+    const pair = palette
+      .flatMap((code) => palette.filter((background) => isCompliant(code, background)).map((background) => ({ code, background })))
+      .sort((a, b) =>
+        colorDistance(a.code, qrColor) + colorDistance(a.background, bgColor)
+        - colorDistance(b.code, qrColor) - colorDistance(b.background, bgColor))[0];
+    return pair ? { qrColor: pair.code, bgColor: pair.background, source: 'palette' } : null;
+  }
+
+  return { qrColor: '#000000', bgColor: '#ffffff', source: 'default' };
+};
+
+export const describeSuggestion = (suggestion: ColorSuggestion): MessageKey => `contrast.suggestion.${suggestion.source}`;
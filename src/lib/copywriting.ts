@@ -0,0 +1,120 @@
+import { TextAudience, TextLength, TextTone, TextGenerationError, generateText } from './supabase';
+import { getPreference, setPreference } from './localPreferences';
+import { FlyerTranslation, getDefaultHeadings, isDefaultHeadings } from './flyerLanguages';
+import type { MessageKey } from './i18n';
+
+export const TEXT_TONES: { value: TextTone; label: MessageKey }[] = [
+  { value: 'warm', label: 'copy.tone.warm' },
+  { value: 'urgent', label: 'copy.tone.urgent' },
+  { value: 'formal', label: 'copy.tone.formal' }
+];
+
+export const TEXT_AUDIENCES: { value: TextAudience; label: MessageKey }[] = [
+  { value: 'donors', label: 'copy.audience.donors' },
+  { value: 'volunteers', label: 'copy.audience.volunteers' },
+  { value: 'grant_makers', label: 'copy.audience.grant_makers' }
+];
+
+export const TEXT_LENGTHS: { value: TextLength; label: MessageKey }[] = [
+  { value: 'short', label: 'copy.length.short' },
+  { value: 'medium', label: 'copy.length.medium' },
+  { value: 'long', label: 'copy.length.long' }
+];
+
+export const VARIANT_COUNT = 3;
+
+export interface CopyOptions {
+  tone: TextTone;
+  audience: TextAudience;
+  length: TextLength;
+}
+
+export const DEFAULT_COPY_OPTIONS: CopyOptions = {
+  tone: 'warm',
+  audience: 'donors',
+  length: 'medium'
+};
+
+// The writing style last used in this browser
+const COPY_OPTIONS_PREFERENCE = 'copy-options';
+
+const isOption = <T extends string>(options: { value: T }[], value: unknown): value is T =>
+  options.some((option) => option.value === value);
+
+export const getStoredCopyOptions = (): CopyOptions => {
+  try {
+    const stored = JSON.parse(getPreference(COPY_OPTIONS_PREFERENCE) ?? '{}');
+    return {
+      tone: isOption(TEXT_TONES, stored.tone) ? stored.tone : DEFAULT_COPY_OPTIONS.tone,
+      audience: isOption(TEXT_AUDIENCES, stored.audience) ? stored.audience : DEFAULT_COPY_OPTIONS.audience,
+      length: isOption(TEXT_LENGTHS, stored.length) ? stored.length : DEFAULT_COPY_OPTIONS.length
+    };
+  } catch {
+    return DEFAULT_COPY_OPTIONS;
+  }
+};
+
+export const storeCopyOptions = (options: CopyOptions) => setPreference(COPY_OPTIONS_PREFERENCE, JSON.stringify(options));
+
+// Earlier texts of a field, most recent last
+export const MAX_HISTORY = 20;
+
+export const pushHistory = (history: string[], text: string): string[] => {
+  if (!text.trim() || history[history.length - 1] === text) return history;
+  return [...history, text].slice(-MAX_HISTORY);
+};
+
+// Appends a variant as a new paragraph, for combining the best parts of several
+export const mergeTexts = (current: string, addition: string) =>
+  current.trim() ? `${current.trim()}\n\n${addition.trim()}` : addition.trim();
+
+const TEXT_ERROR_MESSAGES: Record<string, MessageKey> = {
+  invalid_request: 'ai.error.invalidRequest',
+  unauthorized: 'ai.error.unauthorized',
+  forbidden: 'ai.error.forbidden',
+  rate_limited: 'ai.error.rateLimited',
+  not_configured: 'ai.error.notConfigured',
+  upstream_error: 'ai.error.upstream',
+  network_error: 'ai.error.network'
+};
+
+// Message for a failed generateText call, by the error code the function returned
+export const getTextErrorMessage = (err: unknown): MessageKey =>
+  (err instanceof TextGenerationError && TEXT_ERROR_MESSAGES[err.code]) || 'ai.error.generic';
+
+// Translates the flyer text through the generate-text function, one request
+// per non-empty field. Default headings use the target language's own
+// defaults; only customized headings are sent for translation.
+export const translateFlyerText = async (
+  source: FlyerTranslation,  // The primary language's text
+  language: string,
+  organizationId: string | null
+): Promise<FlyerTranslation> => {
+  const translate = async (text: string) => {
+    if (!text.trim()) return '';
+    const [translated] = await generateText({
+      kind: 'translation',
+      context: text,
+      language,
+      sourceLanguage: source.language,
+      organizationId
+    });
+    return translated ?? '';
+  };
+
+  const customHeadings = !isDefaultHeadings(source.language, source.headings);
+  const [orgDescription, urlPurpose, about, purpose] = await Promise.all([
+    translate(source.orgDescription),
+    translate(source.urlPurpose),
+    customHeadings ? translate(source.headings.about) : null,
+    customHeadings ? translate(source.headings.purpose) : null
+  ]);
+
+  const defaults = getDefaultHeadings(language);
+  return {
+    language,
+    headings: { about: about || defaults.about, purpose: purpose || defaults.purpose },
+    orgDescription,
+    urlPurpose
+  };
+};
@@ -0,0 +1,64 @@
+// Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF/LF
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');  // Excel adds a BOM
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+// First row is the header; keys are lower-cased and trimmed
+export const parseCSVRecords = (text: string): { headers: string[]; records: Record<string, string>[] } => {
+  const [headerRow = [], ...dataRows] = parseCSV(text);
+  const headers = headerRow.map((header) => header.trim().toLowerCase());
+
+  const records = dataRows.map((cells) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (cells[index] ?? '').trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+};
@@ -0,0 +1,284 @@
+import { PayloadFields } from './payloads';
+import type { LocalizedMessage } from './i18n';
+
+export type DonationScheme = 'epc' | 'upi' | 'swiss' | 'paypal' | 'venmo';
+
+// Currencies each scheme can be paid in, default first. SEPA is always EUR and
+// UPI always INR, so only these two offer a choice.
+export const DONATION_CURRENCIES = {
+  swiss: ['CHF', 'EUR'],
+  paypal: ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF']
+};
+
+// IBAN lengths for SEPA and QR-bill countries (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26,
+  IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28,
+  PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, VA: 22
+};
+
+const bicRegex = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+const vpaRegex = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,64}$/;
+const handleRegex = /^[A-Za-z0-9_-]{1,40}$/;
+const amountRegex = /^\d{1,9}(\.\d{1,2})?$/;
+
+export const normalizeIban = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+
+// ISO 7064 MOD 97-10 over the rearranged, letter-expanded string
+const mod97 = (value: string) => {
+  const expanded = value.replace(/[A-Z]/g, (char) => String(char.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (let i = 0; i < expanded.length; i += 7) {
+    remainder = Number(`${remainder}${expanded.slice(i, i + 7)}`) % 97;
+  }
+  return remainder;
+};
+
+export const isValidIban = (value: string): boolean => {
+  const iban = normalizeIban(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(iban)) return false;
+
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength && iban.length !== expectedLength) return false;
+
+  return mod97(iban.slice(4) + iban.slice(0, 4)) === 1;
+};
+
+export const isValidBic = (value: string): boolean => bicRegex.test(value.replace(/\s+/g, '').toUpperCase());
+
+// ISO 11649 "RF" creditor reference
+export const isValidCreditorReference = (value: string): boolean => {
+  const reference = value.replace(/\s+/g, '').toUpperCase();
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(reference)) return false;
+  return mod97(reference.slice(4) + reference.slice(0, 4)) === 1;
+};
+
+// Swiss QR-IBANs use an institution id in the 30000-31999 range
+const isQrIban = (iban: string) => {
+  const iid = Number(iban.slice(4, 9));
+  return iid >= 30000 && iid <= 31999;
+};
+
+// 27-digit QR reference with a recursive mod 10 check digit
+export const isValidQrReference = (value: string): boolean => {
+  const reference = value.replace(/\s+/g, '');
+  if (!/^\d{27}$/.test(reference)) return false;
+
+  const table = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+  let carry = 0;
+  for (const digit of reference.slice(0, 26)) {
+    carry = table[(carry + Number(digit)) % 10];
+  }
+  return (10 - carry) % 10 === Number(reference[26]);
+};
+
+const formatAmount = (value: string) => (value ? Number(value).toFixed(2) : '');
+
+// Unstructured remittance text: the free-form reference followed by the note
+const epcRemittanceText = (fields: PayloadFields) =>
+  [fields.reference?.trim(), fields.message?.trim()].filter(Boolean).join(' ');
+
+// EPC069-12 v002 SEPA credit transfer ("GiroCode"). Structured and unstructured
+// remittance are exclusive, so with an RF reference the note goes in the
+// beneficiary-to-originator line instead.
+const buildEpc = (fields: PayloadFields) => {
+  const reference = (fields.reference || '').replace(/\s+/g, '').toUpperCase();
+  const structured = reference && isValidCreditorReference(reference);
+
+  return [
+    'BCD',
+    '002',
+    '1',  // UTF-8
+    'SCT',
+    (fields.bic || '').replace(/\s+/g, '').toUpperCase(),
+    fields.name || '',
+    normalizeIban(fields.iban || ''),
+    fields.amount ? `EUR${formatAmount(fields.amount)}` : '',
+    '',  // Purpose code
+    structured ? reference : '',
+    structured ? '' : epcRemittanceText(fields),
+    structured ? (fields.message || '') : ''
+  ].join('\n').replace(/\n+$/, '');
+};
+
+const buildUpi = (fields: PayloadFields) => {
+  const params: Array<[string, string]> = [
+    ['pa', fields.vpa || ''],
+    ['pn', fields.name || '']
+  ];
+  if (fields.amount) params.push(['am', formatAmount(fields.amount)]);
+  params.push(['cu', 'INR']);
+  if (fields.reference) params.push(['tr', fields.reference]);
+  if (fields.message) params.push(['tn', fields.message]);
+
+  // UPI apps expect the "@" in the payee address unescaped
+  const query = params
+    .map(([key, value]) => `${key}=${encodeURIComponent(value).replace(/%40/g, '@')}`)
+    .join('&');
+
+  return `upi://pay?${query}`;
+};
+
+const swissReference = (fields: PayloadFields) => {
+  const reference = (fields.reference || '').replace(/\s+/g, '').toUpperCase();
+  if (!reference) return { type: 'NON', value: '' };
+  if (reference.startsWith('RF')) return { type: 'SCOR', value: reference };
+  return { type: 'QRR', value: reference };
+};
+
+// Swiss Payments Code v2.0 ("QR-bill") with a structured creditor address
+const buildSwissQrBill = (fields: PayloadFields) => {
+  const reference = swissReference(fields);
+
+  return [
+    'SPC',
+    '0200',
+    '1',  // UTF-8
+    normalizeIban(fields.iban || ''),
+    'S',
+    fields.name || '',
+    fields.street || '',
+    fields.buildingNumber || '',
+    fields.postalCode || '',
+    fields.town || '',
+    (fields.country || 'CH').toUpperCase(),
+    '', '', '', '', '', '', '',  // Ultimate creditor (reserved)
+    formatAmount(fields.amount || ''),
+    fields.currency || DONATION_CURRENCIES.swiss[0],
+    '', '', '', '', '', '', '',  // Debtor is filled in by the donor's banking app
+    reference.type,
+    reference.value,
+    fields.message || '',
+    'EPD'
+  ].join('\r\n');
+};
+
+const buildPayPal = (fields: PayloadFields) => {
+  const amount = fields.amount ? `/${formatAmount(fields.amount)}${fields.currency || DONATION_CURRENCIES.paypal[0]}` : '';
+  return `https://paypal.me/${encodeURIComponent(fields.handle || '')}${amount}`;
+};
+
+const buildVenmo = (fields: PayloadFields) => {
+  const params = new URLSearchParams({ txn: 'pay' });
+  if (fields.amount) params.set('amount', formatAmount(fields.amount));
+  if (fields.message) params.set('note', fields.message);
+  return `https://venmo.com/${encodeURIComponent((fields.handle || '').replace(/^@/, ''))}?${params.toString()}`;
+};
+
+export const buildDonationPayload = (fields: PayloadFields): string => {
+  switch (fields.scheme as DonationScheme) {
+    case 'upi':
+      return buildUpi(fields);
+    case 'swiss':
+      return buildSwissQrBill(fields);
+    case 'paypal':
+      return buildPayPal(fields);
+    case 'venmo':
+      return buildVenmo(fields);
+    case 'epc':
+    default:
+      return buildEpc(fields);
+  }
+};
+
+export const validateDonation = (fields: PayloadFields): Record<string, LocalizedMessage> => {
+  const errors: Record<string, LocalizedMessage> = {};
+  const scheme = fields.scheme as DonationScheme;
+
+  if (fields.amount && (!amountRegex.test(fields.amount) || Number(fields.amount) <= 0)) {
+    errors.amount = { key: 'donation.error.amountInvalid' };
+  }
+
+  if (scheme === 'epc' || scheme === 'swiss' || scheme === 'upi') {
+    if (!fields.name?.trim()) {
+      errors.name = { key: 'donation.error.nameRequired' };
+    } else if (fields.name.length > (scheme === 'upi' ? 99 : 70)) {
+      errors.name = { key: 'donation.error.nameTooLong' };
+    }
+  }
+
+  if (scheme === 'epc' || scheme === 'swiss') {
+    const iban = normalizeIban(fields.iban || '');
+    if (!iban) {
+      errors.iban = { key: 'donation.error.ibanRequired' };
+    } else if (!isValidIban(iban)) {
+      errors.iban = { key: 'donation.error.ibanInvalid' };
+    }
+  }
+
+  if (scheme === 'epc') {
+    if (fields.bic && !isValidBic(fields.bic)) {
+      errors.bic = { key: 'donation.error.bicInvalid' };
+    }
+    const reference = (fields.reference || '').replace(/\s+/g, '').toUpperCase();
+    if (reference.startsWith('RF')) {
+      if (!isValidCreditorReference(reference)) {
+        errors.reference = { key: 'donation.error.rfReference' };
+      }
+      if (fields.message && fields.message.length > 70) {
+        errors.message = { key: 'donation.error.rfMessageTooLong' };
+      }
+    } else if (epcRemittanceText(fields).length > 140) {
+      errors.message = { key: 'donation.error.remittanceTooLong' };
+    }
+    if (fields.amount && Number(fields.amount) > 999999999.99) {
+      errors.amount = { key: 'donation.error.amountTooLarge' };
+    }
+  }
+
+  if (scheme === 'swiss') {
+    const iban = normalizeIban(fields.iban || '');
+    if (!errors.iban && !/^(CH|LI)/.test(iban)) {
+      errors.iban = { key: 'donation.error.swissIban' };
+    }
+    ['postalCode', 'town'].forEach((name) => {
+      if (!fields[name]?.trim()) errors[name] = { key: 'donation.error.swissRequired' };
+    });
+    if (fields.currency && !DONATION_CURRENCIES.swiss.includes(fields.currency)) {
+      errors.currency = { key: 'donation.error.swissCurrency' };
+    }
+    const reference = swissReference(fields);
+    if (!errors.iban && reference.type === 'QRR') {
+      if (!isQrIban(iban)) {
+        errors.reference = { key: 'donation.error.qrReferenceNeedsQrIban' };
+      } else if (!isValidQrReference(reference.value)) {
+        errors.reference = { key: 'donation.error.qrReferenceInvalid' };
+      }
+    } else if (reference.type === 'SCOR') {
+      if (!errors.iban && isQrIban(iban)) {
+        errors.reference = { key: 'donation.error.qrIbanNotRf' };
+      } else if (!isValidCreditorReference(reference.value)) {
+        errors.reference = { key: 'donation.error.rfReference' };
+      }
+    } else if (!errors.iban && reference.type === 'NON' && isQrIban(iban)) {
+      errors.reference = { key: 'donation.error.qrIbanReference' };
+    }
+    if (fields.message && fields.message.length > 140) {
+      errors.message = { key: 'donation.error.messageTooLong' };
+    }
+  }
+
+  if (scheme === 'upi') {
+    if (!fields.vpa?.trim()) {
+      errors.vpa = { key: 'donation.error.vpaRequired' };
+    } else if (!vpaRegex.test(fields.vpa)) {
+      errors.vpa = { key: 'donation.error.vpaInvalid' };
+    }
+  }
+
+  if (scheme === 'paypal' && fields.currency && !DONATION_CURRENCIES.paypal.includes(fields.currency)) {
+    errors.currency = { key: 'donation.error.paypalCurrency' };
+  }
+
+  if (scheme === 'paypal' || scheme === 'venmo') {
+    const handle = (fields.handle || '').replace(/^@/, '');
+    if (!handle) {
+      errors.handle = { key: 'donation.error.handleRequired' };
+    } else if (!handleRegex.test(handle)) {
+      errors.handle = { key: 'donation.error.handleInvalid' };
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,32 @@
+const SLUG_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+const SLUG_LENGTH = 7;
+
+// Public origin that serves /r/:slug. In production this points at the
+// redirect Edge Function; locally the app forwards the route to the function.
+const redirectBaseUrl = (import.meta.env.VITE_REDIRECT_BASE_URL || window.location.origin).replace(/\/+$/, '');
+
+export const REDIRECT_PATH_PREFIX = '/r/';
+
+// Short, unambiguous slug (no 0/O, 1/l/I) so printed URLs can be typed by hand
+export const generateSlug = (length: number = SLUG_LENGTH): string => {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => SLUG_ALPHABET[byte % SLUG_ALPHABET.length]).join('');
+};
+
+export const buildRedirectUrl = (slug: string): string => `${redirectBaseUrl}${REDIRECT_PATH_PREFIX}${slug}`;
+
+export const parseRedirectSlug = (pathname: string): string | null => {
+  if (!pathname.startsWith(REDIRECT_PATH_PREFIX)) return null;
+  const slug = pathname.slice(REDIRECT_PATH_PREFIX.length).replace(/\/+$/, '');
+  return /^[A-Za-z0-9_-]{4,64}$/.test(slug) ? slug : null;
+};
+
+export const isValidTargetUrl = (value: string): boolean => {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,63 @@
+import { ExemptOrganization } from './supabase';
+import type { MessageKey, Translator } from './i18n';
+
+// Publication 78 deductibility status codes
+const PUB78_STATUS_LABELS: Record<string, MessageKey> = {
+  PC: 'ein.pub78.PC',
+  POF: 'ein.pub78.POF',
+  PF: 'ein.pub78.PF',
+  GROUP: 'ein.pub78.GROUP',
+  LODGE: 'ein.pub78.LODGE',
+  EO: 'ein.pub78.EO',
+  FORGN: 'ein.pub78.FORGN',
+  SO: 'ein.pub78.SO',
+  SONFI: 'ein.pub78.SONFI',
+  SOUNK: 'ein.pub78.SOUNK',
+  UNKWN: 'ein.pub78.UNKWN'
+};
+
+// The nine EIN digits, or null unless the value looks like an EIN
+// (XX-XXXXXXX, with or without the hyphen)
+export const getEinDigits = (value: string) => {
+  const trimmed = value.trim();
+  return /^\d{2}-?\d{7}$/.test(trimmed) ? trimmed.replace('-', '') : null;
+};
+
+// Ignores case, punctuation, "&", a leading "The" and corporate suffixes.
+// Mirrors public.normalize_organization_name, which verifies organizations.
+export const normalizeOrganizationName = (value: string) =>
+  ` ${value.toUpperCase().replace(/&/g, ' AND ').replace(/[^A-Z0-9]+/g, ' ').trim()} `
+    .replace(/^ THE /, ' ')
+    .replace(/ (INC|INCORPORATED|CORP|CORPORATION|CO|LTD|LLC) $/, ' ')
+    .trim();
+
+export const namesMatch = (a: string, b: string) => normalizeOrganizationName(a) === normalizeOrganizationName(b);
+
+export const formatLocation = ({ city, state, country }: ExemptOrganization) => {
+  const place = [city, state].filter(Boolean).join(', ');
+  const foreign = country && !/^(US|USA|United States)$/i.test(country) ? country : '';
+  return [place, foreign].filter(Boolean).join(', ');
+};
+
+// Publication 78 lists organizations eligible for deductible contributions;
+// the BMF code covers the rest
+export const getDeductibility = (
+  organization: ExemptOrganization,
+  t: Translator['t']
+): { deductible: boolean | null; label: string } => {
+  if (organization.pub78_codes.length) {
+    const kinds = organization.pub78_codes.map((code) => (PUB78_STATUS_LABELS[code] ? t(PUB78_STATUS_LABELS[code]) : code)).join(', ');
+    return { deductible: true, label: t('ein.deductibleAs', { kinds }) };
+  }
+
+  switch (organization.bmf_deductibility) {
+    case '1':
+      return { deductible: true, label: t('ein.deductible') };
+    case '4':
+      return { deductible: true, label: t('ein.deductibleByTreaty') };
+    case '2':
+      return { deductible: false, label: t('ein.notDeductible') };
+    default:
+      return { deductible: null, label: t('ein.deductibilityUnknown') };
+  }
+};
@@ -0,0 +1,206 @@
+import jsPDF from 'jspdf';
+import JSZip from 'jszip';
+import { ErrorCorrectionLevel, getQRMatrix } from './qrMatrix';
+import { FlyerContent, FlyerLayout, FlyerText, PX_PER_INCH, QRCodeContent, layoutFlyer, layoutQRCode, loadImage } from './flyerLayout';
+import { hexToRgb } from './color';
+import { LogoSettings } from './logoPlacement';
+import { QRStyle, getStyleColors } from './qrStyle';
+import { FlyerFonts } from './flyerFonts';
+import { FlyerHeadings, FlyerTranslation, getFlyerLanguage } from './flyerLanguages';
+import { renderFlyerSVG, renderFlyerEPS, drawFlyerToPDF } from './vectorExport';
+import { renderFlyerToCanvas, canvasToBlob, setImageDpi } from './rasterExport';
+import { ScanReport, verifyScannability } from './scanVerification';
+import { getPrintTemplate, renderPrintTemplate } from './printTemplates';
+import {
+  BLEED,
+  DEFAULT_EXPORT_SETTINGS,
+  ExportSettings,
+  PAGE_MARGIN,
+  createPrintPDF,
+  drawPrinterMarks,
+  getTrimBox
+} from './printSettings';
+
+export type DownloadFormat = 'png' | 'jpg' | 'pdf' | 'svg' | 'eps';
+
+export const DOWNLOAD_FORMATS: DownloadFormat[] = ['png', 'jpg', 'pdf', 'svg', 'eps'];
+
+// Everything needed to reproduce one flyer, independent of component state
+export interface FlyerDesign {
+  value: string;
+  qrColor: string;
+  bgColor: string;
+  style: QRStyle;
+  size: number;
+  level: ErrorCorrectionLevel;
+  logo: string | null;
+  logoSettings: LogoSettings;
+  pageColor: string;  // Flyer background around the QR card
+  fonts: FlyerFonts;
+  language: string;  // Of the headings, description and purpose
+  headings: FlyerHeadings;
+  orgDescription: string;
+  urlPurpose: string;
+  translations: FlyerTranslation[];
+  textLanguages: string[];  // Printed in this order; empty prints the primary language
+}
+
+export type FlyerDesignColors = Pick<FlyerDesign, 'qrColor' | 'bgColor' | 'pageColor' | 'style' | 'logo' | 'logoSettings'>;
+
+// Every color the design is drawn with, for the brand palette check
+export const getDesignColors = (design: FlyerDesignColors): string[] => [
+  design.qrColor,
+  design.bgColor,
+  design.pageColor,
+  ...getStyleColors(design.qrColor, design.style),
+  ...(design.logo && design.logoSettings.backplate ? [design.logoSettings.backplateColor] : []),
+  ...(design.logo && design.logoSettings.border > 0 ? [design.logoSettings.borderColor] : [])
+];
+
+// Every language the design has text for, primary first
+export const getDesignLanguages = (design: FlyerDesign): string[] => [
+  design.language,
+  ...design.translations.map(({ language }) => language).filter((language) => language !== design.language)
+];
+
+const getFlyerText = (design: FlyerDesign, language: string): FlyerText | null => {
+  const { direction } = getFlyerLanguage(language);
+  if (language === design.language) {
+    return { headings: design.headings, orgDescription: design.orgDescription, urlPurpose: design.urlPurpose, direction };
+  }
+  const translation = design.translations.find((item) => item.language === language);
+  return translation
+    ? { headings: translation.headings, orgDescription: translation.orgDescription, urlPurpose: translation.urlPurpose, direction }
+    : null;
+};
+
+const getFlyerTexts = (design: FlyerDesign): FlyerText[] =>
+  (design.textLanguages.length ? design.textLanguages : [design.language])
+    .map((language) => getFlyerText(design, language))
+    .filter((text): text is FlyerText => !!text);
+
+const buildQRCodeContent = async (design: FlyerDesign, qrSize: number): Promise<QRCodeContent> => ({
+  matrix: getQRMatrix(design.value, design.level),
+  level: design.level,
+  qrColor: design.qrColor,
+  bgColor: design.bgColor,
+  style: design.style,
+  qrSize,
+  logo: design.logo ? await loadImage(design.logo) : null,
+  logoSettings: design.logoSettings
+});
+
+const buildFlyerContent = async (design: FlyerDesign, qrSize: number): Promise<FlyerContent> => ({
+  ...await buildQRCodeContent(design, qrSize),
+  pageColor: design.pageColor,
+  fonts: design.fonts,
+  texts: getFlyerTexts(design)
+});
+
+export const buildFlyerLayout = async (design: FlyerDesign): Promise<FlyerLayout> =>
+  layoutFlyer(await buildFlyerContent(design, design.size * 2)); // Double the size for better quality
+
+export const buildQRCodeLayout = async (design: FlyerDesign): Promise<FlyerLayout> =>
+  layoutQRCode(await buildQRCodeContent(design, design.size));
+
+export const createFlyerPDF = (settings: ExportSettings = DEFAULT_EXPORT_SETTINGS): jsPDF => createPrintPDF(settings);
+
+// Centers the layout on the current page inside 0.5" margins. The page
+// background runs to the trim edge, or into the bleed when bleed is on.
+export const addFlyerToPDF = (pdf: jsPDF, layout: FlyerLayout, settings: ExportSettings = DEFAULT_EXPORT_SETTINGS) => {
+  const trim = getTrimBox(settings);
+
+  if (layout.background) {
+    const extra = settings.bleed ? BLEED : 0;
+    const { r, g, b } = hexToRgb(layout.background);
+    pdf.setFillColor(r, g, b);
+    pdf.rect(trim.x - extra, trim.y - extra, trim.width + extra * 2, trim.height + extra * 2, 'F');
+  }
+
+  const maxWidth = trim.width - (2 * PAGE_MARGIN);
+  const maxHeight = trim.height - (2 * PAGE_MARGIN);
+
+  const scale = Math.min(maxWidth / layout.width, maxHeight / layout.height);
+  const x = trim.x + (trim.width - layout.width * scale) / 2;
+  const y = trim.y + (trim.height - layout.height * scale) / 2;
+
+  drawFlyerToPDF(pdf, layout, x, y, scale);
+
+  if (settings.bleed) drawPrinterMarks(pdf, trim);
+};
+
+export const exportFlyer = async (
+  design: FlyerDesign,
+  format: DownloadFormat,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS
+): Promise<Blob> => {
+  const layout = await buildFlyerLayout(design);
+
+  switch (format) {
+    case 'pdf': {
+      const pdf = createFlyerPDF(settings);
+      addFlyerToPDF(pdf, layout, settings);
+      return pdf.output('blob');
+    }
+    case 'svg':
+      return new Blob([renderFlyerSVG(layout)], { type: 'image/svg+xml' });
+    case 'eps':
+      return new Blob([await renderFlyerEPS(layout, settings.dpi)], { type: 'application/postscript' });
+    case 'png':
+    case 'jpg': {
+      // Layout units are CSS pixels at 96 per inch. JPEG has no alpha
+      // channel, so only PNG can drop the page background.
+      const transparent = format === 'png' && settings.transparentPng;
+      const canvas = await renderFlyerToCanvas(
+        transparent ? { ...layout, background: null } : layout,
+        settings.dpi / PX_PER_INCH
+      );
+      const blob = format === 'png'
+        ? await canvasToBlob(canvas, 'image/png')
+        : await canvasToBlob(canvas, 'image/jpeg', 1.0);
+      return setImageDpi(blob, settings.dpi);
+    }
+  }
+};
+
+// Print templates size the code to fit each cell, so the design's size is ignored
+export const exportPrintTemplate = async (design: FlyerDesign, templateId: string, copies: number): Promise<Blob> => {
+  const template = getPrintTemplate(templateId);
+  if (!template) throw new Error(`Unknown print template: ${templateId}`);
+
+  const pdf = renderPrintTemplate(template, await buildFlyerContent(design, design.size), copies);
+  return pdf.output('blob');
+};
+
+// One file per language, zipped as <basename>-<language code>.<extension>
+export const exportPerLanguage = async (
+  design: FlyerDesign,
+  basename: string,
+  extension: string,
+  render: (design: FlyerDesign) => Promise<Blob>
+): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const language of getDesignLanguages(design)) {
+    zip.file(`${basename}-${language}.${extension}`, await render({ ...design, textLanguages: [language] }));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// Rasterizes the QR card at export resolution and runs the decode checks on it
+export const verifyDesignScannability = async (design: FlyerDesign): Promise<ScanReport> => {
+  const layout = await buildQRCodeLayout({ ...design, size: design.size * 2 });
+  const canvas = await renderFlyerToCanvas(layout, 1);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  return verifyScannability(ctx.getImageData(0, 0, canvas.width, canvas.height), design.value);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = href;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(href), 0);
+};
@@ -0,0 +1,46 @@
+// Flyer text is limited to the standard PDF/PostScript families, which every
+// PDF viewer and RIP has built in, so nothing needs to be embedded.
+export type FlyerFont = 'helvetica' | 'times' | 'courier';
+
+export interface FlyerFonts {
+  heading: FlyerFont;
+  body: FlyerFont;
+}
+
+interface FlyerFontInfo {
+  value: FlyerFont;
+  label: string;
+  css: string;                               // Canvas, SVG and on-screen preview
+  postscript: { normal: string; bold: string };  // EPS
+}
+
+export const FLYER_FONTS: FlyerFontInfo[] = [
+  {
+    value: 'helvetica',
+    label: 'Helvetica (sans-serif)',
+    css: 'Helvetica, Arial, sans-serif',
+    postscript: { normal: 'Helvetica', bold: 'Helvetica-Bold' }
+  },
+  {
+    value: 'times',
+    label: 'Times (serif)',
+    css: '"Times New Roman", Times, serif',
+    postscript: { normal: 'Times-Roman', bold: 'Times-Bold' }
+  },
+  {
+    value: 'courier',
+    label: 'Courier (monospace)',
+    css: '"Courier New", Courier, monospace',
+    postscript: { normal: 'Courier', bold: 'Courier-Bold' }
+  }
+];
+
+export const DEFAULT_FLYER_FONTS: FlyerFonts = { heading: 'helvetica', body: 'helvetica' };
+
+const getFontInfo = (font: FlyerFont) => FLYER_FONTS.find(({ value }) => value === font) ?? FLYER_FONTS[0];
+
+export const getFontFamily = (font: FlyerFont) => getFontInfo(font).css;
+
+export const getPostScriptFont = (font: FlyerFont, bold: boolean) => getFontInfo(font).postscript[bold ? 'bold' : 'normal'];
+
+export const isFlyerFont = (value: unknown): value is FlyerFont => FLYER_FONTS.some((font) => font.value === value);
@@ -0,0 +1,130 @@
+// Languages a flyer's text can be written in. A design has one primary
+// language and any number of translations; each carries its own description,
+// purpose and section headings.
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface FlyerHeadings {
+  about: string;
+  purpose: string;
+}
+
+export interface FlyerLanguage {
+  code: string;        // BCP 47 language tag
+  name: string;        // In English, for prompts
+  nativeName: string;  // Shown in pickers
+  direction: TextDirection;
+  headings: FlyerHeadings;
+}
+
+export interface FlyerTranslation {
+  language: string;
+  headings: FlyerHeadings;
+  orgDescription: string;
+  urlPurpose: string;
+}
+
+const registry = new Map<string, FlyerLanguage>();
+
+// New languages only need to be registered here; the pickers list whatever is
+// in the registry
+export const registerFlyerLanguage = (language: FlyerLanguage) => {
+  registry.set(language.code, language);
+};
+
+export const getFlyerLanguages = (): FlyerLanguage[] => Array.from(registry.values());
+
+export const DEFAULT_FLYER_LANGUAGE = 'en';
+
+// Unknown codes fall back to English
+export const getFlyerLanguage = (code: string): FlyerLanguage =>
+  registry.get(code) ?? (registry.get(DEFAULT_FLYER_LANGUAGE) as FlyerLanguage);
+
+export const getDefaultHeadings = (code: string): FlyerHeadings => ({ ...getFlyerLanguage(code).headings });
+
+export const isDefaultHeadings = (code: string, headings: FlyerHeadings) => {
+  const defaults = getFlyerLanguage(code).headings;
+  return headings.about === defaults.about && headings.purpose === defaults.purpose;
+};
+
+export const createTranslation = (code: string): FlyerTranslation => ({
+  language: code,
+  headings: getDefaultHeadings(code),
+  orgDescription: '',
+  urlPurpose: ''
+});
+
+// Headings stored with a saved code; null uses the language's defaults
+export const parseStoredHeadings = (value: unknown, code: string): FlyerHeadings => {
+  const defaults = getDefaultHeadings(code);
+  if (!value || typeof value !== 'object') return defaults;
+  const { about, purpose } = value as Record<string, unknown>;
+  return {
+    about: typeof about === 'string' ? about : defaults.about,
+    purpose: typeof purpose === 'string' ? purpose : defaults.purpose
+  };
+};
+
+// Translations stored with a saved code, skipping anything malformed
+export const parseStoredTranslations = (value: unknown): FlyerTranslation[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object') return [];
+    const { language, headings, orgDescription, urlPurpose } = item as Record<string, unknown>;
+    if (typeof language !== 'string' || !registry.has(language)) return [];
+    return [{
+      language,
+      headings: parseStoredHeadings(headings, language),
+      orgDescription: typeof orgDescription === 'string' ? orgDescription : '',
+      urlPurpose: typeof urlPurpose === 'string' ? urlPurpose : ''
+    }];
+  });
+};
+
+registerFlyerLanguage({
+  code: 'en',
+  name: 'English',
+  nativeName: 'English',
+  direction: 'ltr',
+  headings: { about: 'About the Organization', purpose: 'Purpose' }
+});
+
+registerFlyerLanguage({
+  code: 'es',
+  name: 'Spanish',
+  nativeName: 'Español',
+  direction: 'ltr',
+  headings: { about: 'Acerca de la organización', purpose: 'Propósito' }
+});
+
+registerFlyerLanguage({
+  code: 'vi',
+  name: 'Vietnamese',
+  nativeName: 'Tiếng Việt',
+  direction: 'ltr',
+  headings: { about: 'Giới thiệu về tổ chức', purpose: 'Mục đích' }
+});
+
+registerFlyerLanguage({
+  code: 'fr',
+  name: 'French',
+  nativeName: 'Français',
+  direction: 'ltr',
+  headings: { about: "À propos de l'organisation", purpose: 'Objectif' }
+});
+
+registerFlyerLanguage({
+  code: 'ar',
+  name: 'Arabic',
+  nativeName: 'العربية',
+  direction: 'rtl',
+  headings: { about: 'عن المنظمة', purpose: 'الغرض' }
+});
+
+registerFlyerLanguage({
+  code: 'he',
+  name: 'Hebrew',
+  nativeName: 'עברית',
+  direction: 'rtl',
+  headings: { about: 'אודות הארגון', purpose: 'מטרה' }
+});
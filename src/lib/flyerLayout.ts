@@ -0,0 +1,380 @@
+import { ErrorCorrectionLevel, QRMatrix, QUIET_ZONE_MODULES } from './qrMatrix';
+import { LogoSettings, computeLogoBox, excavateMatrix } from './logoPlacement';
+import { QRShapeLayer, QRStyle, buildQRShapes } from './qrStyle';
+import { FlyerFont, FlyerFonts, getFontFamily } from './flyerFonts';
+import { FlyerHeadings, TextDirection } from './flyerLanguages';
+
+// Layout units are CSS pixels; renderers scale them to their own units.
+export const PX_PER_INCH = 96;
+
+const PAGE_PADDING = 32;
+const SECTION_GAP = 32;
+const QR_BOX_PADDING = 32;
+const TEXT_MAX_WIDTH = 768;
+const LOGO_MAX_WIDTH = 200;
+const HEADING_SIZE = 30;
+const BODY_SIZE = 20;
+const BODY_LINE_HEIGHT = 1.625;
+const HEADING_COLOR = '#111827';
+const BODY_COLOR = '#374151';
+const DIVIDER_COLOR = '#d1d5db';
+
+export interface LoadedImage {
+  href: string;
+  width: number;
+  height: number;
+}
+
+export type FlyerElement =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill: string; radius?: number; stroke?: string; strokeWidth?: number }
+  | { type: 'qr'; x: number; y: number; moduleSize: number; shapes: QRShapeLayer[] }
+  | { type: 'image'; x: number; y: number; width: number; height: number; image: LoadedImage }
+  | { type: 'text'; x: number; y: number; text: string; font: FlyerFont; fontSize: number; bold: boolean; color: string; direction: TextDirection };
+
+export interface FlyerLayout {
+  width: number;
+  height: number;
+  background: string | null;  // null leaves the page transparent
+  elements: FlyerElement[];
+}
+
+export interface QRCodeContent {
+  matrix: QRMatrix;
+  level: ErrorCorrectionLevel;
+  qrColor: string;
+  bgColor: string;
+  style: QRStyle;
+  qrSize: number;
+  logo: LoadedImage | null;
+  logoSettings: LogoSettings;
+}
+
+// The flyer text in one language
+export interface FlyerText {
+  headings: FlyerHeadings;
+  orgDescription: string;
+  urlPurpose: string;
+  direction: TextDirection;
+}
+
+export interface FlyerContent extends QRCodeContent {
+  pageColor: string;
+  fonts: FlyerFonts;
+  texts: FlyerText[];  // One per language; a second one makes a bilingual flyer
+}
+
+interface TextSection {
+  heading: string;
+  body: string;
+  direction: TextDirection;
+}
+
+const getSections = (text: FlyerText, include: 'all' | 'purpose' = 'all'): TextSection[] => {
+  const { headings, orgDescription, urlPurpose, direction } = text;
+  return [
+    include === 'all' && orgDescription ? { heading: headings.about, body: orgDescription, direction } : null,
+    urlPurpose ? { heading: headings.purpose, body: urlPurpose, direction } : null
+  ].filter((section): section is TextSection => !!section);
+};
+
+export const loadImage = (src: string): Promise<LoadedImage> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ href: src, width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Could not load image'));
+    img.src = src;
+  });
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+export const measureText = (text: string, font: FlyerFont, fontSize: number, bold: boolean): number => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) return text.length * fontSize * 0.5;
+
+  measureContext.font = `${bold ? 'bold ' : ''}${fontSize}px ${getFontFamily(font)}`;
+  return measureContext.measureText(text).width;
+};
+
+export const wrapText = (text: string, font: FlyerFont, fontSize: number, bold: boolean, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  text.split(/\n+/).forEach((paragraph) => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, font, fontSize, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    if (line) lines.push(line);
+  });
+
+  return lines;
+};
+
+const isLogoEmbedded = (content: QRCodeContent) => !!content.logo && content.logoSettings.placement === 'center';
+
+// The QR code on its background card, with the logo embedded in the middle of
+// the symbol when requested. (x, y) is the card's top-left corner.
+const layoutQRBlock = (content: QRCodeContent, x: number, y: number, padding: number): FlyerElement[] => {
+  const { matrix, level, qrColor, bgColor, style, qrSize, logo, logoSettings } = content;
+  const moduleSize = qrSize / (matrix.size + QUIET_ZONE_MODULES * 2);
+  const boxSize = qrSize + padding * 2;
+  const originX = x + padding + QUIET_ZONE_MODULES * moduleSize;
+  const originY = y + padding + QUIET_ZONE_MODULES * moduleSize;
+
+  const elements: FlyerElement[] = [
+    { type: 'rect', x, y, width: boxSize, height: boxSize, fill: bgColor, radius: 8 }
+  ];
+
+  if (!logo || !isLogoEmbedded(content)) {
+    elements.push({ type: 'qr', x: originX, y: originY, moduleSize, shapes: buildQRShapes(matrix, qrColor, style) });
+    return elements;
+  }
+
+  const box = computeLogoBox(matrix.size, logoSettings, level, logo.width / logo.height);
+  elements.push({ type: 'qr', x: originX, y: originY, moduleSize, shapes: buildQRShapes(excavateMatrix(matrix, box), qrColor, style) });
+
+  if (logoSettings.backplate || logoSettings.border > 0) {
+    const plateSize = box.plate.size * moduleSize;
+    const strokeWidth = logoSettings.border * moduleSize;
+    elements.push({
+      type: 'rect',
+      // Keep the border inside the cleared area
+      x: originX + box.plate.x * moduleSize + strokeWidth / 2,
+      y: originY + box.plate.y * moduleSize + strokeWidth / 2,
+      width: plateSize - strokeWidth,
+      height: plateSize - strokeWidth,
+      fill: logoSettings.backplate ? logoSettings.backplateColor : bgColor,
+      radius: plateSize * logoSettings.radius,
+      ...(strokeWidth > 0 && { stroke: logoSettings.borderColor, strokeWidth })
+    });
+  }
+
+  elements.push({
+    type: 'image',
+    x: originX + box.logo.x * moduleSize,
+    y: originY + box.logo.y * moduleSize,
+    width: box.logo.width * moduleSize,
+    height: box.logo.height * moduleSize,
+    image: logo
+  });
+
+  return elements;
+};
+
+// Just the QR card, used for the on-screen preview
+export const layoutQRCode = (content: QRCodeContent, padding: number = 16): FlyerLayout => {
+  const size = content.qrSize + padding * 2;
+  return {
+    width: size,
+    height: size,
+    background: content.bgColor,
+    elements: layoutQRBlock(content, 0, 0, padding)
+  };
+};
+
+// Logo (unless embedded in the code), QR code on its background card, then the
+// "About the Organization" and "Purpose" sections of each language, separated
+// by a rule, all centered.
+export const layoutFlyer = (content: FlyerContent): FlyerLayout => {
+  const { qrSize, logo, fonts } = content;
+
+  const qrBoxSize = qrSize + QR_BOX_PADDING * 2;
+  const blocks = content.texts.map((text) => getSections(text)).filter((sections) => sections.length > 0);
+  const hasText = blocks.length > 0;
+  const logoAbove = !!logo && !isLogoEmbedded(content);
+  const contentWidth = Math.max(qrBoxSize, hasText ? TEXT_MAX_WIDTH : 0, logoAbove ? LOGO_MAX_WIDTH : 0);
+  const width = contentWidth + PAGE_PADDING * 2;
+  const centerX = width / 2;
+
+  const elements: FlyerElement[] = [];
+  let y = PAGE_PADDING;
+
+  if (logo && logoAbove) {
+    const logoWidth = Math.min(LOGO_MAX_WIDTH, logo.width);
+    const logoHeight = logoWidth * (logo.height / logo.width);
+    elements.push({ type: 'image', x: centerX - logoWidth / 2, y, width: logoWidth, height: logoHeight, image: logo });
+    y += logoHeight + SECTION_GAP * 2;
+  }
+
+  elements.push(...layoutQRBlock(content, centerX - qrBoxSize / 2, y, QR_BOX_PADDING));
+  y += qrBoxSize;
+
+  const addSection = ({ heading, body, direction }: TextSection) => {
+    y += SECTION_GAP;
+    y += HEADING_SIZE;
+    elements.push({ type: 'text', x: centerX, y, text: heading, font: fonts.heading, fontSize: HEADING_SIZE, bold: true, color: HEADING_COLOR, direction });
+    y += 16;
+
+    const lineHeight = BODY_SIZE * BODY_LINE_HEIGHT;
+    wrapText(body, fonts.body, BODY_SIZE, false, TEXT_MAX_WIDTH).forEach((line) => {
+      y += lineHeight;
+      elements.push({ type: 'text', x: centerX, y: y - (lineHeight - BODY_SIZE) / 2, text: line, font: fonts.body, fontSize: BODY_SIZE, bold: false, color: BODY_COLOR, direction });
+    });
+  };
+
+  blocks.forEach((sections, index) => {
+    if (index > 0) {
+      y += SECTION_GAP * 2;
+      elements.push({ type: 'rect', x: centerX - TEXT_MAX_WIDTH / 4, y, width: TEXT_MAX_WIDTH / 2, height: 1, fill: DIVIDER_COLOR });
+    }
+    sections.forEach((section, sectionIndex) => {
+      if (sectionIndex > 0) y += SECTION_GAP;
+      addSection(section);
+    });
+  });
+
+  return { width, height: y + PAGE_PADDING, background: content.pageColor, elements };
+};
+
+export interface PrintCellOptions {
+  arrangement: 'stacked' | 'side-by-side';
+  padding: number;    // Space between the cell edge and its content
+  qrPadding: number;  // Background card around the code
+  text: 'all' | 'purpose' | 'none';
+  headings: boolean;
+  maxBodySize: number;
+  minBodySize: number;
+}
+
+type TextElement = Extract<FlyerElement, { type: 'text' }>;
+type ImageElement = Extract<FlyerElement, { type: 'image' }>;
+
+interface TextBlock {
+  elements: TextElement[];
+  height: number;
+}
+
+// Largest font size at which the sections fit the box; at the minimum size
+// the text is cut off with an ellipsis instead
+const fitTextBlock = (
+  sections: TextSection[],
+  centerX: number,
+  maxWidth: number,
+  maxHeight: number,
+  fonts: FlyerFonts,
+  options: PrintCellOptions
+): TextBlock => {
+  const build = (bodySize: number, truncate: boolean): TextBlock => {
+    const headingSize = Math.round(bodySize * 1.3);
+    const lineHeight = bodySize * 1.4;
+    const elements: TextElement[] = [];
+    let y = 0;
+
+    const cutOff = () => {
+      const last = elements[elements.length - 1];
+      if (last && !last.bold) last.text = `${last.text.replace(/\s*\S*$/, '')}...`;
+      return { elements, height: y };
+    };
+
+    for (const [index, { heading, body, direction }] of sections.entries()) {
+      const sectionGap = index > 0 ? bodySize * 0.8 : 0;
+
+      if (options.headings) {
+        if (truncate && y + sectionGap + headingSize * 1.25 + lineHeight > maxHeight) return cutOff();
+        y += sectionGap + headingSize * 1.25;
+        elements.push({ type: 'text', x: centerX, y: y - headingSize * 0.25, text: heading, font: fonts.heading, fontSize: headingSize, bold: true, color: HEADING_COLOR, direction });
+        y += bodySize * 0.3;
+      } else {
+        y += sectionGap;
+      }
+
+      for (const line of wrapText(body, fonts.body, bodySize, false, maxWidth)) {
+        if (truncate && y + lineHeight > maxHeight) return cutOff();
+        y += lineHeight;
+        elements.push({ type: 'text', x: centerX, y: y - (lineHeight - bodySize) / 2, text: line, font: fonts.body, fontSize: bodySize, bold: false, color: BODY_COLOR, direction });
+      }
+    }
+
+    return { elements, height: y };
+  };
+
+  for (let size = options.maxBodySize; size > options.minBodySize; size--) {
+    const block = build(size, false);
+    if (block.height <= maxHeight) return block;
+  }
+  return build(options.minBodySize, true);
+};
+
+const shiftElements = (elements: FlyerElement[], dy: number): FlyerElement[] =>
+  elements.map((element) => ({ ...element, y: element.y + dy }));
+
+// Places the logo, QR code and text inside a fixed-size cell such as a label,
+// business card or poster page
+export const layoutPrintCell = (content: FlyerContent, width: number, height: number, options: PrintCellOptions): FlyerLayout => {
+  const { logo } = content;
+  const { padding, qrPadding } = options;
+  const innerWidth = width - padding * 2;
+  const innerHeight = height - padding * 2;
+  const gap = Math.max(4, padding / 2);
+
+  const include = options.text;
+  const sections = include === 'none' ? [] : content.texts.flatMap((text) => getSections(text, include));
+  const logoAbove = !!logo && !isLogoEmbedded(content);
+  const hasText = sections.length > 0;
+
+  const logoElement = (maxWidth: number, maxHeight: number, centerX: number): ImageElement | null => {
+    if (!logo || !logoAbove) return null;
+    const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height, 1);
+    const logoWidth = logo.width * scale;
+    return { type: 'image', x: centerX - logoWidth / 2, y: 0, width: logoWidth, height: logo.height * scale, image: logo };
+  };
+
+  const qrBlock = (boxSize: number, x: number, y: number) =>
+    layoutQRBlock({ ...content, qrSize: Math.max(0, boxSize - qrPadding * 2) }, x, y, qrPadding);
+
+  const elements: FlyerElement[] = [];
+
+  if (options.arrangement === 'stacked') {
+    const centerX = width / 2;
+    const logoImage = logoElement(innerWidth, innerHeight * 0.15, centerX);
+    const logoHeight = logoImage ? logoImage.height + gap : 0;
+    const qrBoxSize = Math.min(innerWidth, innerHeight - logoHeight - (hasText ? innerHeight * 0.35 : 0));
+    const text = hasText
+      ? fitTextBlock(sections, centerX, innerWidth, innerHeight - logoHeight - qrBoxSize - gap, content.fonts, options)
+      : { elements: [], height: 0 };
+
+    const used = logoHeight + qrBoxSize + (hasText ? gap + text.height : 0);
+    let y = padding + (innerHeight - used) / 2;
+
+    if (logoImage) {
+      elements.push({ ...logoImage, y });
+      y += logoHeight;
+    }
+    elements.push(...qrBlock(qrBoxSize, centerX - qrBoxSize / 2, y));
+    y += qrBoxSize + gap;
+    elements.push(...shiftElements(text.elements, y));
+  } else {
+    const hasColumn = hasText || logoAbove;
+    const qrBoxSize = hasColumn ? Math.min(innerHeight, innerWidth * 0.45) : Math.min(innerHeight, innerWidth);
+    const qrX = hasColumn ? padding : (width - qrBoxSize) / 2;
+    elements.push(...qrBlock(qrBoxSize, qrX, (height - qrBoxSize) / 2));
+
+    if (hasColumn) {
+      const columnX = padding + qrBoxSize + gap * 2;
+      const columnWidth = width - padding - columnX;
+      const centerX = columnX + columnWidth / 2;
+      const logoImage = logoElement(columnWidth, innerHeight * (hasText ? 0.3 : 1), centerX);
+      const logoHeight = logoImage ? logoImage.height + (hasText ? gap : 0) : 0;
+      const text = hasText
+        ? fitTextBlock(sections, centerX, columnWidth, innerHeight - logoHeight, content.fonts, options)
+        : { elements: [], height: 0 };
+
+      let y = padding + (innerHeight - logoHeight - text.height) / 2;
+      if (logoImage) {
+        elements.push({ ...logoImage, y });
+        y += logoHeight;
+      }
+      elements.push(...shiftElements(text.elements, y));
+    }
+  }
+
+  return { width, height, background: content.pageColor, elements };
+};
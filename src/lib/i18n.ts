@@ -0,0 +1,120 @@
+import { Fragment, ReactNode, createContext, createElement, useContext } from 'react';
+import { getPreference, setPreference } from './localPreferences';
+import en from '../locales/en.json';
+import es from '../locales/es.json';
+import fr from '../locales/fr.json';
+
+// UI translations. English is the source catalog and defines every key; other
+// locales fall back to it key by key, so a missing translation shows English
+// rather than the raw key. `npm run i18n:check` lists what is missing.
+
+export type MessageKey = keyof typeof en;
+
+// A plain string, or plural forms picked by the `count` parameter
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageCatalog = Partial<Record<MessageKey, Message>>;
+
+// Numbers are formatted for the locale
+export type MessageParams = Record<string, string | number>;
+
+// A message reported by lib code, translated where it is shown
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export interface Locale {
+  code: string;        // BCP 47 language tag
+  nativeName: string;  // Shown in the switcher
+  messages: MessageCatalog;
+}
+
+const registry = new Map<string, Locale>();
+
+export const registerLocale = (locale: Locale) => {
+  registry.set(locale.code, locale);
+};
+
+export const getLocales = (): Locale[] => Array.from(registry.values());
+
+export const DEFAULT_LOCALE = 'en';
+
+const getLocale = (code: string): Locale => registry.get(code) ?? (registry.get(DEFAULT_LOCALE) as Locale);
+
+const LOCALE_PREFERENCE = 'locale';
+
+// The locale picked in this browser, else the first supported browser language
+export const getInitialLocale = (): string => {
+  const stored = getPreference(LOCALE_PREFERENCE);
+  if (stored && registry.has(stored)) return stored;
+
+  const browserLocale = (navigator.languages ?? [navigator.language])
+    .map((tag) => tag.split('-')[0].toLowerCase())
+    .find((code) => registry.has(code));
+  return browserLocale ?? DEFAULT_LOCALE;
+};
+
+export const storeLocale = (code: string) => setPreference(LOCALE_PREFERENCE, code);
+
+export interface Translator {
+  locale: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // For messages with markup: placeholders found in `nodes` are replaced by them
+  tNodes: (key: MessageKey, nodes: Record<string, ReactNode>, params?: MessageParams) => ReactNode;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+// Unregistered codes get English messages and formatting
+export const createTranslator = (requested: string): Translator => {
+  const { code, messages } = getLocale(requested);
+  const fallback = getLocale(DEFAULT_LOCALE).messages;
+  const pluralRules = new Intl.PluralRules(code);
+  const numberFormat = new Intl.NumberFormat(code);
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = messages[key] ?? fallback[key] ?? key;
+    const text = typeof message === 'string'
+      ? message
+      : message[pluralRules.select(Number(params.count ?? 0))] ?? message.other;
+
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numberFormat.format(value) : value;
+    });
+  };
+
+  const tNodes = (key: MessageKey, nodes: Record<string, ReactNode>, params?: MessageParams) => {
+    // Splitting on a captured group alternates text and placeholder names
+    const parts = t(key, params)
+      .split(/\{(\w+)\}/)
+      .map((part, index) => (index % 2 ? nodes[part] ?? `{${part}}` : part));
+    return createElement(Fragment, null, ...parts);
+  };
+
+  return {
+    locale: code,
+    t,
+    tNodes,
+    formatNumber: (value, options) => (options ? new Intl.NumberFormat(code, options) : numberFormat).format(value),
+    formatDate: (value, options = { dateStyle: 'medium' }) => new Intl.DateTimeFormat(code, options).format(new Date(value))
+  };
+};
+
+registerLocale({ code: 'en', nativeName: 'English', messages: en });
+registerLocale({ code: 'es', nativeName: 'Español', messages: es });
+registerLocale({ code: 'fr', nativeName: 'Français', messages: fr });
+
+// Provided by I18nProvider at the root; the default only serves English
+export interface I18nContextValue extends Translator {
+  setLocale: (code: string) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  ...createTranslator(DEFAULT_LOCALE),
+  setLocale: () => {}
+});
+
+export const useI18n = () => useContext(I18nContext);
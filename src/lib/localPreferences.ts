@@ -0,0 +1,23 @@
+// Small per-browser preferences (last used workspace, brand kit). Storage may
+// be unavailable, e.g. in private browsing; the preference then isn't kept.
+const PREFIX = 'qr-gen-v1:';
+
+export const getPreference = (key: string): string | null => {
+  try {
+    return localStorage.getItem(PREFIX + key);
+  } catch {
+    return null;
+  }
+};
+
+export const setPreference = (key: string, value: string | null) => {
+  try {
+    if (value) {
+      localStorage.setItem(PREFIX + key, value);
+    } else {
+      localStorage.removeItem(PREFIX + key);
+    }
+  } catch {
+    // Not remembered
+  }
+};
@@ -0,0 +1,55 @@
+// Brand colors read from the logo itself. The logo is sampled on a small
+// canvas and quantized in a web worker (logoPalette.worker.ts), so large
+// logos never block typing or the preview.
+
+export interface LogoSwatch {
+  color: string;
+  share: number;  // Of the logo's opaque pixels, 0-1
+}
+
+// A code/background combination that passes the recommended contrast
+export interface LogoColorPair {
+  qrColor: string;
+  bgColor: string;
+  ratio: number;
+  shaded: boolean;  // The code color is a darker shade of a logo color
+}
+
+export interface LogoPalette {
+  swatches: LogoSwatch[];  // Most prominent first
+  pairs: LogoColorPair[];  // Best first
+}
+
+// Quantizing a thumbnail gives the same dominant colors as the full image
+const SAMPLE_SIZE = 100;
+
+const samplePixels = async (logo: string): Promise<Uint8ClampedArray> => {
+  const img = new Image();
+  img.src = logo;
+  await img.decode();
+
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+};
+
+export const extractLogoPalette = async (logo: string): Promise<LogoPalette> => {
+  const pixels = await samplePixels(logo);
+  const worker = new Worker(new URL('./logoPalette.worker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    return await new Promise<LogoPalette>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<LogoPalette>) => resolve(event.data);
+      worker.onerror = (event) => reject(new Error(event.message || 'Could not analyze the logo'));
+      worker.postMessage(pixels, [pixels.buffer]);
+    });
+  } finally {
+    worker.terminate();
+  }
+};
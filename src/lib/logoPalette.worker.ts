@@ -0,0 +1,165 @@
+import { analyzeQRContrast } from './contrast';
+import { colorDistance, rgbToHex, shadeColor, RGB } from './color';
+import type { LogoColorPair, LogoPalette, LogoSwatch } from './logoPalette';
+
+// Runs off the main thread: quantizes the logo's pixels (RGBA bytes) with
+// median cut refined by a few k-means passes, and pairs the resulting colors
+// into scannable code/background combinations.
+
+const MAX_SWATCHES = 6;
+const MAX_PAIRS = 4;
+const KMEANS_PASSES = 4;
+// Colors closer than this are merged into one swatch
+const MERGE_DISTANCE = 40;
+// Swatches covering less of the logo are too minor to build a pair around
+const MIN_SHARE = 0.02;
+const WHITE = '#ffffff';
+
+// A box of pixels in RGB space, split along its widest channel
+type Box = RGB[];
+
+const getRange = (box: Box, channel: keyof RGB) => {
+  let min = 255;
+  let max = 0;
+  for (const pixel of box) {
+    min = Math.min(min, pixel[channel]);
+    max = Math.max(max, pixel[channel]);
+  }
+  return max - min;
+};
+
+const getWidestChannel = (box: Box): { channel: keyof RGB; range: number } =>
+  (['r', 'g', 'b'] as const)
+    .map((channel) => ({ channel, range: getRange(box, channel) }))
+    .reduce((widest, item) => (item.range > widest.range ? item : widest));
+
+const averageColor = (box: Box): RGB => {
+  const sum = box.reduce((total, { r, g, b }) => ({ r: total.r + r, g: total.g + g, b: total.b + b }), { r: 0, g: 0, b: 0 });
+  return { r: sum.r / box.length, g: sum.g / box.length, b: sum.b / box.length };
+};
+
+const squaredDistance = (a: RGB, b: RGB) => (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+
+const medianCut = (pixels: RGB[], maxBoxes: number): Box[] => {
+  const boxes: Box[] = [pixels];
+
+  while (boxes.length < maxBoxes) {
+    // Split where it reduces the most error: the most populous box weighted by its spread
+    const candidates = boxes
+      .map((box, index) => ({ index, ...getWidestChannel(box), size: box.length }))
+      .filter(({ range, size }) => range > 0 && size > 1);
+    if (!candidates.length) break;
+
+    const { index, channel } = candidates.reduce((best, item) =>
+      item.range * item.size > best.range * best.size ? item : best);
+    const sorted = [...boxes[index]].sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes.splice(index, 1, sorted.slice(0, middle), sorted.slice(middle));
+  }
+
+  return boxes;
+};
+
+// Median cut splits at medians, so a box can straddle two colors and average
+// to one the logo doesn't use. Reassigning pixels to their nearest center
+// fixes that; centers left without pixels are dropped.
+const refineClusters = (pixels: RGB[], boxes: Box[]): Box[] => {
+  let clusters = boxes;
+  for (let pass = 0; pass < KMEANS_PASSES; pass++) {
+    const centers = clusters.map(averageColor);
+    const next: Box[] = centers.map(() => []);
+    for (const pixel of pixels) {
+      let nearest = 0;
+      for (let i = 1; i < centers.length; i++) {
+        if (squaredDistance(pixel, centers[i]) < squaredDistance(pixel, centers[nearest])) nearest = i;
+      }
+      next[nearest].push(pixel);
+    }
+    clusters = next.filter((cluster) => cluster.length);
+  }
+  return clusters;
+};
+
+// Transparent pixels are the logo's surroundings, not its colors
+const readPixels = (data: Uint8ClampedArray): RGB[] => {
+  const pixels: RGB[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push({ r: data[i], g: data[i + 1], b: data[i + 2] });
+  }
+  return pixels;
+};
+
+const extractSwatches = (data: Uint8ClampedArray): LogoSwatch[] => {
+  const pixels = readPixels(data);
+  if (!pixels.length) return [];
+
+  // Split finer than needed, then merge near-identical colors such as
+  // anti-aliased edges back into their neighbours
+  const swatches: LogoSwatch[] = [];
+  refineClusters(pixels, medianCut(pixels, MAX_SWATCHES * 2))
+    .map((cluster) => ({ color: rgbToHex(averageColor(cluster)), share: cluster.length / pixels.length }))
+    .sort((a, b) => b.share - a.share)
+    .forEach((swatch) => {
+      const similar = swatches.find(({ color }) => colorDistance(color, swatch.color) < MERGE_DISTANCE);
+      if (similar) {
+        similar.share += swatch.share;
+      } else {
+        swatches.push(swatch);
+      }
+    });
+
+  return swatches.sort((a, b) => b.share - a.share).slice(0, MAX_SWATCHES);
+};
+
+const passes = (qrColor: string, bgColor: string) => analyzeQRContrast(qrColor, bgColor).status === 'ok';
+
+// Pairs of logo colors that pass the recommended contrast, ranked by how much
+// of the logo they cover. Logo colors too light for a code on white get their
+// nearest darker shade that passes instead (except white itself, whose shades
+// are plain grays); those rank after the logo's own colors.
+const suggestPairs = (swatches: LogoSwatch[]): LogoColorPair[] => {
+  const prominent = swatches.filter(({ share }) => share >= MIN_SHARE);
+  const backgrounds = prominent.some(({ color }) => color === WHITE)
+    ? prominent
+    : [...prominent, { color: WHITE, share: 0 }];
+
+  const pairs: (LogoColorPair & { score: number })[] = [];
+  prominent.forEach((foreground) => {
+    const matches = backgrounds.filter((background) => passes(foreground.color, background.color));
+    matches.forEach((background) => pairs.push({
+      qrColor: foreground.color,
+      bgColor: background.color,
+      ratio: analyzeQRContrast(foreground.color, background.color).ratio,
+      shaded: false,
+      score: foreground.share + background.share
+    }));
+
+    if (matches.length || colorDistance(foreground.color, WHITE) < MERGE_DISTANCE) return;
+    for (let amount = 0.1; amount <= 1; amount += 0.1) {
+      const shaded = shadeColor(foreground.color, amount);
+      if (passes(shaded, WHITE)) {
+        pairs.push({
+          qrColor: shaded,
+          bgColor: WHITE,
+          ratio: analyzeQRContrast(shaded, WHITE).ratio,
+          shaded: true,
+          score: foreground.share
+        });
+        break;
+      }
+    }
+  });
+
+  return pairs
+    .sort((a, b) => Number(a.shaded) - Number(b.shaded) || b.score - a.score || b.ratio - a.ratio)
+    .filter((pair, index, all) =>
+      all.findIndex(({ qrColor, bgColor }) => qrColor === pair.qrColor && bgColor === pair.bgColor) === index)
+    .slice(0, MAX_PAIRS)
+    .map(({ qrColor, bgColor, ratio, shaded }) => ({ qrColor, bgColor, ratio, shaded }));
+};
+
+self.addEventListener('message', (event: MessageEvent<Uint8ClampedArray>) => {
+  const swatches = extractSwatches(event.data);
+  const palette: LogoPalette = { swatches, pairs: suggestPairs(swatches) };
+  self.postMessage(palette);
+});
@@ -0,0 +1,129 @@
+import { ErrorCorrectionLevel, QRMatrix } from './qrMatrix';
+
+export interface LogoSettings {
+  placement: 'center' | 'above';
+  scale: number;        // Logo width as a fraction of the symbol width
+  padding: number;      // Cleared modules around the logo
+  backplate: boolean;
+  backplateColor: string;
+  radius: number;       // Backplate corner radius as a fraction of its size (0 - 0.5)
+  border: number;       // Backplate border width in modules
+  borderColor: string;
+}
+
+export const DEFAULT_LOGO_SETTINGS: LogoSettings = {
+  placement: 'center',
+  scale: 0.22,
+  padding: 1,
+  backplate: true,
+  backplateColor: '#ffffff',
+  radius: 0.15,
+  border: 0,
+  borderColor: '#000000'
+};
+
+export const ERROR_CORRECTION_LEVELS: Array<{ value: ErrorCorrectionLevel; label: string }> = [
+  { value: 'L', label: 'Low (7%)' },
+  { value: 'M', label: 'Medium (15%)' },
+  { value: 'Q', label: 'Quartile (25%)' },
+  { value: 'H', label: 'High (30%)' }
+];
+
+// Share of the symbol area that may be cleared for the logo. Roughly half of
+// each level's recovery capacity, leaving room for print and scan damage.
+const MAX_COVERAGE: Record<ErrorCorrectionLevel, number> = {
+  L: 0.03,
+  M: 0.07,
+  Q: 0.11,
+  H: 0.15
+};
+
+export const MIN_LOGO_SCALE = 0.08;
+
+// Finder patterns, separators and timing lines must stay intact
+const RESERVED_EDGE_MODULES = 8;
+
+export const maxLogoScale = (level: ErrorCorrectionLevel): number => Math.sqrt(MAX_COVERAGE[level]);
+
+// Row/column centers of the alignment patterns (ISO 18004 annex E), computed
+// the same way as the qrcode encoder
+const alignmentCoordinates = (matrixSize: number): number[] => {
+  const version = (matrixSize - 17) / 4;
+  if (version < 2) return [];
+
+  const count = Math.floor(version / 7) + 2;
+  const interval = matrixSize === 145 ? 26 : Math.ceil((matrixSize - 13) / (2 * count - 2)) * 2;
+  const coordinates = [matrixSize - 7];
+  for (let i = 1; i < count - 1; i++) {
+    coordinates.push(coordinates[i - 1] - interval);
+  }
+  return [6, ...coordinates.reverse()];
+};
+
+// Largest centered plate that leaves every 5x5 alignment pattern intact. A
+// pattern over the center module is covered by any centered logo, so only the
+// others limit the plate.
+const maxPlateClearOfAlignment = (matrixSize: number): number => {
+  const center = (matrixSize - 1) / 2;
+  const coordinates = alignmentCoordinates(matrixSize);
+  let maxHalf = Infinity;
+
+  coordinates.forEach((row) => coordinates.forEach((col) => {
+    const distance = Math.max(Math.abs(row - center), Math.abs(col - center));
+    if (distance > 2) maxHalf = Math.min(maxHalf, distance - 3);
+  }));
+
+  return Number.isFinite(maxHalf) ? maxHalf * 2 + 1 : matrixSize;
+};
+
+export interface LogoBox {
+  // All values in modules, relative to the top-left module of the symbol
+  plate: { x: number; y: number; size: number };
+  logo: { x: number; y: number; width: number; height: number };
+  cleared: { start: number; end: number };  // Inclusive module range on both axes
+}
+
+export const computeLogoBox = (
+  matrixSize: number,
+  settings: LogoSettings,
+  level: ErrorCorrectionLevel,
+  logoAspect: number
+): LogoBox => {
+  const scale = Math.min(Math.max(settings.scale, MIN_LOGO_SCALE), maxLogoScale(level));
+  const maxPlate = Math.max(1, Math.min(matrixSize - RESERVED_EDGE_MODULES * 2, maxPlateClearOfAlignment(matrixSize)));
+
+  // Clear whole modules only so no half-cut modules are left around the plate
+  let plateModules = Math.ceil(matrixSize * scale) + settings.padding * 2;
+  plateModules = Math.min(plateModules, Math.floor(Math.sqrt(MAX_COVERAGE[level]) * matrixSize), maxPlate);
+  // Keep it centered on the grid, shrinking rather than growing so the caps
+  // above still hold
+  if ((matrixSize - plateModules) % 2 !== 0) plateModules -= 1;
+  plateModules = Math.max(1, plateModules);
+
+  const start = (matrixSize - plateModules) / 2;
+  const inner = Math.max(1, plateModules - settings.padding * 2);
+  const logoWidth = logoAspect >= 1 ? inner : inner * logoAspect;
+  const logoHeight = logoAspect >= 1 ? inner / logoAspect : inner;
+
+  return {
+    plate: { x: start, y: start, size: plateModules },
+    logo: {
+      x: start + (plateModules - logoWidth) / 2,
+      y: start + (plateModules - logoHeight) / 2,
+      width: logoWidth,
+      height: logoHeight
+    },
+    cleared: { start, end: start + plateModules - 1 }
+  };
+};
+
+// Copy of the matrix with the modules under the logo removed, so scanners see
+// a clean gap instead of modules partially hidden by the image
+export const excavateMatrix = (matrix: QRMatrix, box: LogoBox): QRMatrix => ({
+  size: matrix.size,
+  modules: matrix.modules.map((cells, row) =>
+    cells.map((dark, col) =>
+      dark && !(row >= box.cleared.start && row <= box.cleared.end && col >= box.cleared.start && col <= box.cleared.end)
+    )
+  )
+});
@@ -0,0 +1,23 @@
+import { OrganizationRole } from './supabase';
+import { getPreference, setPreference } from './localPreferences';
+import type { MessageKey, Translator } from './i18n';
+
+export const ORGANIZATION_ROLES: { value: OrganizationRole; label: MessageKey; description: MessageKey }[] = [
+  { value: 'owner', label: 'workspace.role.owner', description: 'workspace.roleDescription.owner' },
+  { value: 'editor', label: 'workspace.role.editor', description: 'workspace.roleDescription.editor' },
+  { value: 'viewer', label: 'workspace.role.viewer', description: 'workspace.roleDescription.viewer' }
+];
+
+export const getRoleLabel = (role: OrganizationRole, t: Translator['t']) => {
+  const option = ORGANIZATION_ROLES.find(({ value }) => value === role);
+  return option ? t(option.label) : role;
+};
+
+export const canEditOrganization = (role: OrganizationRole | null | undefined) => role === 'owner' || role === 'editor';
+
+// The workspace last picked in this browser
+const WORKSPACE_PREFERENCE = 'workspace';
+
+export const getStoredWorkspaceId = () => getPreference(WORKSPACE_PREFERENCE);
+
+export const storeWorkspaceId = (organizationId: string | null) => setPreference(WORKSPACE_PREFERENCE, organizationId);
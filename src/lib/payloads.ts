@@ -0,0 +1,349 @@
+import { DONATION_CURRENCIES, buildDonationPayload, validateDonation } from './donationPayloads';
+import type { LocalizedMessage, MessageKey } from './i18n';
+
+export type PayloadType = 'url' | 'contact' | 'wifi' | 'sms' | 'email' | 'event' | 'geo' | 'donation';
+
+// Field values for the structured payload types, keyed by field name
+export type PayloadFields = Record<string, string>;
+
+export interface PayloadField {
+  name: string;
+  label: MessageKey;
+  input: 'text' | 'textarea' | 'tel' | 'email' | 'url' | 'datetime-local' | 'number' | 'select' | 'checkbox';
+  placeholder?: string;
+  required?: boolean;
+  // Options without a label show their value (e.g. currency codes)
+  options?: Array<{ value: string; label?: MessageKey }>;
+  // Only shown (and validated) while another field has one of these values
+  visibleWhen?: { field: string; values: string[] };
+}
+
+export const PAYLOAD_TYPES: Array<{ value: PayloadType; label: MessageKey }> = [
+  { value: 'url', label: 'payloadType.url' },
+  { value: 'contact', label: 'payloadType.contact' },
+  { value: 'wifi', label: 'payloadType.wifi' },
+  { value: 'sms', label: 'payloadType.sms' },
+  { value: 'email', label: 'payloadType.email' },
+  { value: 'event', label: 'payloadType.event' },
+  { value: 'geo', label: 'payloadType.geo' },
+  { value: 'donation', label: 'payloadType.donation' }
+];
+
+export const PAYLOAD_FIELDS: Record<Exclude<PayloadType, 'url'>, PayloadField[]> = {
+  contact: [
+    {
+      name: 'format',
+      label: 'payload.contact.format',
+      input: 'select',
+      options: [
+        { value: 'vcard', label: 'payload.contact.format.vcard' },
+        { value: 'mecard', label: 'payload.contact.format.mecard' }
+      ]
+    },
+    { name: 'firstName', label: 'payload.contact.firstName', input: 'text', required: true },
+    { name: 'lastName', label: 'payload.contact.lastName', input: 'text' },
+    { name: 'organization', label: 'payload.contact.organization', input: 'text' },
+    { name: 'title', label: 'payload.contact.title', input: 'text' },
+    { name: 'phone', label: 'payload.contact.phone', input: 'tel', placeholder: '+1 555 123 4567' },
+    { name: 'email', label: 'payload.contact.email', input: 'email', placeholder: 'name@your-nonprofit.org' },
+    { name: 'website', label: 'payload.contact.website', input: 'url', placeholder: 'https://your-nonprofit.org' },
+    { name: 'address', label: 'payload.contact.address', input: 'text' },
+    { name: 'note', label: 'payload.contact.note', input: 'textarea' }
+  ],
+  wifi: [
+    { name: 'ssid', label: 'payload.wifi.ssid', input: 'text', required: true },
+    {
+      name: 'encryption',
+      label: 'payload.wifi.encryption',
+      input: 'select',
+      options: [
+        { value: 'WPA', label: 'payload.wifi.encryption.WPA' },
+        { value: 'WEP' },
+        { value: 'nopass', label: 'payload.wifi.encryption.nopass' }
+      ]
+    },
+    { name: 'password', label: 'payload.wifi.password', input: 'text' },
+    { name: 'hidden', label: 'payload.wifi.hidden', input: 'checkbox' }
+  ],
+  sms: [
+    { name: 'phone', label: 'payload.sms.phone', input: 'tel', required: true, placeholder: '+1 555 123 4567' },
+    { name: 'message', label: 'payload.sms.message', input: 'textarea', placeholder: 'DONATE 10' }
+  ],
+  email: [
+    { name: 'to', label: 'payload.email.to', input: 'email', required: true, placeholder: 'info@your-nonprofit.org' },
+    { name: 'subject', label: 'payload.email.subject', input: 'text' },
+    { name: 'body', label: 'payload.email.body', input: 'textarea' }
+  ],
+  event: [
+    { name: 'title', label: 'payload.event.title', input: 'text', required: true, placeholder: 'Annual Gala' },
+    { name: 'start', label: 'payload.event.start', input: 'datetime-local', required: true },
+    { name: 'end', label: 'payload.event.end', input: 'datetime-local', required: true },
+    { name: 'location', label: 'payload.event.location', input: 'text' },
+    { name: 'description', label: 'payload.event.description', input: 'textarea' }
+  ],
+  geo: [
+    { name: 'latitude', label: 'payload.geo.latitude', input: 'number', required: true, placeholder: '40.7128' },
+    { name: 'longitude', label: 'payload.geo.longitude', input: 'number', required: true, placeholder: '-74.0060' },
+    { name: 'label', label: 'payload.geo.label', input: 'text' }
+  ],
+  donation: [
+    {
+      name: 'scheme',
+      label: 'payload.donation.scheme',
+      input: 'select',
+      options: [
+        { value: 'epc', label: 'payload.donation.scheme.epc' },
+        { value: 'upi', label: 'payload.donation.scheme.upi' },
+        { value: 'swiss', label: 'payload.donation.scheme.swiss' },
+        { value: 'paypal', label: 'payload.donation.scheme.paypal' },
+        { value: 'venmo', label: 'payload.donation.scheme.venmo' }
+      ]
+    },
+    { name: 'name', label: 'payload.donation.name', input: 'text', required: true, visibleWhen: { field: 'scheme', values: ['epc', 'upi', 'swiss'] } },
+    { name: 'iban', label: 'payload.donation.iban', input: 'text', required: true, placeholder: 'DE89 3704 0044 0532 0130 00', visibleWhen: { field: 'scheme', values: ['epc', 'swiss'] } },
+    { name: 'bic', label: 'payload.donation.bic', input: 'text', placeholder: 'COBADEFFXXX', visibleWhen: { field: 'scheme', values: ['epc'] } },
+    { name: 'vpa', label: 'payload.donation.vpa', input: 'text', required: true, placeholder: 'charity@bank', visibleWhen: { field: 'scheme', values: ['upi'] } },
+    { name: 'handle', label: 'payload.donation.handle', input: 'text', required: true, placeholder: 'your-nonprofit', visibleWhen: { field: 'scheme', values: ['paypal', 'venmo'] } },
+    { name: 'street', label: 'payload.donation.street', input: 'text', visibleWhen: { field: 'scheme', values: ['swiss'] } },
+    { name: 'buildingNumber', label: 'payload.donation.buildingNumber', input: 'text', visibleWhen: { field: 'scheme', values: ['swiss'] } },
+    { name: 'postalCode', label: 'payload.donation.postalCode', input: 'text', required: true, visibleWhen: { field: 'scheme', values: ['swiss'] } },
+    { name: 'town', label: 'payload.donation.town', input: 'text', required: true, visibleWhen: { field: 'scheme', values: ['swiss'] } },
+    { name: 'country', label: 'payload.donation.country', input: 'text', placeholder: 'CH', visibleWhen: { field: 'scheme', values: ['swiss'] } },
+    // One currency list per scheme; only one is visible at a time
+    ...(['swiss', 'paypal'] as const).map((scheme): PayloadField => ({
+      name: 'currency',
+      label: 'payload.donation.currency',
+      input: 'select',
+      options: DONATION_CURRENCIES[scheme].map((code) => ({ value: code })),
+      visibleWhen: { field: 'scheme', values: [scheme] }
+    })),
+    { name: 'amount', label: 'payload.donation.amount', input: 'number', placeholder: '25.00' },
+    { name: 'reference', label: 'payload.donation.reference', input: 'text', placeholder: 'RF18 5390 0754 7034', visibleWhen: { field: 'scheme', values: ['epc', 'upi', 'swiss'] } },
+    { name: 'message', label: 'payload.donation.message', input: 'text', placeholder: 'Spring appeal donation', visibleWhen: { field: 'scheme', values: ['epc', 'upi', 'swiss', 'venmo'] } }
+  ]
+};
+
+export const isFieldVisible = (field: PayloadField, fields: PayloadFields): boolean =>
+  !field.visibleWhen || field.visibleWhen.values.includes(fields[field.visibleWhen.field] ?? '');
+
+// Selects that are visible but hold a value they don't offer (e.g. the previous
+// scheme's currency) fall back to their first option
+export const resetVisibleSelects = (type: Exclude<PayloadType, 'url'>, fields: PayloadFields): PayloadFields => {
+  const next = { ...fields };
+  PAYLOAD_FIELDS[type].forEach((field) => {
+    if (field.input !== 'select' || !field.options?.length || !isFieldVisible(field, next)) return;
+    if (!field.options.some(({ value }) => value === next[field.name])) {
+      next[field.name] = field.options[0].value;
+    }
+  });
+  return next;
+};
+
+export const DEFAULT_PAYLOAD_FIELDS: Record<Exclude<PayloadType, 'url'>, PayloadFields> = {
+  contact: { format: 'vcard' },
+  wifi: { encryption: 'WPA', hidden: '' },
+  sms: {},
+  email: {},
+  event: {},
+  geo: {},
+  donation: { scheme: 'epc' }
+};
+
+// Practical limit for reliable scanning at error-correction level H
+export const MAX_PAYLOAD_LENGTH = 1200;
+
+const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+const phoneRegex = /^\+?[0-9\s().-]{5,20}$/;
+
+// vCard 3.0 / iCalendar TEXT escaping (RFC 6350 / RFC 5545)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// MECARD and WIFI share the same reserved characters
+const escapeMeCard = (value: string) => value.replace(/([\\;,:"])/g, '\\$1');
+
+const normalizePhone = (value: string) => value.replace(/[^\d+]/g, '');
+
+// iCalendar lines are folded at 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const toICalDate = (value: string) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const buildVCard = (fields: PayloadFields) => {
+  const first = fields.firstName || '';
+  const last = fields.lastName || '';
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escapeText(last)};${escapeText(first)};;;`,
+    `FN:${escapeText([first, last].filter(Boolean).join(' '))}`,
+    fields.organization && `ORG:${escapeText(fields.organization)}`,
+    fields.title && `TITLE:${escapeText(fields.title)}`,
+    fields.phone && `TEL;TYPE=WORK,VOICE:${normalizePhone(fields.phone)}`,
+    fields.email && `EMAIL;TYPE=INTERNET:${fields.email}`,
+    fields.website && `URL:${fields.website}`,
+    fields.address && `ADR;TYPE=WORK:;;${escapeText(fields.address)};;;;`,
+    fields.note && `NOTE:${escapeText(fields.note)}`,
+    'END:VCARD'
+  ];
+
+  return lines.filter(Boolean).join('\r\n');
+};
+
+const buildMeCard = (fields: PayloadFields) => {
+  const parts = [
+    `N:${escapeMeCard(fields.lastName || '')},${escapeMeCard(fields.firstName || '')}`,
+    fields.organization && `ORG:${escapeMeCard(fields.organization)}`,
+    fields.phone && `TEL:${normalizePhone(fields.phone)}`,
+    fields.email && `EMAIL:${escapeMeCard(fields.email)}`,
+    fields.website && `URL:${escapeMeCard(fields.website)}`,
+    fields.address && `ADR:${escapeMeCard(fields.address)}`,
+    fields.note && `NOTE:${escapeMeCard(fields.note)}`
+  ];
+
+  return `MECARD:${parts.filter(Boolean).join(';')};;`;
+};
+
+const buildWifi = (fields: PayloadFields) => {
+  const encryption = fields.encryption || 'WPA';
+  const parts = [
+    `T:${encryption}`,
+    `S:${escapeMeCard(fields.ssid || '')}`,
+    encryption !== 'nopass' && `P:${escapeMeCard(fields.password || '')}`,
+    fields.hidden === 'true' && 'H:true'
+  ];
+
+  return `WIFI:${parts.filter(Boolean).join(';')};;`;
+};
+
+const buildEmail = (fields: PayloadFields) => {
+  const params = [
+    fields.subject && `subject=${encodeURIComponent(fields.subject)}`,
+    fields.body && `body=${encodeURIComponent(fields.body)}`
+  ].filter(Boolean);
+
+  return `mailto:${fields.to || ''}${params.length ? `?${params.join('&')}` : ''}`;
+};
+
+const buildEvent = (fields: PayloadFields) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `SUMMARY:${escapeText(fields.title || '')}`,
+    fields.start && `DTSTART:${toICalDate(fields.start)}`,
+    fields.end && `DTEND:${toICalDate(fields.end)}`,
+    fields.location && `LOCATION:${escapeText(fields.location)}`,
+    fields.description && `DESCRIPTION:${escapeText(fields.description)}`,
+    'END:VEVENT'
+  ];
+
+  return lines.filter((line): line is string => !!line).map(foldLine).join('\r\n');
+};
+
+const buildGeo = (fields: PayloadFields) => {
+  const coordinates = `geo:${Number(fields.latitude)},${Number(fields.longitude)}`;
+  return fields.label ? `${coordinates}?q=${encodeURIComponent(fields.label)}` : coordinates;
+};
+
+export const buildPayload = (type: Exclude<PayloadType, 'url'>, fields: PayloadFields): string => {
+  switch (type) {
+    case 'contact':
+      return fields.format === 'mecard' ? buildMeCard(fields) : buildVCard(fields);
+    case 'wifi':
+      return buildWifi(fields);
+    case 'sms':
+      return `SMSTO:${normalizePhone(fields.phone || '')}:${fields.message || ''}`;
+    case 'email':
+      return buildEmail(fields);
+    case 'event':
+      return buildEvent(fields);
+    case 'geo':
+      return buildGeo(fields);
+    case 'donation':
+      return buildDonationPayload(fields);
+  }
+};
+
+const isValidDate = (value: string) => !Number.isNaN(new Date(value).getTime());
+
+const isInRange = (value: string, limit: number) => {
+  if (value.trim() === '') return false;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit;
+};
+
+// Returns an error message per field name; an empty object means valid
+export const validatePayload = (type: Exclude<PayloadType, 'url'>, fields: PayloadFields): Record<string, LocalizedMessage> => {
+  const errors: Record<string, LocalizedMessage> = {};
+
+  PAYLOAD_FIELDS[type].forEach((field) => {
+    if (field.required && isFieldVisible(field, fields) && !fields[field.name]?.trim()) {
+      errors[field.name] = { key: 'payload.error.required' };
+    }
+  });
+
+  if (type === 'donation') {
+    Object.entries(validateDonation(fields)).forEach(([name, message]) => {
+      errors[name] = errors[name] || message;
+    });
+  }
+
+  if (fields.phone && !errors.phone && !phoneRegex.test(fields.phone)) {
+    errors.phone = { key: 'payload.error.phone' };
+  }
+
+  const emailField = type === 'email' ? 'to' : 'email';
+  if (fields[emailField] && !errors[emailField] && !emailRegex.test(fields[emailField])) {
+    errors[emailField] = { key: 'payload.error.email' };
+  }
+
+  if (type === 'wifi' && fields.encryption !== 'nopass' && !fields.password) {
+    errors.password = { key: 'payload.error.password' };
+  }
+
+  if (type === 'event' && !errors.start && !errors.end) {
+    if (!isValidDate(fields.start)) {
+      errors.start = { key: 'payload.error.start' };
+    } else if (!isValidDate(fields.end)) {
+      errors.end = { key: 'payload.error.end' };
+    } else if (new Date(fields.end) <= new Date(fields.start)) {
+      errors.end = { key: 'payload.error.endBeforeStart' };
+    }
+  }
+
+  if (type === 'geo') {
+    if (!errors.latitude && !isInRange(fields.latitude, 90)) {
+      errors.latitude = { key: 'payload.error.latitude' };
+    }
+    if (!errors.longitude && !isInRange(fields.longitude, 180)) {
+      errors.longitude = { key: 'payload.error.longitude' };
+    }
+  }
+
+  if (!Object.keys(errors).length && new TextEncoder().encode(buildPayload(type, fields)).length > MAX_PAYLOAD_LENGTH) {
+    errors._form = { key: 'payload.error.tooLong', params: { max: MAX_PAYLOAD_LENGTH } };
+  }
+
+  return errors;
+};
@@ -0,0 +1,142 @@
+import jsPDF from 'jspdf';
+import type { MessageKey } from './i18n';
+
+export type PageSizeId = 'letter' | 'legal' | 'a4' | 'a5' | 'custom';
+export type PageOrientation = 'portrait' | 'landscape';
+export type OutputDpi = 300 | 600;
+
+// Portrait dimensions in inches
+export const PAGE_SIZES: { value: Exclude<PageSizeId, 'custom'>; label: MessageKey; width: number; height: number }[] = [
+  { value: 'letter', label: 'export.pageSize.letter', width: 8.5, height: 11 },
+  { value: 'legal', label: 'export.pageSize.legal', width: 8.5, height: 14 },
+  { value: 'a4', label: 'export.pageSize.a4', width: 210 / 25.4, height: 297 / 25.4 },
+  { value: 'a5', label: 'export.pageSize.a5', width: 148 / 25.4, height: 210 / 25.4 }
+];
+
+export const OUTPUT_DPIS: OutputDpi[] = [300, 600];
+
+export const MIN_CUSTOM_SIZE = 1;
+export const MAX_CUSTOM_SIZE = 48;
+
+export const PAGE_MARGIN = 0.5;
+export const BLEED = 0.125;
+// Slug outside the bleed that holds the crop and registration marks
+export const MARK_AREA = 0.375;
+
+export interface ExportSettings {
+  pageSize: PageSizeId;
+  customWidth: number;   // inches, used when pageSize is 'custom'
+  customHeight: number;
+  orientation: PageOrientation;
+  dpi: OutputDpi;
+  bleed: boolean;        // 1/8" bleed with crop and registration marks (PDF)
+  transparentPng: boolean;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  pageSize: 'letter',
+  customWidth: 8.5,
+  customHeight: 11,
+  orientation: 'portrait',
+  dpi: 300,
+  bleed: false,
+  transparentPng: false
+};
+
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Finished (trimmed) page size in inches, after orientation
+export const getTrimSize = (settings: ExportSettings): { width: number; height: number } => {
+  const preset = PAGE_SIZES.find(({ value }) => value === settings.pageSize);
+  const clamp = (value: number) => Math.min(MAX_CUSTOM_SIZE, Math.max(MIN_CUSTOM_SIZE, value || MIN_CUSTOM_SIZE));
+  const width = preset ? preset.width : clamp(settings.customWidth);
+  const height = preset ? preset.height : clamp(settings.customHeight);
+
+  const landscape = settings.orientation === 'landscape';
+  return {
+    width: landscape ? Math.max(width, height) : Math.min(width, height),
+    height: landscape ? Math.min(width, height) : Math.max(width, height)
+  };
+};
+
+// Where the trimmed page sits on the sheet; with bleed the sheet grows by the
+// bleed and the mark area on every side
+export const getTrimBox = (settings: ExportSettings): PageBox => {
+  const { width, height } = getTrimSize(settings);
+  const offset = settings.bleed ? BLEED + MARK_AREA : 0;
+  return { x: offset, y: offset, width, height };
+};
+
+export const createPrintPDF = (settings: ExportSettings): jsPDF => {
+  const trim = getTrimBox(settings);
+  const sheetWidth = trim.width + trim.x * 2;
+  const sheetHeight = trim.height + trim.y * 2;
+
+  return new jsPDF({
+    orientation: sheetWidth > sheetHeight ? 'landscape' : 'portrait',
+    unit: 'in',
+    format: [sheetWidth, sheetHeight]
+  });
+};
+
+// Records the trim and bleed boxes so imposition software can find the page
+const setPageBoxes = (pdf: jsPDF, trim: PageBox) => {
+  const k = pdf.internal.scaleFactor;
+  const sheetHeight = pdf.internal.pageSize.getHeight();
+  const toBox = (box: PageBox) => ({
+    bottomLeftX: box.x * k,
+    bottomLeftY: (sheetHeight - box.y - box.height) * k,
+    topRightX: (box.x + box.width) * k,
+    topRightY: (sheetHeight - box.y) * k
+  });
+
+  const { pageContext } = pdf.getCurrentPageInfo();
+  pageContext.trimBox = toBox(trim);
+  pageContext.bleedBox = toBox({
+    x: trim.x - BLEED,
+    y: trim.y - BLEED,
+    width: trim.width + BLEED * 2,
+    height: trim.height + BLEED * 2
+  });
+};
+
+const drawRegistrationMark = (pdf: jsPDF, x: number, y: number) => {
+  const radius = 0.08;
+  pdf.circle(x, y, radius, 'S');
+  pdf.line(x - radius * 1.6, y, x + radius * 1.6, y);
+  pdf.line(x, y - radius * 1.6, x, y + radius * 1.6);
+};
+
+// Crop marks at the trim corners, starting outside the bleed, and a
+// registration target centered on each side. Marks use the registration color
+// (100% of every ink) so they appear on all plates.
+export const drawPrinterMarks = (pdf: jsPDF, trim: PageBox) => {
+  const { x, y, width, height } = trim;
+  const right = x + width;
+  const bottom = y + height;
+  const start = BLEED + 0.0625;
+  const end = BLEED + MARK_AREA;
+
+  pdf.setDrawColor(1, 1, 1, 1);
+  pdf.setLineWidth(0.25 / 72);
+
+  [[x, y], [right, y], [x, bottom], [right, bottom]].forEach(([cornerX, cornerY]) => {
+    const dirX = cornerX === x ? -1 : 1;
+    const dirY = cornerY === y ? -1 : 1;
+    pdf.line(cornerX + dirX * start, cornerY, cornerX + dirX * end, cornerY);
+    pdf.line(cornerX, cornerY + dirY * start, cornerX, cornerY + dirY * end);
+  });
+
+  const markOffset = BLEED + MARK_AREA / 2 + 0.03;
+  drawRegistrationMark(pdf, x + width / 2, y - markOffset);
+  drawRegistrationMark(pdf, x + width / 2, bottom + markOffset);
+  drawRegistrationMark(pdf, x - markOffset, y + height / 2);
+  drawRegistrationMark(pdf, right + markOffset, y + height / 2);
+
+  setPageBoxes(pdf, trim);
+};
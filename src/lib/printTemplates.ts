@@ -0,0 +1,267 @@
+import jsPDF from 'jspdf';
+import { FlyerContent, FlyerLayout, PrintCellOptions, PX_PER_INCH, layoutPrintCell } from './flyerLayout';
+import { drawFlyerToPDF } from './vectorExport';
+import type { MessageKey } from './i18n';
+
+const GUIDE_COLOR = 170;
+const CUT_MARK_LENGTH = 0.25;
+
+// Positions are in inches from the top-left corner of the page
+export interface TemplateCell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotated?: boolean;  // Drawn upside down, e.g. the back of a folded table tent
+}
+
+export interface PrintTemplate {
+  id: string;
+  name: MessageKey;
+  description: MessageKey;
+  pageWidth: number;
+  pageHeight: number;
+  cells: TemplateCell[];
+  guides: 'fold' | 'cut' | 'none';
+  layoutCell: (content: FlyerContent, width: number, height: number) => FlyerLayout;
+}
+
+const registry = new Map<string, PrintTemplate>();
+
+// New layouts only need to be registered here; the generator lists whatever
+// is in the registry
+export const registerPrintTemplate = (template: PrintTemplate) => {
+  registry.set(template.id, template);
+};
+
+export const getPrintTemplates = (): PrintTemplate[] => Array.from(registry.values());
+
+export const getPrintTemplate = (id: string): PrintTemplate | undefined => registry.get(id);
+
+interface GridOptions {
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  gapX?: number;
+  gapY?: number;
+}
+
+export const gridCells = ({ columns, rows, width, height, left, top, gapX = 0, gapY = 0 }: GridOptions): TemplateCell[] => {
+  const cells: TemplateCell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      cells.push({ x: left + column * (width + gapX), y: top + row * (height + gapY), width, height });
+    }
+  }
+  return cells;
+};
+
+const cellLayout = (options: PrintCellOptions) =>
+  (content: FlyerContent, width: number, height: number) => layoutPrintCell(content, width, height, options);
+
+const setGuideStyle = (pdf: jsPDF) => {
+  pdf.setDrawColor(GUIDE_COLOR, GUIDE_COLOR, GUIDE_COLOR);
+  pdf.setLineWidth(0.01);
+};
+
+// Dashed lines along the inner cell edges
+const drawFoldGuides = (pdf: jsPDF, template: PrintTemplate) => {
+  const xs = new Set(template.cells.map((cell) => cell.x).filter((x) => x > 0));
+  const ys = new Set(template.cells.map((cell) => cell.y).filter((y) => y > 0));
+
+  setGuideStyle(pdf);
+  pdf.setLineDashPattern([0.1, 0.05], 0);
+  xs.forEach((x) => pdf.line(x, 0, x, template.pageHeight));
+  ys.forEach((y) => pdf.line(0, y, template.pageWidth, y));
+  pdf.setLineDashPattern([], 0);
+};
+
+// Short ticks in the page margin lined up with every cell edge
+const drawCutGuides = (pdf: jsPDF, template: PrintTemplate) => {
+  const { cells, pageWidth, pageHeight } = template;
+  const left = Math.min(...cells.map((cell) => cell.x));
+  const top = Math.min(...cells.map((cell) => cell.y));
+  const right = Math.max(...cells.map((cell) => cell.x + cell.width));
+  const bottom = Math.max(...cells.map((cell) => cell.y + cell.height));
+  const xs = new Set(cells.flatMap((cell) => [cell.x, cell.x + cell.width]));
+  const ys = new Set(cells.flatMap((cell) => [cell.y, cell.y + cell.height]));
+
+  setGuideStyle(pdf);
+  xs.forEach((x) => {
+    pdf.line(x, Math.max(0, top - CUT_MARK_LENGTH), x, top - 0.0625);
+    pdf.line(x, bottom + 0.0625, x, Math.min(pageHeight, bottom + CUT_MARK_LENGTH));
+  });
+  ys.forEach((y) => {
+    pdf.line(Math.max(0, left - CUT_MARK_LENGTH), y, left - 0.0625, y);
+    pdf.line(right + 0.0625, y, Math.min(pageWidth, right + CUT_MARK_LENGTH), y);
+  });
+};
+
+const drawCell = (pdf: jsPDF, layout: FlyerLayout, cell: TemplateCell) => {
+  const scale = 1 / PX_PER_INCH;
+  if (!cell.rotated) {
+    drawFlyerToPDF(pdf, layout, cell.x, cell.y, scale);
+    return;
+  }
+
+  // Rotate 180 degrees around the cell center. The matrix is applied in PDF
+  // points with the origin at the bottom-left of the page.
+  const k = pdf.internal.scaleFactor;
+  const centerX = (cell.x + cell.width / 2) * k;
+  const centerY = (pdf.internal.pageSize.getHeight() - cell.y - cell.height / 2) * k;
+  pdf.saveGraphicsState();
+  pdf.setCurrentTransformationMatrix(pdf.Matrix(-1, 0, 0, -1, centerX * 2, centerY * 2));
+  drawFlyerToPDF(pdf, layout, cell.x, cell.y, scale);
+  pdf.restoreGraphicsState();
+};
+
+// Fills cells in order, adding pages until `copies` cells are drawn
+export const renderPrintTemplate = (template: PrintTemplate, content: FlyerContent, copies: number): jsPDF => {
+  const { pageWidth, pageHeight, cells } = template;
+  const pdf = new jsPDF({
+    orientation: pageWidth > pageHeight ? 'landscape' : 'portrait',
+    unit: 'in',
+    format: [pageWidth, pageHeight]
+  });
+
+  const layouts = new Map<string, FlyerLayout>();
+  const layoutFor = (cell: TemplateCell) => {
+    const key = `${cell.width}x${cell.height}`;
+    let layout = layouts.get(key);
+    if (!layout) {
+      layout = template.layoutCell(content, cell.width * PX_PER_INCH, cell.height * PX_PER_INCH);
+      layouts.set(key, layout);
+    }
+    return layout;
+  };
+
+  const total = Math.max(1, Math.floor(copies));
+  for (let drawn = 0; drawn < total; drawn++) {
+    const index = drawn % cells.length;
+    if (drawn > 0 && index === 0) pdf.addPage();
+
+    drawCell(pdf, layoutFor(cells[index]), cells[index]);
+
+    const isPageDone = index === cells.length - 1 || drawn === total - 1;
+    if (isPageDone && template.guides === 'fold') drawFoldGuides(pdf, template);
+    if (isPageDone && template.guides === 'cut') drawCutGuides(pdf, template);
+  }
+
+  return pdf;
+};
+
+// Built-in templates
+
+registerPrintTemplate({
+  id: 'table-tent',
+  name: 'printTemplate.table-tent.name',
+  description: 'printTemplate.table-tent.description',
+  pageWidth: 11,
+  pageHeight: 8.5,
+  cells: [
+    { x: 0, y: 0, width: 11, height: 4.25, rotated: true },
+    { x: 0, y: 4.25, width: 11, height: 4.25 }
+  ],
+  guides: 'fold',
+  layoutCell: cellLayout({
+    arrangement: 'side-by-side',
+    padding: 36,
+    qrPadding: 8,
+    text: 'all',
+    headings: true,
+    maxBodySize: 24,
+    minBodySize: 12
+  })
+});
+
+const posterLayout = cellLayout({
+  arrangement: 'stacked',
+  padding: 72,
+  qrPadding: 24,
+  text: 'all',
+  headings: true,
+  maxBodySize: 40,
+  minBodySize: 18
+});
+
+registerPrintTemplate({
+  id: 'poster-tabloid',
+  name: 'printTemplate.poster-tabloid.name',
+  description: 'printTemplate.poster-tabloid.description',
+  pageWidth: 11,
+  pageHeight: 17,
+  cells: [{ x: 0, y: 0, width: 11, height: 17 }],
+  guides: 'none',
+  layoutCell: posterLayout
+});
+
+registerPrintTemplate({
+  id: 'poster-a3',
+  name: 'printTemplate.poster-a3.name',
+  description: 'printTemplate.poster-a3.description',
+  pageWidth: 297 / 25.4,
+  pageHeight: 420 / 25.4,
+  cells: [{ x: 0, y: 0, width: 297 / 25.4, height: 420 / 25.4 }],
+  guides: 'none',
+  layoutCell: posterLayout
+});
+
+registerPrintTemplate({
+  id: 'business-cards',
+  name: 'printTemplate.business-cards.name',
+  description: 'printTemplate.business-cards.description',
+  pageWidth: 8.5,
+  pageHeight: 11,
+  cells: gridCells({ columns: 2, rows: 5, width: 3.5, height: 2, left: 0.75, top: 0.5 }),
+  guides: 'cut',
+  layoutCell: cellLayout({
+    arrangement: 'side-by-side',
+    padding: 12,
+    qrPadding: 0,
+    text: 'all',
+    headings: false,
+    maxBodySize: 11,
+    minBodySize: 7
+  })
+});
+
+registerPrintTemplate({
+  id: 'avery-5160',
+  name: 'printTemplate.avery-5160.name',
+  description: 'printTemplate.avery-5160.description',
+  pageWidth: 8.5,
+  pageHeight: 11,
+  cells: gridCells({ columns: 3, rows: 10, width: 2.625, height: 1, left: 0.1875, top: 0.5, gapX: 0.125 }),
+  guides: 'none',
+  layoutCell: cellLayout({
+    arrangement: 'side-by-side',
+    padding: 6,
+    qrPadding: 0,
+    text: 'purpose',
+    headings: false,
+    maxBodySize: 10,
+    minBodySize: 6
+  })
+});
+
+registerPrintTemplate({
+  id: 'avery-22805',
+  name: 'printTemplate.avery-22805.name',
+  description: 'printTemplate.avery-22805.description',
+  pageWidth: 8.5,
+  pageHeight: 11,
+  cells: gridCells({ columns: 4, rows: 6, width: 1.5, height: 1.5, left: 0.75, top: 0.5, gapX: 1 / 3, gapY: 0.2 }),
+  guides: 'none',
+  layoutCell: cellLayout({
+    arrangement: 'stacked',
+    padding: 6,
+    qrPadding: 0,
+    text: 'purpose',
+    headings: false,
+    maxBodySize: 9,
+    minBodySize: 6
+  })
+});
@@ -0,0 +1,50 @@
+import { QRCode } from './supabase';
+import { FlyerDesign } from './flyerExport';
+import { PAYLOAD_TYPES } from './payloads';
+import type { Translator } from './i18n';
+import { DEFAULT_LOGO_SETTINGS } from './logoPlacement';
+import { DEFAULT_QR_STYLE } from './qrStyle';
+import { DEFAULT_FLYER_FONTS } from './flyerFonts';
+import { parseStoredHeadings, parseStoredTranslations } from './flyerLanguages';
+
+export const THUMBNAIL_SIZE = 64;
+
+export const getPayloadTypeLabel = (code: QRCode, t: Translator['t']) => {
+  const type = PAYLOAD_TYPES.find(({ value }) => value === code.payload_type);
+  return type ? t(type.label) : code.payload_type;
+};
+
+// The saved name, or something recognisable from the content
+export const getQRCodeTitle = (code: QRCode, t: Translator['t']): string => {
+  if (code.name) return code.name;
+  if (code.payload_type === 'url') {
+    try {
+      const { hostname, pathname } = new URL(code.url);
+      return `${hostname}${pathname === '/' ? '' : pathname}`;
+    } catch {
+      return code.url;
+    }
+  }
+  return getPayloadTypeLabel(code, t);
+};
+
+// Thumbnails skip the stored logo rather than downloading one per row.
+// Dynamic codes render their destination rather than the short link.
+export const recordToDesign = (code: QRCode, size: number = THUMBNAIL_SIZE): FlyerDesign => ({
+  value: code.url,
+  qrColor: code.qr_color,
+  bgColor: code.bg_color,
+  style: code.qr_style ?? DEFAULT_QR_STYLE,
+  size,
+  level: code.error_correction,
+  logo: null,
+  logoSettings: code.logo_settings ?? DEFAULT_LOGO_SETTINGS,
+  pageColor: '#ffffff',
+  fonts: code.flyer_fonts ?? DEFAULT_FLYER_FONTS,
+  language: code.language,
+  headings: parseStoredHeadings(code.flyer_headings, code.language),
+  orgDescription: code.org_description,
+  urlPurpose: code.url_purpose,
+  translations: parseStoredTranslations(code.translations),
+  textLanguages: []
+});
@@ -0,0 +1,46 @@
+import QRCode from 'qrcode';
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+// Quiet zone required by the QR spec (matches qrcode.react's includeMargin)
+export const QUIET_ZONE_MODULES = 4;
+
+export interface QRMatrix {
+  size: number;
+  modules: boolean[][];
+}
+
+// Encodes the payload into a module matrix so it can be drawn as vectors
+export const getQRMatrix = (value: string, level: ErrorCorrectionLevel = 'H'): QRMatrix => {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: level });
+  const rows: boolean[][] = [];
+
+  for (let row = 0; row < modules.size; row++) {
+    const cells: boolean[] = [];
+    for (let col = 0; col < modules.size; col++) {
+      cells.push(modules.get(row, col) === 1);
+    }
+    rows.push(cells);
+  }
+
+  return { size: modules.size, modules: rows };
+};
+
+// Horizontal runs of dark modules; far fewer shapes than one rect per module
+export const getModuleRuns = (matrix: QRMatrix): Array<{ row: number; col: number; length: number }> => {
+  const runs: Array<{ row: number; col: number; length: number }> = [];
+
+  matrix.modules.forEach((cells, row) => {
+    let start = -1;
+    cells.forEach((dark, col) => {
+      if (dark && start < 0) start = col;
+      if ((!dark || col === cells.length - 1) && start >= 0) {
+        const end = dark ? col + 1 : col;
+        runs.push({ row, col: start, length: end - start });
+        start = -1;
+      }
+    });
+  });
+
+  return runs;
+};
@@ -0,0 +1,231 @@
+import { QRMatrix, getModuleRuns } from './qrMatrix';
+import type { MessageKey } from './i18n';
+
+export type ModuleShape = 'square' | 'dots' | 'rounded' | 'classy';
+export type EyeShape = 'square' | 'rounded' | 'circle';
+export type GradientType = 'none' | 'linear' | 'radial';
+
+export interface QRGradient {
+  type: GradientType;
+  color: string;  // End color; the code color is the start
+  angle: number;  // Degrees, linear gradients only
+}
+
+export interface QRStyle {
+  moduleShape: ModuleShape;
+  eyeFrameShape: EyeShape;
+  eyeBallShape: EyeShape;
+  eyeFrameColor: string | null;  // null follows the code color
+  eyeBallColor: string | null;
+  gradient: QRGradient;
+}
+
+export const DEFAULT_QR_STYLE: QRStyle = {
+  moduleShape: 'square',
+  eyeFrameShape: 'square',
+  eyeBallShape: 'square',
+  eyeFrameColor: null,
+  eyeBallColor: null,
+  gradient: { type: 'none', color: '#4f46e5', angle: 45 }
+};
+
+export const MODULE_SHAPES: { value: ModuleShape; label: MessageKey }[] = [
+  { value: 'square', label: 'qrStyle.module.square' },
+  { value: 'dots', label: 'qrStyle.module.dots' },
+  { value: 'rounded', label: 'qrStyle.module.rounded' },
+  { value: 'classy', label: 'qrStyle.module.classy' }
+];
+
+export const EYE_SHAPES: { value: EyeShape; label: MessageKey }[] = [
+  { value: 'square', label: 'qrStyle.eye.square' },
+  { value: 'rounded', label: 'qrStyle.eye.rounded' },
+  { value: 'circle', label: 'qrStyle.eye.circle' }
+];
+
+// Path commands in module units, origin at the top-left module
+export type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+export type QRFill =
+  | { type: 'solid'; color: string }
+  | { type: 'linear'; x1: number; y1: number; x2: number; y2: number; from: string; to: string }
+  | { type: 'radial'; cx: number; cy: number; r: number; from: string; to: string };
+
+export interface QRShapeLayer {
+  fill: QRFill;
+  path: PathCommand[];
+}
+
+const FINDER_SIZE = 7;
+const DOT_RADIUS = 0.45;
+// Control point distance for approximating a quarter circle with a cubic Bezier
+const KAPPA = 0.5523;
+
+type Radii = [number, number, number, number];  // top-left, top-right, bottom-right, bottom-left
+
+// Rounded rectangle as one closed subpath. Holes are drawn counter-clockwise so
+// that nonzero filling leaves them empty in every renderer.
+const roundedRect = (x: number, y: number, w: number, h: number, [tl, tr, br, bl]: Radii, counterClockwise = false): PathCommand[] => {
+  const k = KAPPA;
+  const path: PathCommand[] = [['M', x + tl, y]];
+
+  if (!counterClockwise) {
+    path.push(['L', x + w - tr, y]);
+    if (tr) path.push(['C', x + w - tr + k * tr, y, x + w, y + tr - k * tr, x + w, y + tr]);
+    path.push(['L', x + w, y + h - br]);
+    if (br) path.push(['C', x + w, y + h - br + k * br, x + w - br + k * br, y + h, x + w - br, y + h]);
+    path.push(['L', x + bl, y + h]);
+    if (bl) path.push(['C', x + bl - k * bl, y + h, x, y + h - bl + k * bl, x, y + h - bl]);
+    path.push(['L', x, y + tl]);
+    if (tl) path.push(['C', x, y + tl - k * tl, x + tl - k * tl, y, x + tl, y]);
+  } else {
+    if (tl) path.push(['C', x + tl - k * tl, y, x, y + tl - k * tl, x, y + tl]);
+    path.push(['L', x, y + h - bl]);
+    if (bl) path.push(['C', x, y + h - bl + k * bl, x + bl - k * bl, y + h, x + bl, y + h]);
+    path.push(['L', x + w - br, y + h]);
+    if (br) path.push(['C', x + w - br + k * br, y + h, x + w, y + h - br + k * br, x + w, y + h - br]);
+    path.push(['L', x + w, y + tr]);
+    if (tr) path.push(['C', x + w, y + tr - k * tr, x + w - tr + k * tr, y, x + w - tr, y]);
+  }
+
+  path.push(['Z']);
+  return path;
+};
+
+const uniform = (r: number): Radii => [r, r, r, r];
+
+// Top-left corners of the three finder patterns
+export const finderOrigins = (size: number): [number, number][] => [
+  [0, 0],
+  [size - FINDER_SIZE, 0],
+  [0, size - FINDER_SIZE]
+];
+
+const isInFinder = (size: number, row: number, col: number) =>
+  finderOrigins(size).some(([x, y]) => col >= x && col < x + FINDER_SIZE && row >= y && row < y + FINDER_SIZE);
+
+const frameRadii = (shape: EyeShape): { outer: number; inner: number } => {
+  switch (shape) {
+    case 'square':
+      return { outer: 0, inner: 0 };
+    case 'rounded':
+      return { outer: 2, inner: 1 };
+    case 'circle':
+      return { outer: 3.5, inner: 2.5 };
+  }
+};
+
+const ballRadius = (shape: EyeShape) => (shape === 'square' ? 0 : shape === 'rounded' ? 0.9 : 1.5);
+
+const modulePath = (matrix: QRMatrix, shape: ModuleShape): PathCommand[] => {
+  const { size, modules } = matrix;
+  const isDark = (row: number, col: number) =>
+    row >= 0 && col >= 0 && row < size && col < size && modules[row][col] && !isInFinder(size, row, col);
+
+  if (shape === 'square') {
+    return getModuleRuns(matrix)
+      .flatMap(({ row, col, length }) => {
+        // Runs never cross a finder's separator column, so they are either fully
+        // inside a finder or fully outside
+        if (isInFinder(size, row, col)) return [];
+        return roundedRect(col, row, length, 1, uniform(0));
+      });
+  }
+
+  const path: PathCommand[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (!isDark(row, col)) continue;
+
+      if (shape === 'dots') {
+        const inset = 0.5 - DOT_RADIUS;
+        path.push(...roundedRect(col + inset, row + inset, DOT_RADIUS * 2, DOT_RADIUS * 2, uniform(DOT_RADIUS)));
+        continue;
+      }
+
+      // Round only the corners where both neighbouring sides are empty, so
+      // connected modules still read as one shape
+      const up = isDark(row - 1, col);
+      const down = isDark(row + 1, col);
+      const left = isDark(row, col - 1);
+      const right = isDark(row, col + 1);
+      const round = (exposed: boolean) => (exposed ? 0.5 : 0);
+
+      const radii: Radii = shape === 'rounded'
+        ? [round(!up && !left), round(!up && !right), round(!down && !right), round(!down && !left)]
+        : [round(!up && !left), 0, round(!down && !right), 0];  // classy: leaf-like diagonal corners
+      path.push(...roundedRect(col, row, 1, 1, radii));
+    }
+  }
+  return path;
+};
+
+const eyePaths = (matrix: QRMatrix, style: QRStyle) => {
+  const frame = frameRadii(style.eyeFrameShape);
+  const ball = ballRadius(style.eyeBallShape);
+  const frames: PathCommand[] = [];
+  const balls: PathCommand[] = [];
+
+  finderOrigins(matrix.size).forEach(([x, y]) => {
+    frames.push(...roundedRect(x, y, FINDER_SIZE, FINDER_SIZE, uniform(frame.outer)));
+    frames.push(...roundedRect(x + 1, y + 1, FINDER_SIZE - 2, FINDER_SIZE - 2, uniform(frame.inner), true));
+    balls.push(...roundedRect(x + 2, y + 2, 3, 3, uniform(ball)));
+  });
+
+  return { frames, balls };
+};
+
+// The gradient spans the whole symbol so modules and eyes share one sweep
+const codeFill = (size: number, color: string, gradient: QRGradient): QRFill => {
+  const center = size / 2;
+
+  switch (gradient.type) {
+    case 'none':
+      return { type: 'solid', color };
+    case 'linear': {
+      const radians = (gradient.angle * Math.PI) / 180;
+      const dx = Math.cos(radians);
+      const dy = Math.sin(radians);
+      const half = ((Math.abs(dx) + Math.abs(dy)) * size) / 2;
+      return {
+        type: 'linear',
+        x1: center - dx * half,
+        y1: center - dy * half,
+        x2: center + dx * half,
+        y2: center + dy * half,
+        from: color,
+        to: gradient.color
+      };
+    }
+    case 'radial':
+      return { type: 'radial', cx: center, cy: center, r: size * Math.SQRT1_2, from: color, to: gradient.color };
+  }
+};
+
+// Splits the (possibly excavated) matrix into filled shapes: data modules, then
+// finder frames and balls, each with its own fill
+export const buildQRShapes = (matrix: QRMatrix, color: string, style: QRStyle): QRShapeLayer[] => {
+  const fill = codeFill(matrix.size, color, style.gradient);
+  const { frames, balls } = eyePaths(matrix, style);
+
+  return [
+    { fill, path: modulePath(matrix, style.moduleShape) },
+    { fill: style.eyeFrameColor ? { type: 'solid', color: style.eyeFrameColor } : fill, path: frames },
+    { fill: style.eyeBallColor ? { type: 'solid', color: style.eyeBallColor } : fill, path: balls }
+  ];
+};
+
+// Every color that ends up as a dark module, for contrast checks
+export const getStyleColors = (qrColor: string, style: QRStyle): string[] => {
+  const colors = [qrColor];
+  if (style.gradient.type !== 'none') colors.push(style.gradient.color);
+  if (style.eyeFrameColor) colors.push(style.eyeFrameColor);
+  if (style.eyeBallColor) colors.push(style.eyeBallColor);
+  return colors;
+};
+
+export const isSquareStyle = (style: QRStyle) =>
+  style.moduleShape === 'square' && style.eyeFrameShape === 'square' && style.eyeBallShape === 'square';
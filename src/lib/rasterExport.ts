@@ -0,0 +1,215 @@
+import { FlyerElement, FlyerLayout, LoadedImage } from './flyerLayout';
+import { getFontFamily } from './flyerFonts';
+import { QRFill, QRShapeLayer } from './qrStyle';
+
+type TextElement = Extract<FlyerElement, { type: 'text' }>;
+
+const getCanvasFont = ({ bold, fontSize, font }: TextElement) => `${bold ? 'bold ' : ''}${fontSize}px ${getFontFamily(font)}`;
+
+// Expects the context to be transformed to module units
+const drawShapes = (ctx: CanvasRenderingContext2D, shapes: QRShapeLayer[]) => {
+  const toStyle = (fill: QRFill) => {
+    if (fill.type === 'solid') return fill.color;
+    const gradient = fill.type === 'linear'
+      ? ctx.createLinearGradient(fill.x1, fill.y1, fill.x2, fill.y2)
+      : ctx.createRadialGradient(fill.cx, fill.cy, 0, fill.cx, fill.cy, fill.r);
+    gradient.addColorStop(0, fill.from);
+    gradient.addColorStop(1, fill.to);
+    return gradient;
+  };
+
+  shapes.forEach(({ fill, path }) => {
+    ctx.beginPath();
+    path.forEach((command) => {
+      switch (command[0]) {
+        case 'M':
+          ctx.moveTo(command[1], command[2]);
+          break;
+        case 'L':
+          ctx.lineTo(command[1], command[2]);
+          break;
+        case 'C':
+          ctx.bezierCurveTo(command[1], command[2], command[3], command[4], command[5], command[6]);
+          break;
+        case 'Z':
+          ctx.closePath();
+          break;
+      }
+    });
+    ctx.fillStyle = toStyle(fill);
+    ctx.fill();
+  });
+};
+
+// Draws the same layout the vector exports use onto a canvas, for PNG/JPG
+// downloads and the on-screen preview
+export const drawFlyer = async (canvas: HTMLCanvasElement, layout: FlyerLayout, pixelRatio: number = 1) => {
+  const width = Math.ceil(layout.width * pixelRatio);
+  const height = Math.ceil(layout.height * pixelRatio);
+
+  // Decode images before touching the canvas so it never shows a half-drawn frame
+  const images = new Map<string, HTMLImageElement>();
+  for (const element of layout.elements) {
+    if (element.type === 'image' && !images.has(element.image.href)) {
+      const img = new Image();
+      img.src = element.image.href;
+      await img.decode();
+      images.set(element.image.href, img);
+    }
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  ctx.scale(pixelRatio, pixelRatio);
+  if (layout.background) {
+    ctx.fillStyle = layout.background;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+  }
+
+  layout.elements.forEach((element) => {
+    switch (element.type) {
+      case 'rect':
+        ctx.fillStyle = element.fill;
+        ctx.beginPath();
+        ctx.roundRect(element.x, element.y, element.width, element.height, element.radius ?? 0);
+        ctx.fill();
+        if (element.stroke) {
+          ctx.strokeStyle = element.stroke;
+          ctx.lineWidth = element.strokeWidth ?? 1;
+          ctx.stroke();
+        }
+        break;
+      case 'qr':
+        ctx.save();
+        ctx.translate(element.x, element.y);
+        ctx.scale(element.moduleSize, element.moduleSize);
+        drawShapes(ctx, element.shapes);
+        ctx.restore();
+        break;
+      case 'image': {
+        const img = images.get(element.image.href);
+        if (img) ctx.drawImage(img, element.x, element.y, element.width, element.height);
+        break;
+      }
+      case 'text':
+        ctx.fillStyle = element.color;
+        ctx.font = getCanvasFont(element);
+        ctx.direction = element.direction;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(element.text, element.x, element.y);
+        break;
+    }
+  });
+};
+
+// A line of text as a transparent PNG, for formats whose built-in fonts can't
+// draw its script. The box is in layout units around the element's baseline.
+export const renderTextImage = (element: TextElement, pixelRatio: number): { image: LoadedImage; x: number; y: number; width: number; height: number } => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  ctx.font = getCanvasFont(element);
+  ctx.direction = element.direction;
+  ctx.textAlign = 'center';
+  const metrics = ctx.measureText(element.text);
+  // Pad for glyphs that overhang their measured box
+  const pad = element.fontSize * 0.1;
+  const left = metrics.actualBoundingBoxLeft + pad;
+  const width = left + metrics.actualBoundingBoxRight + pad;
+  const ascent = metrics.actualBoundingBoxAscent + pad;
+  const height = ascent + metrics.actualBoundingBoxDescent + pad;
+
+  canvas.width = Math.max(1, Math.ceil(width * pixelRatio));
+  canvas.height = Math.max(1, Math.ceil(height * pixelRatio));
+  // Resizing resets the context
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.font = getCanvasFont(element);
+  ctx.direction = element.direction;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = element.color;
+  ctx.fillText(element.text, left, ascent);
+
+  return {
+    image: { href: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height },
+    x: element.x - left,
+    y: element.y - ascent,
+    width,
+    height
+  };
+};
+
+export const renderFlyerToCanvas = async (layout: FlyerLayout, pixelRatio: number = 1): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  await drawFlyer(canvas, layout, pixelRatio);
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      type,
+      quality
+    );
+  });
+};
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Inserts a pHYs chunk right after IHDR (8-byte signature + 25-byte chunk)
+const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);  // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1;  // Unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const insertAt = 33;
+  const result = new Uint8Array(bytes.length + chunk.length);
+  result.set(bytes.subarray(0, insertAt));
+  result.set(chunk, insertAt);
+  result.set(bytes.subarray(insertAt), insertAt + chunk.length);
+  return result;
+};
+
+// Rewrites the density fields of the JFIF APP0 segment browsers emit
+const setJpegDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const isJfif = String.fromCharCode(...bytes.subarray(6, 11)) === 'JFIF\0';
+  if (!isJfif) return bytes;
+
+  const result = bytes.slice();
+  const view = new DataView(result.buffer);
+  result[13] = 1;  // Units: dots per inch
+  view.setUint16(14, dpi);
+  view.setUint16(16, dpi);
+  return result;
+};
+
+// Records the print resolution in the file so layout and print software
+// place the image at its intended physical size
+export const setImageDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const tagged = blob.type === 'image/png' ? setPngDpi(bytes, dpi) : setJpegDpi(bytes, dpi);
+  return new Blob([tagged], { type: blob.type });
+};
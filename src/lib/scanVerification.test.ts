@@ -0,0 +1,85 @@
+import { readFileSync } from 'node:fs';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { RGBAImage, blurImage, downscaleImage, verifyScannability } from './scanVerification';
+
+const loadFixture = (name: string): RGBAImage => {
+  const { data, width, height } = PNG.sync.read(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url)));
+  return { data: new Uint8ClampedArray(data), width, height };
+};
+
+// Version 2 code at 8px per module
+const DECODABLE_TEXT = 'https://example.org/donate';
+// Version 7 code at 2px per module: readable at full size only
+const SMALL_TEXT = 'https://example.org/spring-appeal?utm_source=flyer&utm_medium=print&utm_campaign=spring-2026&utm_content=table-12';
+
+const invert = ({ data, width, height }: RGBAImage): RGBAImage => ({
+  data: data.map((value, index) => (index % 4 === 3 ? value : 255 - value)),
+  width,
+  height
+});
+
+describe('verifyScannability', () => {
+  it('passes a clean code that decodes to the expected text', () => {
+    const report = verifyScannability(loadFixture('decodable.png'), DECODABLE_TEXT);
+
+    expect(report.status).toBe('pass');
+    expect(report.decodedText).toBe(DECODABLE_TEXT);
+    expect(report.inverted).toBe(false);
+    expect(report.tests.every((test) => test.decoded && test.matches)).toBe(true);
+    expect(report.messages).toEqual([]);
+  });
+
+  it('fails a code that cannot be decoded', () => {
+    const report = verifyScannability(loadFixture('undecodable.png'), DECODABLE_TEXT);
+
+    expect(report.status).toBe('fail');
+    expect(report.decodedText).toBeNull();
+    expect(report.tests).toEqual([{ name: 'Full resolution', decoded: false, matches: false }]);
+    expect(report.messages).toHaveLength(1);
+  });
+
+  it('fails a code that decodes to different content', () => {
+    const report = verifyScannability(loadFixture('decodable.png'), 'https://example.org/other');
+
+    expect(report.status).toBe('fail');
+    expect(report.decodedText).toBe(DECODABLE_TEXT);
+    expect(report.tests).toEqual([{ name: 'Full resolution', decoded: true, matches: false }]);
+  });
+
+  it('warns when the code only reads at full resolution', () => {
+    const report = verifyScannability(loadFixture('small.png'), SMALL_TEXT);
+
+    expect(report.status).toBe('warn');
+    expect(report.tests[0]).toEqual({ name: 'Full resolution', decoded: true, matches: true });
+    expect(report.tests.some((test) => !test.matches)).toBe(true);
+    expect(report.messages.length).toBeGreaterThan(0);
+  });
+
+  it('warns about light-on-dark codes', () => {
+    const report = verifyScannability(invert(loadFixture('decodable.png')), DECODABLE_TEXT);
+
+    expect(report.status).toBe('warn');
+    expect(report.inverted).toBe(true);
+    expect(report.decodedText).toBe(DECODABLE_TEXT);
+  });
+});
+
+describe('downscaleImage', () => {
+  it('averages the source pixels each output pixel covers', () => {
+    const image: RGBAImage = {
+      data: new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255]),
+      width: 2,
+      height: 1
+    };
+
+    expect(Array.from(downscaleImage(image, 0.5).data)).toEqual([128, 128, 128, 255]);
+  });
+});
+
+describe('blurImage', () => {
+  it('returns the image unchanged for a radius below one', () => {
+    const image = loadFixture('decodable.png');
+    expect(blurImage(image, 0)).toBe(image);
+  });
+});
@@ -0,0 +1,172 @@
+import jsQR from 'jsqr';
+import type { LocalizedMessage } from './i18n';
+
+// Plain RGBA pixels (same shape as ImageData) so the checks run without a DOM
+export interface RGBAImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export type ScanStatus = 'pass' | 'warn' | 'fail';
+
+export interface ScanTestResult {
+  name: string;
+  decoded: boolean;
+  matches: boolean;
+}
+
+export interface ScanReport {
+  status: ScanStatus;
+  decodedText: string | null;
+  inverted: boolean;
+  tests: ScanTestResult[];
+  messages: LocalizedMessage[];
+}
+
+// Degraded conditions that approximate a small print scanned from a distance
+// or a slightly out-of-focus phone camera
+const REDUCED_SCALES = [0.5, 0.25];
+const BLUR_RADIUS_FRACTION = 0.004;
+// jsQR struggles far above this; phone cameras work at lower resolutions anyway
+const MAX_DECODE_DIMENSION = 1000;
+
+// Box-filter downscale; each output pixel averages the source pixels it covers
+export const downscaleImage = (image: RGBAImage, scale: number): RGBAImage => {
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+  const stepX = image.width / width;
+  const stepY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * stepY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * stepY));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * stepX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * stepX));
+      const sums = [0, 0, 0, 0];
+      let count = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          sums[0] += image.data[i];
+          sums[1] += image.data[i + 1];
+          sums[2] += image.data[i + 2];
+          sums[3] += image.data[i + 3];
+          count++;
+        }
+      }
+      const o = (y * width + x) * 4;
+      data[o] = sums[0] / count;
+      data[o + 1] = sums[1] / count;
+      data[o + 2] = sums[2] / count;
+      data[o + 3] = sums[3] / count;
+    }
+  }
+
+  return { data, width, height };
+};
+
+const blurPass = (source: Uint8ClampedArray, width: number, height: number, radius: number, horizontal: boolean) => {
+  const output = new Uint8ClampedArray(source.length);
+  const outer = horizontal ? height : width;
+  const inner = horizontal ? width : height;
+
+  for (let a = 0; a < outer; a++) {
+    for (let b = 0; b < inner; b++) {
+      const sums = [0, 0, 0, 0];
+      let count = 0;
+      for (let k = Math.max(0, b - radius); k <= Math.min(inner - 1, b + radius); k++) {
+        const i = (horizontal ? a * width + k : k * width + a) * 4;
+        sums[0] += source[i];
+        sums[1] += source[i + 1];
+        sums[2] += source[i + 2];
+        sums[3] += source[i + 3];
+        count++;
+      }
+      const o = (horizontal ? a * width + b : b * width + a) * 4;
+      output[o] = sums[0] / count;
+      output[o + 1] = sums[1] / count;
+      output[o + 2] = sums[2] / count;
+      output[o + 3] = sums[3] / count;
+    }
+  }
+
+  return output;
+};
+
+// Separable box blur
+export const blurImage = (image: RGBAImage, radius: number): RGBAImage => {
+  if (radius < 1) return image;
+  const horizontal = blurPass(image.data, image.width, image.height, radius, true);
+  return { data: blurPass(horizontal, image.width, image.height, radius, false), width: image.width, height: image.height };
+};
+
+const fitForDecoding = (image: RGBAImage): RGBAImage => {
+  const largest = Math.max(image.width, image.height);
+  return largest > MAX_DECODE_DIMENSION ? downscaleImage(image, MAX_DECODE_DIMENSION / largest) : image;
+};
+
+const decode = (image: RGBAImage) => {
+  const normal = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+  if (normal) return { text: normal.data, inverted: false };
+
+  // 'onlyInvert' crashes in jsQR 1.4; after a failed normal pass, any hit here is inverted
+  const inverted = jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' });
+  return inverted ? { text: inverted.data, inverted: true } : null;
+};
+
+const runTest = (name: string, image: RGBAImage, expected: string): ScanTestResult => {
+  const result = decode(image);
+  return { name, decoded: !!result, matches: result?.text === expected };
+};
+
+// Decodes the rendered code as-is, at reduced resolutions and blurred, and
+// compares each result with the payload it is supposed to carry.
+export const verifyScannability = (image: RGBAImage, expected: string): ScanReport => {
+  const base = fitForDecoding(image);
+  const primary = decode(base);
+  if (!primary) {
+    return {
+      status: 'fail',
+      decodedText: null,
+      inverted: false,
+      tests: [{ name: 'Full resolution', decoded: false, matches: false }],
+      messages: [{ key: 'scan.unreadable' }]
+    };
+  }
+
+  if (primary.text !== expected) {
+    return {
+      status: 'fail',
+      decodedText: primary.text,
+      inverted: primary.inverted,
+      tests: [{ name: 'Full resolution', decoded: true, matches: false }],
+      messages: [{ key: 'scan.wrongContent' }]
+    };
+  }
+
+  const tests: ScanTestResult[] = [{ name: 'Full resolution', decoded: true, matches: true }];
+  const failures: LocalizedMessage[] = [];
+  REDUCED_SCALES.forEach((scale) => {
+    const percent = Math.round(scale * 100);
+    const test = runTest(`${percent}% resolution`, downscaleImage(base, scale), expected);
+    tests.push(test);
+    if (!test.matches) failures.push({ key: 'scan.reducedFailed', params: { percent } });
+  });
+  const blurRadius = Math.max(1, Math.round(Math.max(base.width, base.height) * BLUR_RADIUS_FRACTION));
+  const blurred = runTest('Blurred', blurImage(base, blurRadius), expected);
+  tests.push(blurred);
+  if (!blurred.matches) failures.push({ key: 'scan.blurredFailed' });
+
+  const messages: LocalizedMessage[] = primary.inverted ? [{ key: 'scan.inverted' }, ...failures] : failures;
+
+  return {
+    status: messages.length ? 'warn' : 'pass',
+    decodedText: primary.text,
+    inverted: primary.inverted,
+    tests,
+    messages
+  };
+};
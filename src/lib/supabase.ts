@@ -1,4 +1,15 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError, isAuthError, isAuthRetryableFetchError } from '@supabase/supabase-js';
+import { PayloadType, PayloadFields } from './payloads';
+import { UtmParams } from './utm';
+import { ErrorCorrectionLevel } from './qrMatrix';
+import { LogoSettings } from './logoPlacement';
+import { QRStyle, getStyleColors } from './qrStyle';
+import { FlyerFont, FlyerFonts } from './flyerFonts';
+import { FlyerHeadings, FlyerTranslation } from './flyerLanguages';
+import { analyzeStyledContrast } from './contrast';
+import { findOffPaletteColors } from './brandKits';
+import { dataUrlToBlob, blobToDataUrl, hashBlob, logoExtension } from './logoFiles';
+import type { MessageKey } from './i18n';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -8,8 +19,18 @@ export const APP_IDS = {
   QR_CODE_GENERATOR: 'qr-gen-v1'
 } as const;
 
-// Validate Supabase URL and key
-if (!supabaseUrl?.startsWith('https://')) {
+// Validate Supabase URL and key. Plain http is only accepted for a local
+// Supabase stack (supabase start serves http://127.0.0.1:54321).
+const isLocalSupabaseUrl = (value: string) => {
+  try {
+    const { protocol, hostname } = new URL(value);
+    return protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(hostname);
+  } catch {
+    return false;
+  }
+};
+
+if (!supabaseUrl?.startsWith('https://') && !isLocalSupabaseUrl(supabaseUrl ?? '')) {
   console.error('Invalid or missing Supabase URL. Please check your environment variables.');
   throw new Error('Invalid or missing Supabase URL');
 }
@@ -19,23 +40,75 @@ if (!supabaseAnonKey) {
   throw new Error('Missing Supabase anonymous key');
 }
 
-// Initialize Supabase client
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Initialize Supabase client. Sessions are kept in localStorage and refreshed
+// automatically; magic links are picked up from the URL on return.
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  auth: {
+    persistSession: true,
+    autoRefreshToken: true,
+    detectSessionInUrl: true
+  }
+});
 
 // Type definitions
 export interface User {
   id?: string;
+  auth_id?: string | null;  // auth.users id of the account that owns this profile
   email: string;
   name: string;
   organization?: string;
-  ein?: string;
+  charity_id_country?: string | null;  // ISO 3166-1 alpha-2 code of the charity ID
+  charity_id?: string | null;          // Canonical charity registration number, see lib/charityIds
   app_ids?: string[];
   created_at?: string;
 }
 
+export type OrganizationRole = 'owner' | 'editor' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  country: string;              // ISO 3166-1 alpha-2 code
+  registration_number: string;  // Canonical charity ID (EIN, charity number, BN, ABN, ...)
+  created_by?: string | null;
+  verified_at?: string | null;  // Set while the claim is confirmed and the EIN and name match the IRS data
+  claimed_at?: string | null;   // Set once an administrator confirms the workspace represents the charity
+  created_at?: string;
+}
+
+export interface OrganizationMembership {
+  organization: Organization;
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  role: OrganizationRole;
+  user: Pick<User, 'name' | 'email'> | null;
+  created_at?: string;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: OrganizationRole;
+  invited_by?: string | null;
+  created_at?: string;
+  organization?: Pick<Organization, 'name'> | null;  // Joined for the invitee
+}
+
+// Whose records to work with: the user's personal ones, or an organization's
+export interface WorkspaceScope {
+  userId: string;
+  organizationId: string | null;
+}
+
 export interface QRCode {
   id?: string;
-  user_id: string;
+  user_id: string;  // Creator; organization codes are shared with every member
+  organization_id: string | null;
+  name: string | null;  // Set from the library; null shows a name derived from the content
   url: string;
   org_description: string;
   url_purpose: string;
@@ -43,6 +116,88 @@ export interface QRCode {
   bg_color: string;
   size: number;
   has_logo: boolean;
+  logo_key: string | null;  // Path of the logo in the logos bucket
+  error_correction: ErrorCorrectionLevel;
+  logo_settings: LogoSettings | null;
+  qr_style: QRStyle | null;  // null renders plain square modules
+  flyer_fonts: FlyerFonts | null;  // null uses the default fonts
+  language: string;  // Of org_description and url_purpose
+  flyer_headings: FlyerHeadings | null;  // null uses the language's default headings
+  translations: FlyerTranslation[];
+  dynamic_link_id?: string | null;
+  payload_type: PayloadType;
+  payload_data: PayloadFields | null;  // Structured fields so the code can be reopened and edited
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  created_at?: string;
+}
+
+export interface UtmPreset {
+  id?: string;
+  user_id: string;
+  name: string;
+  params: UtmParams;
+  created_at?: string;
+}
+
+export interface DynamicLink {
+  id?: string;
+  user_id: string;
+  slug: string;
+  target_url: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Scan {
+  id?: string;
+  link_id: string;
+  scanned_at?: string;
+  user_agent: string | null;
+  referrer: string | null;
+}
+
+export interface BrandColor {
+  name: string;
+  color: string;  // #rrggbb
+}
+
+export interface BrandKit {
+  id?: string;
+  user_id: string;
+  organization_id: string | null;
+  name: string;
+  palette: BrandColor[];
+  qr_color: string;   // Default code and background colors, taken from the palette
+  bg_color: string;
+  primary_logo_key: string | null;
+  alternate_logo_key: string | null;
+  heading_font: FlyerFont;
+  body_font: FlyerFont;
+  default_description: string;
+  enforce_palette: boolean;  // Restrict every color picker to the palette
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A row of the IRS exempt-organization data (EO BMF and Publication 78)
+export interface ExemptOrganization {
+  ein: string;  // Nine digits
+  name: string;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  bmf_deductibility: string | null;  // EO BMF DEDUCTIBILITY code
+  pub78_codes: string[];             // Publication 78 deductibility status codes
+  imported_at?: string;
+}
+
+export interface StoredLogo {
+  key: string;         // <auth uid>/<content hash>.<ext> in the logos bucket
+  url: string;         // Short-lived signed URL for thumbnails
   created_at?: string;
 }
 
@@ -88,82 +243,148 @@ export const updateVisit = async (userId: string, appId: string) => {
   }
 };
 
-export const saveUser = async (userData: Omit<User, 'id' | 'created_at' | 'app_ids'>) => {
+export interface SignInProfile {
+  name: string;
+  organization?: string;
+  charity_id_country?: string;
+  charity_id?: string;
+}
+
+// Sends a magic link that also carries a one-time code. The profile fields are
+// only used by the database trigger when this email has no account yet.
+export const sendSignInEmail = async (email: string, profile: SignInProfile) => {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: window.location.origin,
+        data: {
+          name: profile.name,
+          organization: profile.organization || undefined,
+          charity_id_country: profile.charity_id ? profile.charity_id_country : undefined,
+          charity_id: profile.charity_id || undefined
+        }
+      }
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error sending sign-in email:', error);
+    throw error;
+  }
+};
+
+export const verifySignInCode = async (email: string, code: string) => {
+  try {
+    const { error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error verifying sign-in code:', error);
+    throw error;
+  }
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error('Error signing out:', error);
+    throw error;
+  }
+};
+
+const AUTH_ERROR_MESSAGES: Record<string, MessageKey> = {
+  otp_expired: 'signIn.error.code',
+  email_address_invalid: 'signIn.error.emailInvalid',
+  over_email_send_rate_limit: 'signIn.error.rateLimited',
+  over_request_rate_limit: 'signIn.error.rateLimited',
+  signup_disabled: 'signIn.error.signupDisabled',
+  otp_disabled: 'signIn.error.disabled',
+  email_provider_disabled: 'signIn.error.disabled',
+  user_banned: 'signIn.error.banned',
+  session_not_found: 'signIn.error.sessionExpired'
+};
+
+// Message for a failed Supabase Auth call, by its error code. The server's own
+// text is English only, so unknown codes get the caller's fallback.
+export const getAuthErrorMessage = (err: unknown, fallback: MessageKey): MessageKey => {
+  if (isAuthRetryableFetchError(err)) return 'signIn.error.network';
+  return (isAuthError(err) && err.code && AUTH_ERROR_MESSAGES[err.code]) || fallback;
+};
+
+// Profile row of the signed-in account. The auth trigger links or creates it
+// on first sign-in; row-level security only exposes the caller's own row.
+export const getSignedInUser = async (): Promise<User | null> => {
   try {
-    // Prepare user data by ensuring optional fields are undefined if empty
-    const cleanUserData = {
-      email: userData.email,
-      name: userData.name,
-      organization: userData.organization || undefined,  // Convert empty string to undefined
-      ein: userData.ein || undefined,  // Convert empty string to undefined
-    };
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+    if (authError || !authUser) return null;
 
-    // Check for existing user
-    const { data: existingUser, error: fetchError } = await supabase
+    const { data: profile, error } = await supabase
       .from('users')
       .select('*')
-      .eq('email', cleanUserData.email)
+      .eq('auth_id', authUser.id)
       .maybeSingle();
 
-    if (fetchError) throw fetchError;
-
-    if (existingUser) {
-      // If user exists but doesn't have QR_CODE_GENERATOR in app_ids, add it
-      const updatedAppIds = [...(existingUser.app_ids || [])];
-      if (!updatedAppIds.includes(APP_IDS.QR_CODE_GENERATOR)) {
-        updatedAppIds.push(APP_IDS.QR_CODE_GENERATOR);
-        
-        const { data: updatedUser, error: updateError } = await supabase
-          .from('users')
-          .update({
-            app_ids: updatedAppIds,
-            // Only update fields that have values
-            ...(cleanUserData.name && { name: cleanUserData.name }),
-            ...(cleanUserData.organization && { organization: cleanUserData.organization }),
-            ...(cleanUserData.ein && { ein: cleanUserData.ein })
-          })
-          .eq('id', existingUser.id)
-          .select()
-          .single();
-
-        if (updateError) throw updateError;
-        return updatedUser;
-      }
-      return existingUser;
-    }
+    if (error) throw error;
+    if (!profile) return null;
 
-    // Create new user with QR_CODE_GENERATOR app_id
-    const { data: newUser, error: insertError } = await supabase
-      .from('users')
-      .insert([{
-        ...cleanUserData,
-        app_ids: [APP_IDS.QR_CODE_GENERATOR]
-      }])
-      .select()
-      .single();
+    let user = profile as User;
+    if (!user.app_ids?.includes(APP_IDS.QR_CODE_GENERATOR)) {
+      const { data: updatedUser, error: updateError } = await supabase
+        .from('users')
+        .update({ app_ids: [...(user.app_ids || []), APP_IDS.QR_CODE_GENERATOR] })
+        .eq('id', user.id)
+        .select()
+        .single();
 
-    if (insertError) throw insertError;
-    
-    // Only update visit count after successful user creation/update
-    if (newUser?.id) {
-      try {
-        await updateVisit(newUser.id, APP_IDS.QR_CODE_GENERATOR);
-      } catch (visitError) {
-        console.error('Visit tracking failed but user was saved:', visitError);
-      }
+      if (updateError) throw updateError;
+      user = updatedUser as User;
     }
 
-    return newUser;
+    if (user.id) {
+      await updateVisit(user.id, APP_IDS.QR_CODE_GENERATOR);
+    }
+
+    return user;
   } catch (error) {
-    console.error('Error in saveUser:', error);
+    console.error('Error loading signed-in user:', error);
     throw error;
   }
 };
 
-export const saveQRCode = async (qrData: Omit<QRCode, 'id' | 'created_at'>) => {
+// Same guardrail as the editor, so batch and reopened designs can't bypass it
+const assertScannableColors = (qrData: Pick<QRCode, 'qr_color' | 'bg_color' | 'qr_style'>) => {
+  const colors = qrData.qr_style ? getStyleColors(qrData.qr_color, qrData.qr_style) : [qrData.qr_color];
+  const contrast = analyzeStyledContrast(colors, qrData.bg_color);
+  if (contrast.status === 'fail') {
+    throw new Error(`Contrast ratio ${contrast.ratio.toFixed(1)}:1 is too low for reliable scanning`);
+  }
+};
+
+type QRCodeColors = Pick<QRCode, 'qr_color' | 'bg_color' | 'qr_style' | 'has_logo' | 'logo_settings'>;
+
+// An enforced brand kit limits every color the code is drawn with, so designs
+// saved outside the editor's checks can't leave the palette either
+const assertPaletteColors = (qrData: QRCodeColors, palette: string[]) => {
+  const colors = [
+    ...(qrData.qr_style ? getStyleColors(qrData.qr_color, qrData.qr_style) : [qrData.qr_color]),
+    qrData.bg_color,
+    ...(qrData.has_logo && qrData.logo_settings?.backplate ? [qrData.logo_settings.backplateColor] : []),
+    ...(qrData.has_logo && qrData.logo_settings && qrData.logo_settings.border > 0 ? [qrData.logo_settings.borderColor] : [])
+  ];
+  const offPalette = findOffPaletteColors(colors, palette);
+  if (offPalette.length) {
+    throw new Error(`${offPalette.join(', ')} ${offPalette.length > 1 ? 'are' : 'is'} not in the brand palette`);
+  }
+};
+
+// palette is the enforced brand kit's colors, if any
+export const saveQRCode = async (qrData: Omit<QRCode, 'id' | 'created_at'>, palette?: string[] | null) => {
   try {
     console.log('Attempting to save QR code with data:', qrData);
 
+    assertScannableColors(qrData);
+    if (palette) assertPaletteColors(qrData, palette);
+
     const { data, error } = await supabase
       .from('qr_codes')
       .insert([qrData])
@@ -181,4 +402,560 @@ export const saveQRCode = async (qrData: Omit<QRCode, 'id' | 'created_at'>) => {
     console.error('Error saving QR code:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export interface QRCodeFilters {
+  search?: string;             // Matches the URL/encoded content or the purpose
+  payloadType?: PayloadType;
+}
+
+export const QR_CODE_PAGE_SIZE = 50;
+
+// Quotes a value for a PostgREST `or` filter so commas and parentheses in the
+// search text can't break the expression
+const quoteFilterValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// One page of the workspace's codes, newest first; offset skips earlier pages
+export const getQRCodes = async (scope: WorkspaceScope, filters: QRCodeFilters = {}, offset = 0) => {
+  try {
+    let query = supabase
+      .from('qr_codes')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(offset, offset + QR_CODE_PAGE_SIZE - 1);
+
+    query = scope.organizationId
+      ? query.eq('organization_id', scope.organizationId)
+      : query.eq('user_id', scope.userId).is('organization_id', null);
+
+    if (filters.payloadType) {
+      query = query.eq('payload_type', filters.payloadType);
+    }
+
+    const search = filters.search?.trim();
+    if (search) {
+      const pattern = quoteFilterValue(`%${search.replace(/[%_]/g, (c) => `\\${c}`)}%`);
+      query = query.or(`name.ilike.${pattern},url.ilike.${pattern},url_purpose.ilike.${pattern}`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as QRCode[];
+  } catch (error) {
+    console.error('Error loading QR codes:', error);
+    throw error;
+  }
+};
+
+export const updateQRCode = async (
+  qrCodeId: string,
+  changes: Partial<Omit<QRCode, 'id' | 'user_id' | 'created_at'>>,
+  palette?: string[] | null
+) => {
+  try {
+    if (changes.qr_color && changes.bg_color) {
+      const colors: QRCodeColors = {
+        qr_color: changes.qr_color,
+        bg_color: changes.bg_color,
+        qr_style: changes.qr_style ?? null,
+        has_logo: changes.has_logo ?? false,
+        logo_settings: changes.logo_settings ?? null
+      };
+      assertScannableColors(colors);
+      if (palette) assertPaletteColors(colors, palette);
+    }
+
+    const { data, error } = await supabase
+      .from('qr_codes')
+      .update(changes)
+      .eq('id', qrCodeId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as QRCode;
+  } catch (error) {
+    console.error('Error updating QR code:', error);
+    throw error;
+  }
+};
+
+export const deleteQRCode = async (qrCodeId: string) => {
+  try {
+    const { error } = await supabase.from('qr_codes').delete().eq('id', qrCodeId);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting QR code:', error);
+    throw error;
+  }
+};
+
+// Copies share the original's dynamic link, so they keep pointing wherever it
+// redirects. The copy belongs to whoever makes it, in the original's workspace.
+export const duplicateQRCode = async (qrCode: QRCode, name: string, userId: string) => {
+  const copy: QRCode = { ...qrCode, name, user_id: userId };
+  delete copy.id;
+  delete copy.created_at;
+  return await saveQRCode(copy) as QRCode;
+};
+
+export const createDynamicLink = async (linkData: Omit<DynamicLink, 'id' | 'created_at' | 'updated_at'>) => {
+  try {
+    const { data, error } = await supabase
+      .from('dynamic_links')
+      .insert([linkData])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as DynamicLink;
+  } catch (error) {
+    console.error('Error creating dynamic link:', error);
+    throw error;
+  }
+};
+
+export const updateDynamicLinkTarget = async (linkId: string, targetUrl: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('dynamic_links')
+      .update({ target_url: targetUrl })
+      .eq('id', linkId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as DynamicLink;
+  } catch (error) {
+    console.error('Error updating dynamic link:', error);
+    throw error;
+  }
+};
+
+export const getDynamicLinkById = async (linkId: string) => {
+  const { data, error } = await supabase
+    .from('dynamic_links')
+    .select('*')
+    .eq('id', linkId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as DynamicLink | null;
+};
+
+// The redirect Edge Function resolves the slug and records the scan; visitors
+// can't read dynamic_links or write scans themselves
+export const getRedirectFunctionUrl = (slug: string) =>
+  `${supabaseUrl.replace(/\/+$/, '')}/functions/v1/redirect/${encodeURIComponent(slug)}`;
+
+export const getScanCount = async (linkId: string) => {
+  const { count, error } = await supabase
+    .from('scans')
+    .select('id', { count: 'exact', head: true })
+    .eq('link_id', linkId);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const getUtmPresets = async (userId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('utm_presets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) throw error;
+    return (data || []) as UtmPreset[];
+  } catch (error) {
+    console.warn('Could not load UTM presets:', error);
+    return [];
+  }
+};
+
+// Saving a preset with an existing name overwrites it
+export const saveUtmPreset = async (preset: Omit<UtmPreset, 'id' | 'created_at'>) => {
+  try {
+    const { data, error } = await supabase
+      .from('utm_presets')
+      .upsert(preset, { onConflict: 'user_id,name' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as UtmPreset;
+  } catch (error) {
+    console.error('Error saving UTM preset:', error);
+    throw error;
+  }
+};
+
+export const deleteUtmPreset = async (presetId: string) => {
+  try {
+    const { error } = await supabase.from('utm_presets').delete().eq('id', presetId);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting UTM preset:', error);
+    throw error;
+  }
+};
+
+export const getBrandKits = async (scope: WorkspaceScope) => {
+  try {
+    const query = supabase
+      .from('brand_kits')
+      .select('*')
+      .order('name');
+
+    const { data, error } = await (scope.organizationId
+      ? query.eq('organization_id', scope.organizationId)
+      : query.eq('user_id', scope.userId).is('organization_id', null));
+
+    if (error) throw error;
+    return (data || []) as BrandKit[];
+  } catch (error) {
+    console.error('Error loading brand kits:', error);
+    throw error;
+  }
+};
+
+// Inserts a new kit, or updates it when it already has an id
+export const saveBrandKit = async (kit: Omit<BrandKit, 'created_at' | 'updated_at'>) => {
+  try {
+    const { data, error } = await supabase
+      .from('brand_kits')
+      .upsert(kit)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as BrandKit;
+  } catch (error) {
+    console.error('Error saving brand kit:', error);
+    throw error;
+  }
+};
+
+export const deleteBrandKit = async (kitId: string) => {
+  try {
+    const { error } = await supabase.from('brand_kits').delete().eq('id', kitId);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting brand kit:', error);
+    throw error;
+  }
+};
+
+// Looks an EIN (nine digits) up in the imported IRS data; null when unknown
+export const getExemptOrganization = async (ein: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('exempt_organizations')
+      .select('*')
+      .eq('ein', ein)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as ExemptOrganization | null;
+  } catch (error) {
+    console.error('Error looking up EIN:', error);
+    throw error;
+  }
+};
+
+const LOGO_BUCKET = 'logos';
+const LOGO_URL_TTL_SECONDS = 60 * 60;
+
+// Organization logos live under orgs/<id>/, personal ones under the auth uid
+const getLogoFolder = async (organizationId: string | null) => {
+  if (organizationId) return `orgs/${organizationId}`;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Please sign in to store logos');
+  return session.user.id;
+};
+
+// Uploads a logo to the workspace's folder and returns its key. Files are
+// named by content hash, so uploading the same logo again reuses it.
+export const uploadLogo = async (dataUrl: string, organizationId: string | null = null): Promise<string> => {
+  try {
+    const folder = await getLogoFolder(organizationId);
+    const blob = await dataUrlToBlob(dataUrl);
+    const filename = `${await hashBlob(blob)}.${logoExtension(blob.type)}`;
+    const key = `${folder}/${filename}`;
+
+    const { data: existing, error: listError } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .list(folder, { search: filename, limit: 1 });
+
+    if (listError) throw listError;
+    if (existing?.some(({ name }) => name === filename)) return key;
+
+    const { error } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .upload(key, blob, { contentType: blob.type, upsert: true });
+
+    if (error) throw error;
+    return key;
+  } catch (error) {
+    console.error('Error uploading logo:', error);
+    throw error;
+  }
+};
+
+// Previously uploaded logos of the workspace, newest first
+export const getStoredLogos = async (organizationId: string | null = null): Promise<StoredLogo[]> => {
+  try {
+    const folder = await getLogoFolder(organizationId);
+    const { data: files, error } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .list(folder, { sortBy: { column: 'created_at', order: 'desc' } });
+
+    if (error) throw error;
+
+    // Skip the placeholder object some clients create for empty folders
+    const logos = (files || [])
+      .filter(({ name }) => !name.startsWith('.'))
+      .map(({ name, created_at }) => ({ key: `${folder}/${name}`, created_at }));
+    if (!logos.length) return [];
+
+    const { data: urls, error: urlError } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .createSignedUrls(logos.map(({ key }) => key), LOGO_URL_TTL_SECONDS);
+
+    if (urlError) throw urlError;
+
+    const urlsByKey = new Map(urls.map(({ path, signedUrl }) => [path, signedUrl]));
+    return logos
+      .filter(({ key }) => urlsByKey.get(key))
+      .map((logo) => ({ ...logo, url: urlsByKey.get(logo.key) as string }));
+  } catch (error) {
+    console.error('Error loading stored logos:', error);
+    throw error;
+  }
+};
+
+// Loads a stored logo as a data URL, ready for the preview and exporters
+export const downloadLogo = async (key: string): Promise<string> => {
+  try {
+    const { data, error } = await supabase.storage.from(LOGO_BUCKET).download(key);
+    if (error) throw error;
+    return blobToDataUrl(data);
+  } catch (error) {
+    console.error('Error downloading logo:', error);
+    throw error;
+  }
+};
+
+// Organizations the user belongs to, with their role in each
+export const getOrganizationMemberships = async (userId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organization:organizations(*)')
+      .eq('user_id', userId)
+      .returns<{ role: OrganizationRole; organization: Organization | null }[]>();
+
+    if (error) throw error;
+    return (data || [])
+      .flatMap(({ role, organization }): OrganizationMembership[] => (organization ? [{ role, organization }] : []))
+      .sort((a, b) => a.organization.name.localeCompare(b.organization.name));
+  } catch (error) {
+    console.error('Error loading organizations:', error);
+    throw error;
+  }
+};
+
+// Creates the organization with the signed-in user as its owner
+export const createOrganization = async (name: string, country: string, registrationNumber: string) => {
+  try {
+    const { data, error } = await supabase.rpc('create_organization', {
+      org_name: name,
+      org_country: country,
+      org_registration_number: registrationNumber
+    });
+
+    if (error) throw error;
+    return data as Organization;
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    throw error;
+  }
+};
+
+export const getOrganizationMembers = async (organizationId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('user_id, role, created_at, user:users(name, email)')
+      .eq('organization_id', organizationId)
+      .order('created_at')
+      .returns<OrganizationMember[]>();
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error loading organization members:', error);
+    throw error;
+  }
+};
+
+export const updateMemberRole = async (organizationId: string, userId: string, role: OrganizationRole) => {
+  try {
+    const { error } = await supabase
+      .from('organization_members')
+      .update({ role })
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    throw error;
+  }
+};
+
+// Removes a member, or leaves the organization when userId is the caller
+export const removeMember = async (organizationId: string, userId: string) => {
+  try {
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error removing member:', error);
+    throw error;
+  }
+};
+
+// Invites through the invite-member Edge Function, which checks the caller is
+// an owner, records the invitation and emails the invitee. Invitees who
+// already have an account accept it from the app after signing in.
+export const inviteMember = async (invitation: Omit<OrganizationInvitation, 'id' | 'created_at' | 'organization' | 'invited_by'>) => {
+  try {
+    const { data, error } = await supabase.functions.invoke('invite-member', {
+      body: {
+        organizationId: invitation.organization_id,
+        email: invitation.email,
+        role: invitation.role,
+        redirectTo: window.location.origin
+      }
+    });
+
+    if (error) throw error;
+    return { invitation: data.invitation as OrganizationInvitation, emailSent: data.emailSent === true };
+  } catch (error) {
+    console.error('Error inviting member:', error);
+    throw error;
+  }
+};
+
+export const getOrganizationInvitations = async (organizationId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data || []) as OrganizationInvitation[];
+  } catch (error) {
+    console.error('Error loading invitations:', error);
+    throw error;
+  }
+};
+
+// Invitations addressed to the signed-in user's email
+export const getMyInvitations = async (email: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('*, organization:organizations(name)')
+      .ilike('email', email.replace(/[%_\\]/g, (c) => `\\${c}`));
+
+    if (error) throw error;
+    return (data || []) as OrganizationInvitation[];
+  } catch (error) {
+    console.error('Error loading your invitations:', error);
+    throw error;
+  }
+};
+
+export const acceptInvitation = async (invitationId: string) => {
+  try {
+    const { error } = await supabase.rpc('accept_organization_invitation', { invitation_id: invitationId });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    throw error;
+  }
+};
+
+// Declines (as the invitee) or revokes (as an owner) an invitation
+export const deleteInvitation = async (invitationId: string) => {
+  try {
+    const { error } = await supabase.from('organization_invitations').delete().eq('id', invitationId);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting invitation:', error);
+    throw error;
+  }
+};
+
+export type TextGenerationKind = 'description' | 'purpose' | 'translation';
+export type TextTone = 'warm' | 'urgent' | 'formal';
+export type TextAudience = 'donors' | 'volunteers' | 'grant_makers';
+export type TextLength = 'short' | 'medium' | 'long';
+
+export interface TextGenerationRequest {
+  kind: TextGenerationKind;
+  context: string;  // The text to translate, for translations
+  language?: string;  // Translation target language code
+  sourceLanguage?: string;
+  url?: string;
+  organizationId?: string | null;  // Workspace the token usage is logged against
+  tone?: TextTone;
+  audience?: TextAudience;
+  length?: TextLength;
+  variants?: number;  // 1 to 3
+}
+
+// Structured error returned by the generate-text Edge Function
+export class TextGenerationError extends Error {
+  code: string;
+  retryAfter: number | null;  // Seconds, for rate limits
+
+  constructor(code: string, message: string, retryAfter: number | null = null) {
+    super(message);
+    this.name = 'TextGenerationError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Writes copy through the generate-text Edge Function, which holds the API
+// key and rate-limits per user and IP. Returns one text per variant; variants
+// the provider failed to write are left out.
+export const generateText = async (request: TextGenerationRequest): Promise<string[]> => {
+  const { data, error } = await supabase.functions.invoke('generate-text', { body: request });
+
+  if (error) {
+    console.error('Error generating text:', error);
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error?.message) {
+        throw new TextGenerationError(body.error.code ?? 'internal', body.error.message, body.error.retryAfter ?? null);
+      }
+    }
+    throw new TextGenerationError('network_error', 'Could not reach the AI writing service. Please try again.');
+  }
+
+  const variants: unknown[] = Array.isArray(data?.variants) ? data.variants : [data?.text];
+  return variants.flatMap((text) => (typeof text === 'string' && text.trim() ? [text.trim()] : []));
+};
@@ -0,0 +1,77 @@
+import type { MessageKey } from './i18n';
+
+export const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+export type UtmKey = typeof UTM_KEYS[number];
+
+export type UtmParams = Record<UtmKey, string>;
+
+export const EMPTY_UTM_PARAMS: UtmParams = {
+  utm_source: '',
+  utm_medium: '',
+  utm_campaign: '',
+  utm_term: '',
+  utm_content: ''
+};
+
+export const UTM_LABELS: Record<UtmKey, MessageKey> = {
+  utm_source: 'utm.source',
+  utm_medium: 'utm.medium',
+  utm_campaign: 'utm.campaign',
+  utm_term: 'utm.term',
+  utm_content: 'utm.content'
+};
+
+export const hasUtmParams = (params: UtmParams): boolean =>
+  UTM_KEYS.some((key) => params[key].trim() !== '');
+
+// Sets the non-empty UTM parameters on the URL. Other query parameters and the
+// fragment are left alone, as are UTM values the builder leaves blank.
+export const applyUtmParams = (url: string, params: UtmParams): string => {
+  if (!url || !hasUtmParams(params)) return url;
+
+  try {
+    const parsed = new URL(url);
+    UTM_KEYS.forEach((key) => {
+      const value = params[key].trim();
+      if (value) parsed.searchParams.set(key, value);
+    });
+    return parsed.toString();
+  } catch {
+    return url;  // Not a valid absolute URL yet; leave it for validation to flag
+  }
+};
+
+export const extractUtmParams = (url: string): UtmParams => {
+  const params = { ...EMPTY_UTM_PARAMS };
+  try {
+    const { searchParams } = new URL(url);
+    UTM_KEYS.forEach((key) => {
+      params[key] = searchParams.get(key) ?? '';
+    });
+  } catch {
+    // Ignore unparsable URLs
+  }
+  return params;
+};
+
+export const removeUtmParams = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    if (!UTM_KEYS.some((key) => parsed.searchParams.has(key))) return url;
+    UTM_KEYS.forEach((key) => parsed.searchParams.delete(key));
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
+
+// Columns stored on the qr_codes record; blank values are saved as null
+export const toUtmColumns = (url: string) => {
+  const params = extractUtmParams(url);
+  return Object.fromEntries(UTM_KEYS.map((key) => [key, params[key] || null])) as Record<UtmKey, string | null>;
+};
+
+// One variant per line; commas are valid inside utm_content values
+export const parseUtmContentVariants = (value: string): string[] =>
+  Array.from(new Set(value.split(/\r?\n/).map((variant) => variant.trim()).filter(Boolean)));
@@ -0,0 +1,389 @@
+import jsPDF, { ShadingPattern } from 'jspdf';
+import { FlyerElement, FlyerLayout, LoadedImage, PX_PER_INCH } from './flyerLayout';
+import { getFontFamily, getPostScriptFont } from './flyerFonts';
+import { PathCommand, QRFill, QRShapeLayer } from './qrStyle';
+import { hexToRgb } from './color';
+import { renderTextImage } from './rasterExport';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const fmt = (value: number) => Number(value.toFixed(3)).toString();
+
+const hasCurves = (shapes: QRShapeLayer[]) => shapes.some(({ path }) => path.some(([op]) => op === 'C'));
+
+const svgPathData = (path: PathCommand[]) =>
+  path.map(([op, ...args]) => `${op}${args.map(fmt).join(' ')}`).join('');
+
+// Gradient coordinates are in module units; userSpaceOnUse picks up the
+// path's scale transform
+const svgGradient = (id: string, fill: Exclude<QRFill, { type: 'solid' }>) => {
+  const stops = `<stop offset="0" stop-color="${escapeXml(fill.from)}"/><stop offset="1" stop-color="${escapeXml(fill.to)}"/>`;
+  return fill.type === 'linear'
+    ? `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${fmt(fill.x1)}" y1="${fmt(fill.y1)}" x2="${fmt(fill.x2)}" y2="${fmt(fill.y2)}">${stops}</linearGradient>`
+    : `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${fmt(fill.cx)}" cy="${fmt(fill.cy)}" r="${fmt(fill.r)}">${stops}</radialGradient>`;
+};
+
+export const renderFlyerSVG = (layout: FlyerLayout): string => {
+  const defs: string[] = [];
+  const parts = layout.elements.map((element) => {
+    switch (element.type) {
+      case 'rect': {
+        const stroke = element.stroke ? ` stroke="${escapeXml(element.stroke)}" stroke-width="${fmt(element.strokeWidth ?? 1)}"` : '';
+        return `<rect x="${fmt(element.x)}" y="${fmt(element.y)}" width="${fmt(element.width)}" height="${fmt(element.height)}" rx="${fmt(element.radius ?? 0)}" fill="${escapeXml(element.fill)}"${stroke}/>`;
+      }
+      case 'qr': {
+        const rendering = hasCurves(element.shapes) ? '' : ' shape-rendering="crispEdges"';
+        const paths = element.shapes
+          .filter(({ path }) => path.length > 0)
+          .map(({ fill, path }) => {
+            let paint = fill.type === 'solid' ? fill.color : '';
+            if (fill.type !== 'solid') {
+              const id = `qr-gradient-${defs.length + 1}`;
+              defs.push(svgGradient(id, fill));
+              paint = `url(#${id})`;
+            }
+            return `<path d="${svgPathData(path)}" fill="${escapeXml(paint)}"/>`;
+          });
+        return `<g transform="translate(${fmt(element.x)} ${fmt(element.y)}) scale(${fmt(element.moduleSize)})"${rendering}>${paths.join('')}</g>`;
+      }
+      case 'image':
+        return `<image x="${fmt(element.x)}" y="${fmt(element.y)}" width="${fmt(element.width)}" height="${fmt(element.height)}" href="${escapeXml(element.image.href)}" preserveAspectRatio="xMidYMid meet"/>`;
+      case 'text':
+        return `<text x="${fmt(element.x)}" y="${fmt(element.y)}"${element.direction === 'rtl' ? ' direction="rtl"' : ''} text-anchor="middle" font-family="${escapeXml(getFontFamily(element.font))}" font-size="${element.fontSize}"${element.bold ? ' font-weight="bold"' : ''} fill="${escapeXml(element.color)}">${escapeXml(element.text)}</text>`;
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(layout.width)}" height="${fmt(layout.height)}" viewBox="0 0 ${fmt(layout.width)} ${fmt(layout.height)}">`,
+    ...(defs.length ? [`<defs>${defs.join('')}</defs>`] : []),
+    ...(layout.background ? [`<rect width="100%" height="100%" fill="${escapeXml(layout.background)}"/>`] : []),
+    ...parts,
+    '</svg>'
+  ].join('\n');
+};
+
+const psRgb = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  return `${fmt(r / 255)} ${fmt(g / 255)} ${fmt(b / 255)}`;
+};
+
+const psColor = (hex: string) => `${psRgb(hex)} setrgbcolor`;
+
+const psPath = (path: PathCommand[]) =>
+  ['newpath', ...path.map(([op, ...args]) => {
+    const operator = { M: 'moveto', L: 'lineto', C: 'curveto', Z: 'closepath' }[op];
+    return [...args.map(fmt), operator].join(' ');
+  })].join('\n');
+
+// Gradients are LanguageLevel 3 smooth shadings clipped to the shape
+const psShading = (fill: Exclude<QRFill, { type: 'solid' }>) => {
+  const coords = fill.type === 'linear'
+    ? [fill.x1, fill.y1, fill.x2, fill.y2]
+    : [fill.cx, fill.cy, 0, fill.cx, fill.cy, fill.r];
+  return [
+    `<< /ShadingType ${fill.type === 'linear' ? 2 : 3} /ColorSpace /DeviceRGB`,
+    `   /Coords [${coords.map(fmt).join(' ')}]`,
+    `   /Function << /FunctionType 2 /Domain [0 1] /C0 [${psRgb(fill.from)}] /C1 [${psRgb(fill.to)}] /N 1 >>`,
+    '   /Extend [true true] >> shfill'
+  ].join('\n');
+};
+
+// The built-in PostScript and PDF fonts can't draw other scripts (Vietnamese,
+// Arabic, Hebrew, ...) or lay out right-to-left text, so such lines are
+// placed as images instead. EPS text uses ISO Latin-1 re-encoded fonts, so
+// accented Spanish and French lines stay text; C1 control characters don't.
+const isLatin1Text = (text: string) => /^[\x20-\x7e\xa0-\xff]*$/.test(text);
+const isWinAnsiText = (text: string) =>
+  /^[\x20-\x7e\xa0-\xff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]*$/.test(text);
+
+const TEXT_IMAGE_DPI = 300;
+
+// Text is shown in Latin-1 re-encoded fonts (see the prolog). Anything
+// else is replaced, and non-ASCII bytes are octal escapes so the file stays
+// 7-bit whatever encoding it is saved in.
+const psString = (value: string) =>
+  `(${value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/[\\()]/g, (c) => `\\${c}`)
+    .replace(/[^\x20-\x7e]/g, (c) => `\\${c.charCodeAt(0).toString(8)}`)})`;
+
+const latin1FontName = (font: string) => `${font}-Latin1`;
+
+// Layout units are CSS px; PostScript units are points
+const PT_PER_PX = 72 / PX_PER_INCH;
+
+// Resamples to the placed size at the output DPI, never upscaling the source
+const rasterizeForEPS = async (image: LoadedImage, placedWidth: number, dpi: number, background: string) => {
+  const img = new Image();
+  img.src = image.href;
+  await img.decode();
+
+  const scale = Math.min(1, ((placedWidth / PX_PER_INCH) * dpi) / image.width);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  // EPS images have no alpha channel, so composite onto the page background
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const hex: string[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    hex.push(
+      data[i].toString(16).padStart(2, '0') +
+      data[i + 1].toString(16).padStart(2, '0') +
+      data[i + 2].toString(16).padStart(2, '0')
+    );
+  }
+
+  const lines: string[] = [];
+  for (let i = 0; i < hex.length; i += 12) {
+    lines.push(hex.slice(i, i + 12).join(''));
+  }
+
+  return { width, height, data: lines.join('\n') };
+};
+
+export const renderFlyerEPS = async (layout: FlyerLayout, dpi: number = 300): Promise<string> => {
+  const { width, height } = layout;
+  // PostScript's origin is bottom-left
+  const flipY = (y: number) => fmt(height - y);
+
+  const body: string[] = [];
+  const fonts = new Set<string>();
+  let usesShading = false;
+  const drawElement = async (element: FlyerElement) => {
+    switch (element.type) {
+      case 'rect': {
+        const path = `${fmt(element.x)} ${flipY(element.y + element.height)} ${fmt(element.width)} ${fmt(element.height)} ${fmt(element.radius ?? 0)} rrect`;
+        body.push(psColor(element.fill));
+        body.push(`${path} fill`);
+        if (element.stroke) {
+          body.push(psColor(element.stroke));
+          body.push(`${fmt(element.strokeWidth ?? 1)} setlinewidth ${path} stroke`);
+        }
+        break;
+      }
+      case 'qr':
+        // Work in module units with y pointing down, like the other renderers
+        body.push('gsave');
+        body.push(`${fmt(element.x)} ${flipY(element.y)} translate ${fmt(element.moduleSize)} ${fmt(-element.moduleSize)} scale`);
+        element.shapes
+          .filter(({ path }) => path.length > 0)
+          .forEach(({ fill, path }) => {
+            body.push(psPath(path));
+            if (fill.type === 'solid') {
+              body.push(`${psColor(fill.color)} fill`);
+            } else {
+              usesShading = true;
+              body.push('gsave clip');
+              body.push(psShading(fill));
+              body.push('grestore');
+            }
+          });
+        body.push('grestore');
+        break;
+      case 'image': {
+        const pixels = await rasterizeForEPS(element.image, element.width, dpi, layout.background ?? '#ffffff');
+        body.push('gsave');
+        body.push(`${fmt(element.x)} ${flipY(element.y + element.height)} translate`);
+        body.push(`${fmt(element.width)} ${fmt(element.height)} scale`);
+        body.push('/DeviceRGB setcolorspace');
+        body.push(`<< /ImageType 1 /Width ${pixels.width} /Height ${pixels.height} /BitsPerComponent 8 /Decode [0 1 0 1 0 1] /ImageMatrix [${pixels.width} 0 0 -${pixels.height} 0 ${pixels.height}] /DataSource currentfile /ASCIIHexDecode filter >> image`);
+        body.push(`${pixels.data}>`);
+        body.push('grestore');
+        break;
+      }
+      case 'text': {
+        if (!isLatin1Text(element.text)) {
+          const { image, ...box } = renderTextImage(element, dpi / PX_PER_INCH);
+          await drawElement({ type: 'image', ...box, image });
+          break;
+        }
+        const font = getPostScriptFont(element.font, element.bold);
+        fonts.add(font);
+        body.push(psColor(element.color));
+        body.push(`/${latin1FontName(font)} findfont ${fmt(element.fontSize)} scalefont setfont`);
+        body.push(`${psString(element.text)} dup stringwidth pop 2 div ${fmt(element.x)} exch sub ${flipY(element.y)} moveto show`);
+        break;
+      }
+    }
+  };
+
+  for (const element of layout.elements) {
+    await drawElement(element);
+  }
+
+  return [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(width * PT_PER_PX)} ${Math.ceil(height * PT_PER_PX)}`,
+    `%%HiResBoundingBox: 0 0 ${fmt(width * PT_PER_PX)} ${fmt(height * PT_PER_PX)}`,
+    '%%Title: QR Code',
+    '%%Creator: Non-Profit QR Code Generator',
+    `%%LanguageLevel: ${usesShading ? 3 : 2}`,
+    '%%EndComments',
+    '%%BeginProlog',
+    // x y w h r rrect -> rounded rectangle path
+    '/rrect { 5 dict begin /r exch def /h exch def /w exch def /y exch def /x exch def',
+    '  newpath x r add y moveto',
+    '  x w add y x w add y h add r arct',
+    '  x w add y h add x y h add r arct',
+    '  x y h add x y r arct',
+    '  x y x w add y r arct',
+    '  closepath end } bind def',
+    // /NewName /Font reencode -> copy of Font with ISOLatin1Encoding, keeping
+    // the straight quote and grave accent at their ASCII positions
+    '/reencode { findfont dup length dict begin',
+    '  { 1 index /FID ne { def } { pop pop } ifelse } forall',
+    '  /Encoding ISOLatin1Encoding 256 array copy dup 39 /quotesingle put dup 96 /grave put def',
+    '  currentdict end definefont pop } bind def',
+    '%%EndProlog',
+    '%%BeginSetup',
+    ...[...fonts].map((font) => `/${latin1FontName(font)} /${font} reencode`),
+    '%%EndSetup',
+    'gsave',
+    `${fmt(PT_PER_PX)} ${fmt(PT_PER_PX)} scale`,
+    ...(layout.background ? [psColor(layout.background), `0 0 ${fmt(width)} ${fmt(height)} rectfill`] : []),
+    ...body,
+    'grestore',
+    'showpage',
+    '%%EOF'
+  ].join('\n');
+};
+
+const imageFormat = (href: string) => (href.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG');
+
+let pdfShadingCount = 0;
+
+// Paths and shading patterns need jsPDF's advanced API, whose coordinates are
+// still document units with y pointing down
+const drawShapesToPDF = (pdf: jsPDF, shapes: QRShapeLayer[], toX: (x: number) => number, toY: (y: number) => number) => {
+  pdf.advancedAPI((doc) => {
+    shapes
+      .filter(({ path }) => path.length > 0)
+      .forEach(({ fill, path }) => {
+        path.forEach((command) => {
+          switch (command[0]) {
+            case 'M':
+              doc.moveTo(toX(command[1]), toY(command[2]));
+              break;
+            case 'L':
+              doc.lineTo(toX(command[1]), toY(command[2]));
+              break;
+            case 'C':
+              doc.curveTo(toX(command[1]), toY(command[2]), toX(command[3]), toY(command[4]), toX(command[5]), toY(command[6]));
+              break;
+            case 'Z':
+              doc.close();
+              break;
+          }
+        });
+
+        if (fill.type === 'solid') {
+          const { r, g, b } = hexToRgb(fill.color);
+          doc.setFillColor(r, g, b);
+          doc.fill();
+          return;
+        }
+
+        const from = hexToRgb(fill.from);
+        const to = hexToRgb(fill.to);
+        const colors = [
+          { offset: 0, color: [from.r, from.g, from.b] },
+          { offset: 1, color: [to.r, to.g, to.b] }
+        ];
+        // Module units scale uniformly, so radii convert like x distances
+        const pattern = fill.type === 'linear'
+          ? new ShadingPattern('axial', [toX(fill.x1), toY(fill.y1), toX(fill.x2), toY(fill.y2)], colors)
+          : new ShadingPattern('radial', [toX(fill.cx), toY(fill.cy), 0, toX(fill.cx), toY(fill.cy), toX(fill.r) - toX(0)], colors);
+        const key = `qr-shading-${++pdfShadingCount}`;
+        doc.addShadingPattern(key, pattern);
+        doc.fill({ key, matrix: doc.unitMatrix });
+      });
+  });
+};
+
+// Draws the layout with jsPDF primitives; `scale` converts layout px to the
+// document's unit and (x, y) is the top-left corner on the page.
+export const drawFlyerToPDF = (pdf: jsPDF, layout: FlyerLayout, x: number, y: number, scale: number) => {
+  const unitToPt = pdf.internal.scaleFactor;  // points per document unit
+  const setFill = (hex: string) => {
+    const { r, g, b } = hexToRgb(hex);
+    pdf.setFillColor(r, g, b);
+  };
+
+  if (layout.background) {
+    setFill(layout.background);
+    pdf.rect(x, y, layout.width * scale, layout.height * scale, 'F');
+  }
+
+  layout.elements.forEach((element) => {
+    switch (element.type) {
+      case 'rect': {
+        setFill(element.fill);
+        if (element.stroke) {
+          const { r, g, b } = hexToRgb(element.stroke);
+          pdf.setDrawColor(r, g, b);
+          pdf.setLineWidth((element.strokeWidth ?? 1) * scale);
+        }
+        const radius = (element.radius ?? 0) * scale;
+        pdf.roundedRect(
+          x + element.x * scale,
+          y + element.y * scale,
+          element.width * scale,
+          element.height * scale,
+          radius,
+          radius,
+          element.stroke ? 'FD' : 'F'
+        );
+        break;
+      }
+      case 'qr': {
+        const moduleSize = element.moduleSize * scale;
+        drawShapesToPDF(
+          pdf,
+          element.shapes,
+          (col) => x + element.x * scale + col * moduleSize,
+          (row) => y + element.y * scale + row * moduleSize
+        );
+        break;
+      }
+      case 'image':
+        pdf.addImage(
+          element.image.href,
+          imageFormat(element.image.href),
+          x + element.x * scale,
+          y + element.y * scale,
+          element.width * scale,
+          element.height * scale
+        );
+        break;
+      case 'text': {
+        if (!isWinAnsiText(element.text)) {
+          const { image, ...box } = renderTextImage(element, (scale * unitToPt / 72) * TEXT_IMAGE_DPI);
+          pdf.addImage(image.href, 'PNG', x + box.x * scale, y + box.y * scale, box.width * scale, box.height * scale);
+          break;
+        }
+        const { r, g, b } = hexToRgb(element.color);
+        pdf.setTextColor(r, g, b);
+        pdf.setFont(element.font, element.bold ? 'bold' : 'normal');
+        pdf.setFontSize(element.fontSize * scale * unitToPt);
+        pdf.text(element.text, x + element.x * scale, y + element.y * scale, { align: 'center' });
+        break;
+      }
+    }
+  });
+};
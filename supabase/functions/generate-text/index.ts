@@ -0,0 +1,338 @@
+// Writes and translates organization descriptions and URL purposes for
+// signed-in users. The provider credentials stay here; requests are rate-limited
+// per user and per IP and their token usage is logged to public.ai_requests.
+// Deploy with `supabase secrets set AI_PROVIDER=... OPENAI_API_KEY=...` and
+// `supabase functions deploy generate-text`. See providers.ts for the backends
+// and their settings.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createTextProvider, ProviderConfigError, ProviderRequestError, type TextProvider } from './providers.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+// Resolved once per instance; without one every request gets not_configured
+const loadProvider = (): TextProvider | null => {
+  try {
+    return createTextProvider();
+  } catch (error) {
+    if (!(error instanceof ProviderConfigError)) throw error;
+    console.error('AI provider not configured:', error.message);
+    return null;
+  }
+};
+
+const provider = loadProvider();
+
+const readLimit = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const RATE_LIMIT_WINDOW_SECONDS = readLimit('AI_RATE_LIMIT_WINDOW_SECONDS', 60 * 60);
+const USER_LIMIT = readLimit('AI_USER_LIMIT', 30);
+const IP_LIMIT = readLimit('AI_IP_LIMIT', 60);
+const MAX_CONTEXT_LENGTH = 2000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+type ErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'not_configured'
+  | 'upstream_error'
+  | 'internal';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers }
+  });
+
+// Every failure has the same shape: { error: { code, message, retryAfter? } }
+const errorResponse = (status: number, code: ErrorCode, message: string, retryAfter?: number) =>
+  jsonResponse(
+    status,
+    { error: { code, message, ...(retryAfter ? { retryAfter } : {}) } },
+    retryAfter ? { 'Retry-After': String(retryAfter) } : {}
+  );
+
+type Tone = 'warm' | 'urgent' | 'formal';
+type Audience = 'donors' | 'volunteers' | 'grant_makers';
+type Length = 'short' | 'medium' | 'long';
+
+interface GenerateRequest {
+  kind: 'description' | 'purpose' | 'translation';
+  context: string;  // The text to translate, for translations
+  language: string;        // Translation target, as an English language name
+  sourceLanguage: string;
+  url?: string;
+  organizationId?: string | null;
+  tone: Tone;
+  audience: Audience;
+  length: Length;
+  variants: number;
+}
+
+const TONES: Record<Tone, string> = {
+  warm: 'a warm, heartfelt tone',
+  urgent: 'an urgent, action-oriented tone',
+  formal: 'a formal, professional tone'
+};
+
+const AUDIENCES: Record<Audience, string> = {
+  donors: 'potential donors',
+  volunteers: 'prospective volunteers',
+  grant_makers: 'foundations and grant makers'
+};
+
+// Word limits per length, by kind
+const WORD_LIMITS: Record<Length, { description: number; purpose: number }> = {
+  short: { description: 50, purpose: 40 },
+  medium: { description: 100, purpose: 75 },
+  long: { description: 150, purpose: 120 }
+};
+
+// Each variant takes a different angle, so they aren't near-copies
+const ANGLES = [
+  'Lead with the impact of the work.',
+  'Open with a short, concrete example of someone the work helps.',
+  'Lead with what the reader can do right now.'
+];
+const MAX_VARIANTS = ANGLES.length;
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+// English name for a BCP 47 language tag, or null if it isn't one
+const getLanguageName = (code: unknown): string | null => {
+  if (typeof code !== 'string' || !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(code)) return null;
+  try {
+    const name = languageNames.of(code);
+    return name && name !== code ? name : null;
+  } catch {
+    return null;
+  }
+};
+
+const isOneOf = <T extends string>(options: Record<T, unknown>, value: unknown): value is T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value);
+
+const parseRequest = (body: unknown): GenerateRequest | null => {
+  if (!body || typeof body !== 'object') return null;
+  const { kind, context, url, organizationId, tone, audience, length, variants, language, sourceLanguage } = body as Record<string, unknown>;
+
+  if (kind !== 'description' && kind !== 'purpose' && kind !== 'translation') return null;
+  if (typeof context !== 'string' || context.length > MAX_CONTEXT_LENGTH) return null;
+
+  const languageName = getLanguageName(language);
+  const sourceLanguageName = sourceLanguage === undefined ? 'English' : getLanguageName(sourceLanguage);
+  if (kind === 'translation' && (!context.trim() || !languageName || !sourceLanguageName)) return null;
+
+  if (url !== undefined && (typeof url !== 'string' || url.length > MAX_CONTEXT_LENGTH)) return null;
+  if (organizationId != null && typeof organizationId !== 'string') return null;
+  if (tone !== undefined && !isOneOf(TONES, tone)) return null;
+  if (audience !== undefined && !isOneOf(AUDIENCES, audience)) return null;
+  if (length !== undefined && !isOneOf(WORD_LIMITS, length)) return null;
+  if (variants !== undefined && (!Number.isInteger(variants) || (variants as number) < 1 || (variants as number) > MAX_VARIANTS)) return null;
+
+  return {
+    kind,
+    context,
+    language: languageName ?? '',
+    sourceLanguage: sourceLanguageName ?? 'English',
+    url: url as string | undefined,
+    organizationId: (organizationId as string | null) ?? null,
+    tone: (tone as Tone | undefined) ?? 'warm',
+    audience: (audience as Audience | undefined) ?? 'donors',
+    length: (length as Length | undefined) ?? 'medium',
+    variants: kind === 'translation' ? 1 : (variants as number | undefined) ?? 1
+  };
+};
+
+// Translations may run longer than their source, and other scripts take more
+// tokens per word
+const getMaxTokens = ({ kind, length, context }: GenerateRequest) =>
+  kind === 'translation' ? Math.min(2000, context.length + 100) : WORD_LIMITS[length][kind] * 2;
+
+const buildPrompt = (request: GenerateRequest, variant: number) => {
+  const { kind, context, url, tone, audience } = request;
+
+  if (kind === 'translation') {
+    return `Translate this text from a non-profit flyer from ${request.sourceLanguage} into ${request.language}. Keep the tone, and keep names, URLs, email addresses and numbers unchanged. Reply with the translation only.\n\n${context}`;
+  }
+
+  const style = `Use ${TONES[tone]} for ${AUDIENCES[audience]}. Keep it under ${WORD_LIMITS[request.length][kind]} words.`;
+  const angle = request.variants > 1 ? ` ${ANGLES[variant]}` : '';
+
+  return kind === 'description'
+    ? `Write a concise, engaging description for a non-profit organization based on this context: ${context}. ${style}${angle}`
+    : `Write a clear, compelling explanation of this URL's purpose based on this context: ${context}. The URL is: ${url ?? ''}. Focus on the value it provides to visitors. ${style}${angle}`;
+};
+
+// The platform proxy appends the address it saw to X-Forwarded-For, so the
+// last hop is the one a client can't spoof; earlier entries are whatever the
+// client sent
+const getClientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() ||
+  req.headers.get('cf-connecting-ip') ||
+  req.headers.get('x-real-ip') ||
+  'unknown';
+
+interface Reservation {
+  requestId: number;
+  limitedBy: 'user' | 'ip' | null;
+}
+
+// Counts the window and records this request in one transaction (see
+// reserve_ai_request), so concurrent requests can't all slip under the limit.
+// Each variant is a separate completion, so a request weighs its variant count.
+const reserveRequest = async (userId: string, organizationId: string | null, ip: string, request: GenerateRequest): Promise<Reservation> => {
+  const { data, error } = await supabase
+    .rpc('reserve_ai_request', {
+      request_user_id: userId,
+      request_organization_id: organizationId,
+      request_ip_address: ip,
+      request_kind: request.kind,
+      request_weight: request.variants,
+      user_limit: USER_LIMIT,
+      ip_limit: IP_LIMIT,
+      window_seconds: RATE_LIMIT_WINDOW_SECONDS
+    })
+    .single();
+
+  if (error) throw error;
+  const { request_id, limited_by } = data as { request_id: number; limited_by: 'user' | 'ip' | null };
+  return { requestId: request_id, limitedBy: limited_by };
+};
+
+interface UsageRecord {
+  status: 'ok' | 'error';
+  model?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+// Fills in the reserved row once the provider has answered
+const logUsage = async (requestId: number, record: UsageRecord) => {
+  const { error } = await supabase.from('ai_requests').update(record).eq('id', requestId);
+  if (error) console.warn('Usage logging failed:', error);  // Never fail the request over it
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'invalid_request', 'Use POST');
+  }
+  if (!provider) {
+    return errorResponse(503, 'not_configured', 'AI writing is not configured on the server');
+  }
+
+  // The anon key is a valid JWT too, so require an actual user session
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const { data: { user: authUser } } = await supabase.auth.getUser(token);
+  if (!authUser) {
+    return errorResponse(401, 'unauthorized', 'Please sign in to use AI writing');
+  }
+
+  let request: GenerateRequest | null = null;
+  try {
+    request = parseRequest(await req.json());
+  } catch {
+    request = null;
+  }
+  if (!request) {
+    return errorResponse(400, 'invalid_request', `Send a kind of "description" or "purpose" with up to ${MAX_CONTEXT_LENGTH} characters of context and a known tone, audience, length and 1 to ${MAX_VARIANTS} variants, or a kind of "translation" with the text and a target language code`);
+  }
+
+  // Set once the request is recorded, so failures after that are logged on it
+  let requestId: number | null = null;
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('auth_id', authUser.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return errorResponse(401, 'unauthorized', 'No profile found for this account');
+    }
+
+    // Usage is only billed to organizations the user belongs to
+    if (request.organizationId) {
+      const { data: membership, error: membershipError } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', request.organizationId)
+        .eq('user_id', profile.id)
+        .maybeSingle();
+
+      if (membershipError) throw membershipError;
+      if (!membership) {
+        return errorResponse(403, 'forbidden', 'You are not a member of this organization');
+      }
+    }
+
+    const reservation = await reserveRequest(profile.id, request.organizationId ?? null, getClientIp(req), request);
+    requestId = reservation.requestId;
+    if (reservation.limitedBy) {
+      const scope = reservation.limitedBy === 'user' ? 'your account' : 'your network';
+      return errorResponse(
+        429,
+        'rate_limited',
+        `Too many AI requests from ${scope}. Please try again later.`,
+        RATE_LIMIT_WINDOW_SECONDS
+      );
+    }
+
+    // Variants are written in parallel; any that fail are left out
+    const results = await Promise.allSettled(
+      Array.from({ length: request.variants }, (_, variant) =>
+        provider.complete({
+          system: 'You are a professional copywriter specializing in non-profit communications.',
+          prompt: buildPrompt(request, variant),
+          temperature: 0.7,
+          maxTokens: getMaxTokens(request)
+        })
+      )
+    );
+
+    const completed = results.flatMap((result) => (result.status === 'fulfilled' && result.value.text ? [result.value] : []));
+    const failures = results.flatMap((result) => (result.status === 'rejected' ? [result.reason] : []));
+    const unexpected = failures.find((reason) => !(reason instanceof ProviderRequestError));
+    if (unexpected) throw unexpected;
+    failures.forEach((reason: ProviderRequestError) => console.error(`${provider.name} request failed:`, reason.message));
+
+    if (!completed.length) {
+      await logUsage(reservation.requestId, { model: provider.model, status: 'error' });
+      return failures.some((reason: ProviderRequestError) => reason.status === 429)
+        ? errorResponse(503, 'upstream_error', 'The AI service is busy. Please try again in a minute.', 60)
+        : errorResponse(502, 'upstream_error', 'The AI service could not write this text. Please try again.');
+    }
+
+    const totals = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    completed.forEach(({ usage: tokens }) => {
+      totals.prompt_tokens += tokens?.prompt_tokens ?? 0;
+      totals.completion_tokens += tokens?.completion_tokens ?? 0;
+      totals.total_tokens += tokens?.total_tokens ?? 0;
+    });
+    await logUsage(reservation.requestId, { model: completed[0].model, status: 'ok', ...totals });
+
+    const variants = completed.map(({ text }) => text);
+    return jsonResponse(200, { text: variants[0], variants, usage: totals });
+  } catch (error) {
+    console.error('Error generating text:', error);
+    if (requestId !== null) await logUsage(requestId, { status: 'error' });
+    return errorResponse(500, 'internal', 'Error generating text. Please try again.');
+  }
+});
@@ -0,0 +1,134 @@
+// Text-generation backends for the generate-text function, picked by the
+// AI_PROVIDER secret:
+//   openai             OpenAI (OPENAI_API_KEY, optional OPENAI_BASE_URL)
+//   openai-compatible  any server with an OpenAI-style /chat/completions
+//                      endpoint such as Ollama, llama.cpp server or vLLM
+//                      (AI_BASE_URL, optional AI_API_KEY)
+//   mock               deterministic offline replies for tests and demos
+// AI_MODEL overrides the provider's default model; OPENAI_MODEL, the setting
+// before providers were pluggable, is still read as a fallback.
+
+export interface TextRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface TextUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface TextResult {
+  text: string;
+  model: string;
+  usage: TextUsage | null;
+}
+
+export interface TextProvider {
+  name: string;
+  model: string;
+  complete: (request: TextRequest) => Promise<TextResult>;
+}
+
+// Missing or invalid configuration; reported to the client as not_configured
+export class ProviderConfigError extends Error {}
+
+// Failed upstream call; status is the upstream HTTP status, if any
+export class ProviderRequestError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const env = (name: string) => Deno.env.get(name)?.trim() || '';
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, '');
+
+// Shared by OpenAI and compatible servers
+const createChatCompletionsProvider = (name: string, baseUrl: string, apiKey: string, model: string): TextProvider => ({
+  name,
+  model,
+  complete: async ({ system, prompt, temperature, maxTokens }) => {
+    let response: Response;
+    try {
+      response = await fetch(`${trimSlashes(baseUrl)}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: prompt }
+          ],
+          temperature,
+          max_tokens: maxTokens
+        })
+      });
+    } catch (error) {
+      throw new ProviderRequestError(`Could not reach ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      throw new ProviderRequestError(`${name} returned ${response.status}: ${await response.text()}`, response.status);
+    }
+
+    const completion = await response.json();
+    return {
+      text: completion.choices?.[0]?.message?.content?.trim() ?? '',
+      model: completion.model ?? model,
+      usage: completion.usage ?? null
+    };
+  }
+});
+
+const estimateTokens = (text: string) => Math.ceil(text.split(/\s+/).filter(Boolean).length * 1.3);
+
+// The same prompt always gets the same reply, built from the prompt's own
+// words so demos show which field was written
+const createMockProvider = (model: string): TextProvider => ({
+  name: 'mock',
+  model,
+  complete: async ({ system, prompt, maxTokens }) => {
+    const words = prompt.split(/\s+/).filter(Boolean).slice(0, Math.floor(maxTokens * 0.5));
+    const text = `[Sample text] ${words.join(' ')}`;
+    const promptTokens = estimateTokens(`${system} ${prompt}`);
+    const completionTokens = estimateTokens(text);
+    return {
+      text,
+      model,
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    };
+  }
+});
+
+export const createTextProvider = (): TextProvider => {
+  const provider = env('AI_PROVIDER') || 'openai';
+  const model = env('AI_MODEL') || env('OPENAI_MODEL');
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) throw new ProviderConfigError('OPENAI_API_KEY is not set');
+      return createChatCompletionsProvider('OpenAI', env('OPENAI_BASE_URL') || 'https://api.openai.com/v1', apiKey, model || 'gpt-4o-mini');
+    }
+    case 'openai-compatible': {
+      const baseUrl = env('AI_BASE_URL');
+      if (!baseUrl) throw new ProviderConfigError('AI_BASE_URL is not set');
+      if (!model) throw new ProviderConfigError('AI_MODEL is not set');
+      return createChatCompletionsProvider('the AI server', baseUrl, env('AI_API_KEY'), model);
+    }
+    case 'mock':
+      return createMockProvider(model || 'mock');
+    default:
+      throw new ProviderConfigError(`Unknown AI_PROVIDER "${provider}"`);
+  }
+};
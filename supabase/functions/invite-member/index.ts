@@ -0,0 +1,128 @@
+// Invites someone to an organization: records the invitation and emails them
+// a Supabase Auth invite. Only the organization's owners may invite, and the
+// email goes out from here so the browser never triggers auth emails for
+// addresses it doesn't own. Deploy with `supabase functions deploy invite-member`.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const roles = ['owner', 'editor', 'viewer'];
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const errorResponse = (status: number, message: string) => jsonResponse(status, { error: { message } });
+
+interface InviteRequest {
+  organizationId: string;
+  email: string;
+  role: string;
+  redirectTo?: string;
+}
+
+const parseRequest = (body: unknown): InviteRequest | null => {
+  if (!body || typeof body !== 'object') return null;
+  const { organizationId, email, role, redirectTo } = body as Record<string, unknown>;
+  if (typeof organizationId !== 'string' || typeof email !== 'string' || typeof role !== 'string') return null;
+  if (!emailRegex.test(email.trim()) || !roles.includes(role)) return null;
+  return {
+    organizationId,
+    email: email.trim().toLowerCase(),
+    role,
+    redirectTo: typeof redirectTo === 'string' ? redirectTo : undefined
+  };
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'Use POST');
+  }
+
+  // The anon key is a valid JWT too, so require an actual user session
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const { data: { user: authUser } } = await supabase.auth.getUser(token);
+  if (!authUser) {
+    return errorResponse(401, 'Please sign in to invite members');
+  }
+
+  let request: InviteRequest | null = null;
+  try {
+    request = parseRequest(await req.json());
+  } catch {
+    request = null;
+  }
+  if (!request) {
+    return errorResponse(400, 'Send an organizationId, a valid email and a role of owner, editor or viewer');
+  }
+
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('auth_id', authUser.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (!profile) {
+      return errorResponse(401, 'No profile found for this account');
+    }
+
+    const { data: membership, error: membershipError } = await supabase
+      .from('organization_members')
+      .select('role')
+      .eq('organization_id', request.organizationId)
+      .eq('user_id', profile.id)
+      .maybeSingle();
+
+    if (membershipError) throw membershipError;
+    if (membership?.role !== 'owner') {
+      return errorResponse(403, 'Only owners can invite members');
+    }
+
+    const { data: invitation, error: insertError } = await supabase
+      .from('organization_invitations')
+      .insert({
+        organization_id: request.organizationId,
+        email: request.email,
+        role: request.role,
+        invited_by: profile.id
+      })
+      .select()
+      .single();
+
+    if (insertError?.code === '23505') {
+      return errorResponse(409, 'This email has already been invited');
+    }
+    if (insertError) throw insertError;
+
+    // Fails for addresses that already have an account; they see the
+    // invitation in the app the next time they sign in
+    const { error: emailError } = await supabase.auth.admin.inviteUserByEmail(request.email, {
+      redirectTo: request.redirectTo
+    });
+    if (emailError) {
+      console.warn('Invitation email not sent:', emailError.message);
+    }
+
+    return jsonResponse(200, { invitation, emailSent: !emailError });
+  } catch (error) {
+    console.error('Error inviting member:', error);
+    return errorResponse(500, 'Error inviting member. Please try again.');
+  }
+});
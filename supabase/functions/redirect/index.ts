@@ -0,0 +1,67 @@
+// Resolves /r/:slug for dynamic QR codes, logs the scan and issues a 302 to
+// the current target. Deploy with `supabase functions deploy redirect --no-verify-jwt`.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const slugPattern = /^[A-Za-z0-9_-]{4,64}$/;
+
+// Targets are checked on write too; this guards rows written before that
+const isWebUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  const { pathname } = new URL(req.url);
+  const slug = pathname.split('/').filter(Boolean).pop() ?? '';
+
+  if (!slugPattern.test(slug)) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const { data: link, error } = await supabase
+    .from('dynamic_links')
+    .select('id, target_url')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving slug:', error);
+    return new Response('Internal error', { status: 500 });
+  }
+
+  if (!link) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  if (!isWebUrl(link.target_url)) {
+    console.error('Refusing to redirect to a non-http(s) target for slug:', slug);
+    return new Response('Invalid target', { status: 400 });
+  }
+
+  const { error: scanError } = await supabase.from('scans').insert([{
+    link_id: link.id,
+    user_agent: req.headers.get('user-agent'),
+    referrer: req.headers.get('referer')
+  }]);
+
+  if (scanError) {
+    console.warn('Scan tracking failed:', scanError);  // Never block the redirect
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: link.target_url,
+      'Cache-Control': 'no-store'
+    }
+  });
+});
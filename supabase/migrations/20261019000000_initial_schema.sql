@@ -0,0 +1,38 @@
+-- Tables the app started with, shared with the other non-profit apps: user
+-- profiles, saved QR codes and per-app visit counts. Created only when missing
+-- so projects that already have them are left untouched.
+create table if not exists public.users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  name text not null,
+  organization text,
+  ein text,
+  app_ids text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.qr_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  url text not null,
+  org_description text not null default '',
+  url_purpose text not null default '',
+  qr_color text not null default '#000000',
+  bg_color text not null default '#ffffff',
+  size integer not null default 256,
+  has_logo boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists qr_codes_user_id_idx on public.qr_codes (user_id, created_at desc);
+
+-- One row per user and app; the upsert in updateVisit relies on the unique key
+create table if not exists public.visits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  app_id text not null,
+  visit_count integer not null default 1,
+  last_visit timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (user_id, app_id)
+);
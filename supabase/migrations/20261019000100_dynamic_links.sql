@@ -0,0 +1,40 @@
+-- Dynamic QR codes: the printed code encodes /r/:slug and the target can be
+-- changed afterwards. Every scan is logged before the visitor is redirected.
+create table if not exists public.dynamic_links (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  slug text not null unique check (slug ~ '^[A-Za-z0-9_-]{4,64}$'),
+  target_url text not null check (target_url ~* '^https?://'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists dynamic_links_user_id_idx on public.dynamic_links (user_id);
+
+create table if not exists public.scans (
+  id uuid primary key default gen_random_uuid(),
+  link_id uuid not null references public.dynamic_links (id) on delete cascade,
+  scanned_at timestamptz not null default now(),
+  user_agent text,
+  referrer text
+);
+
+create index if not exists scans_link_id_idx on public.scans (link_id, scanned_at desc);
+
+alter table public.qr_codes
+  add column if not exists dynamic_link_id uuid references public.dynamic_links (id) on delete set null;
+
+create or replace function public.touch_dynamic_link()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists dynamic_links_touch on public.dynamic_links;
+create trigger dynamic_links_touch
+  before update on public.dynamic_links
+  for each row execute function public.touch_dynamic_link();
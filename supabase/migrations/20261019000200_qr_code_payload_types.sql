@@ -0,0 +1,7 @@
+-- Structured payloads (contact cards, Wi-Fi, SMS, email, events, locations).
+-- `url` keeps the encoded string; `payload_data` keeps the form fields so a
+-- saved code can be reopened and edited.
+alter table public.qr_codes
+  add column if not exists payload_type text not null default 'url'
+    check (payload_type in ('url', 'contact', 'wifi', 'sms', 'email', 'event', 'geo')),
+  add column if not exists payload_data jsonb;
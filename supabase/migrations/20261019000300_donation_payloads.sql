@@ -0,0 +1,5 @@
+-- Donation payment codes (EPC GiroCode, UPI, Swiss QR-bill, PayPal.me, Venmo)
+alter table public.qr_codes drop constraint if exists qr_codes_payload_type_check;
+alter table public.qr_codes
+  add constraint qr_codes_payload_type_check
+    check (payload_type in ('url', 'contact', 'wifi', 'sms', 'email', 'event', 'geo', 'donation'));
@@ -0,0 +1,19 @@
+-- UTM campaign parameters stored per code for attribution reporting, plus
+-- per-user presets for the UTM builder.
+alter table public.qr_codes
+  add column if not exists utm_source text,
+  add column if not exists utm_medium text,
+  add column if not exists utm_campaign text,
+  add column if not exists utm_term text,
+  add column if not exists utm_content text;
+
+create index if not exists qr_codes_utm_campaign_idx on public.qr_codes (utm_campaign);
+
+create table if not exists public.utm_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  name text not null,
+  params jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
@@ -0,0 +1,6 @@
+-- Error-correction level and embedded-logo placement (scale, padding,
+-- backplate, border) so exports can be reproduced exactly.
+alter table public.qr_codes
+  add column if not exists error_correction text not null default 'H'
+    check (error_correction in ('L', 'M', 'Q', 'H')),
+  add column if not exists logo_settings jsonb;
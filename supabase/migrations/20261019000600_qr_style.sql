@@ -0,0 +1,4 @@
+-- Module shape, finder-pattern styles/colors and gradient, so styled codes can
+-- be reproduced exactly. Null means plain square modules.
+alter table public.qr_codes
+  add column if not exists qr_style jsonb;
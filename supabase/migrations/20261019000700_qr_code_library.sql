@@ -0,0 +1,7 @@
+-- User-editable names for saved QR codes, and an index for the library's
+-- newest-first listing
+alter table public.qr_codes
+  add column if not exists name text;
+
+create index if not exists qr_codes_user_created_idx
+  on public.qr_codes (user_id, created_at desc);
@@ -0,0 +1,126 @@
+-- Supabase Auth replaces the email-only sign-up. Each public.users row is
+-- linked to its auth.users account, and row-level security limits every table
+-- to the signed-in user's own rows.
+alter table public.users
+  add column if not exists auth_id uuid unique references auth.users (id) on delete set null;
+
+-- On first sign-in, claim the existing profile with the same (now verified)
+-- email address, or create one from the metadata sent with the sign-in request.
+create or replace function public.handle_new_auth_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.users
+     set auth_id = new.id
+   where lower(email) = lower(new.email)
+     and auth_id is null;
+
+  if not found then
+    insert into public.users (auth_id, email, name, organization, ein, app_ids)
+    values (
+      new.id,
+      new.email,
+      coalesce(nullif(new.raw_user_meta_data ->> 'name', ''), split_part(new.email, '@', 1)),
+      nullif(new.raw_user_meta_data ->> 'organization', ''),
+      nullif(new.raw_user_meta_data ->> 'ein', ''),
+      array['qr-gen-v1']
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_auth_user();
+
+-- The profile id of the signed-in user; security definer so policies can call
+-- it without recursing into the users policies
+create or replace function public.current_profile_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.users where auth_id = auth.uid();
+$$;
+
+-- users: read and edit your own profile; rows are only created by the trigger
+alter table public.users enable row level security;
+
+drop policy if exists "Users read own profile" on public.users;
+create policy "Users read own profile" on public.users
+  for select to authenticated
+  using (auth_id = auth.uid());
+
+drop policy if exists "Users update own profile" on public.users;
+create policy "Users update own profile" on public.users
+  for update to authenticated
+  using (auth_id = auth.uid())
+  with check (auth_id = auth.uid());
+
+-- Only the profile fields are editable. email and auth_id stay as the trigger
+-- set them: sign-up claims or inserts a profile by email, so taking someone
+-- else's address would block their sign-up and invitations.
+revoke update on public.users from authenticated;
+grant update (app_ids, name, organization, ein) on public.users to authenticated;
+
+-- qr_codes: full access to your own codes only
+alter table public.qr_codes enable row level security;
+
+drop policy if exists "Users manage own QR codes" on public.qr_codes;
+create policy "Users manage own QR codes" on public.qr_codes
+  for all to authenticated
+  using (user_id = public.current_profile_id())
+  with check (user_id = public.current_profile_id());
+
+-- dynamic_links: owners manage their links. Visitors never read the table:
+-- the redirect Edge Function resolves one slug at a time with the service role,
+-- so the list of links and their destinations stays private.
+alter table public.dynamic_links enable row level security;
+
+drop policy if exists "Anyone resolves dynamic links" on public.dynamic_links;
+
+drop policy if exists "Users manage own dynamic links" on public.dynamic_links;
+create policy "Users manage own dynamic links" on public.dynamic_links
+  for all to authenticated
+  using (user_id = public.current_profile_id())
+  with check (user_id = public.current_profile_id());
+
+-- scans: written only by the redirect Edge Function (the service role bypasses
+-- RLS), readable by the link owner
+alter table public.scans enable row level security;
+
+drop policy if exists "Anyone logs scans" on public.scans;
+
+drop policy if exists "Owners read scans" on public.scans;
+create policy "Owners read scans" on public.scans
+  for select to authenticated
+  using (exists (
+    select 1 from public.dynamic_links
+     where dynamic_links.id = scans.link_id
+       and dynamic_links.user_id = public.current_profile_id()
+  ));
+
+-- utm_presets and visits: own rows only
+alter table public.utm_presets enable row level security;
+
+drop policy if exists "Users manage own UTM presets" on public.utm_presets;
+create policy "Users manage own UTM presets" on public.utm_presets
+  for all to authenticated
+  using (user_id = public.current_profile_id())
+  with check (user_id = public.current_profile_id());
+
+alter table public.visits enable row level security;
+
+drop policy if exists "Users manage own visits" on public.visits;
+create policy "Users manage own visits" on public.visits
+  for all to authenticated
+  using (user_id = public.current_profile_id())
+  with check (user_id = public.current_profile_id());
@@ -0,0 +1,30 @@
+-- Uploaded logos live in the private "logos" bucket under
+-- <auth uid>/<sha-256 of the file>.<ext>, so identical uploads share one
+-- object and saved codes reference their logo by that key.
+insert into storage.buckets (id, name, public)
+values ('logos', 'logos', false)
+on conflict (id) do nothing;
+
+alter table public.qr_codes
+  add column if not exists logo_key text;
+
+-- Each user may only touch objects in their own folder
+drop policy if exists "Users read own logos" on storage.objects;
+create policy "Users read own logos" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'logos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users upload own logos" on storage.objects;
+create policy "Users upload own logos" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'logos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users replace own logos" on storage.objects;
+create policy "Users replace own logos" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'logos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users delete own logos" on storage.objects;
+create policy "Users delete own logos" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'logos' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,38 @@
+-- Reusable brand kits: a named palette with the default code colors, primary
+-- and alternate logos (keys in the logos bucket), flyer fonts and a default
+-- organization description. enforce_palette limits every color picker to the
+-- palette while the kit is active.
+create table if not exists public.brand_kits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  name text not null,
+  palette jsonb not null default '[]'::jsonb,
+  qr_color text not null,
+  bg_color text not null,
+  primary_logo_key text,
+  alternate_logo_key text,
+  heading_font text not null default 'helvetica' check (heading_font in ('helvetica', 'times', 'courier')),
+  body_font text not null default 'helvetica' check (body_font in ('helvetica', 'times', 'courier')),
+  default_description text not null default '',
+  enforce_palette boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+drop trigger if exists brand_kits_touch on public.brand_kits;
+create trigger brand_kits_touch
+  before update on public.brand_kits
+  for each row execute function public.touch_dynamic_link();
+
+alter table public.brand_kits enable row level security;
+
+drop policy if exists "Users manage own brand kits" on public.brand_kits;
+create policy "Users manage own brand kits" on public.brand_kits
+  for all to authenticated
+  using (user_id = public.current_profile_id())
+  with check (user_id = public.current_profile_id());
+
+-- Flyer fonts used by a saved code; null means the default (Helvetica)
+alter table public.qr_codes
+  add column if not exists flyer_fonts jsonb;
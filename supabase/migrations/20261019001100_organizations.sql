@@ -0,0 +1,417 @@
+-- Organization workspaces. An organization is keyed by its EIN or charity
+-- registration number; members are owners (manage members), editors (create
+-- and change shared codes and brand kits) or viewers (read and reuse only).
+-- QR codes and brand kits with an organization_id belong to the organization
+-- instead of the user who created them.
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Stored without punctuation and upper-cased, so 12-3456789 and 123456789 match
+  registration_number text not null unique check (registration_number ~ '^[A-Z0-9]{4,32}$'),
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+create index if not exists organization_members_user_id_idx on public.organization_members (user_id);
+
+create table if not exists public.organization_invitations (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  invited_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists organization_invitations_email_idx
+  on public.organization_invitations (organization_id, lower(email));
+
+alter table public.qr_codes
+  add column if not exists organization_id uuid references public.organizations (id) on delete cascade;
+
+alter table public.brand_kits
+  add column if not exists organization_id uuid references public.organizations (id) on delete cascade;
+
+create index if not exists qr_codes_organization_created_idx
+  on public.qr_codes (organization_id, created_at desc);
+
+-- Kit names only need to be unique within their workspace
+alter table public.brand_kits drop constraint if exists brand_kits_user_id_name_key;
+create unique index if not exists brand_kits_personal_name_idx
+  on public.brand_kits (user_id, name) where organization_id is null;
+create unique index if not exists brand_kits_organization_name_idx
+  on public.brand_kits (organization_id, name) where organization_id is not null;
+
+-- The signed-in user's role in an organization, or null. Security definer so
+-- policies can call it without recursing into the membership policies.
+create or replace function public.organization_role(org_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.organization_members
+   where organization_id = org_id
+     and user_id = public.current_profile_id();
+$$;
+
+create or replace function public.can_edit_organization(org_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.organization_role(org_id) in ('owner', 'editor'), false);
+$$;
+
+-- Whether the signed-in user shares an organization with this profile, so
+-- member lists can show colleagues' names
+create or replace function public.shares_organization_with(profile_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from public.organization_members mine
+      join public.organization_members theirs on theirs.organization_id = mine.organization_id
+     where mine.user_id = public.current_profile_id()
+       and theirs.user_id = profile_id
+  );
+$$;
+
+-- Creates the organization with the caller as its first owner
+create or replace function public.create_organization(org_name text, org_registration_number text)
+returns public.organizations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  profile_id uuid := public.current_profile_id();
+  created public.organizations;
+begin
+  if profile_id is null then
+    raise exception 'Please sign in to create an organization';
+  end if;
+
+  insert into public.organizations (name, registration_number, created_by)
+  values (trim(org_name), org_registration_number, profile_id)
+  returning * into created;
+
+  insert into public.organization_members (organization_id, user_id, role)
+  values (created.id, profile_id, 'owner');
+
+  return created;
+end;
+$$;
+
+-- Joins the organization an invitation addressed to the caller's (verified)
+-- email is for
+create or replace function public.accept_organization_invitation(invitation_id uuid)
+returns public.organization_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  profile_id uuid := public.current_profile_id();
+  invitation public.organization_invitations;
+  membership public.organization_members;
+begin
+  select * into invitation
+    from public.organization_invitations
+   where id = invitation_id
+     and lower(email) = lower(auth.email());
+
+  if invitation.id is null or profile_id is null then
+    raise exception 'Invitation not found';
+  end if;
+
+  insert into public.organization_members (organization_id, user_id, role)
+  values (invitation.organization_id, profile_id, invitation.role)
+  on conflict (organization_id, user_id) do update set role = excluded.role
+  returning * into membership;
+
+  delete from public.organization_invitations where id = invitation.id;
+  return membership;
+end;
+$$;
+
+-- Every organization keeps at least one owner
+create or replace function public.ensure_organization_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.role = 'owner'
+     and (tg_op = 'DELETE' or new.role <> 'owner')
+     and exists (select 1 from public.organizations where id = old.organization_id)
+     and not exists (
+       select 1 from public.organization_members
+        where organization_id = old.organization_id
+          and role = 'owner'
+          and user_id <> old.user_id
+     ) then
+    raise exception 'An organization needs at least one owner';
+  end if;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists organization_members_keep_owner on public.organization_members;
+create trigger organization_members_keep_owner
+  before update or delete on public.organization_members
+  for each row execute function public.ensure_organization_owner();
+
+-- organizations: members and invitees read, owners rename; created through
+-- create_organization
+alter table public.organizations enable row level security;
+
+drop policy if exists "Members read organizations" on public.organizations;
+create policy "Members read organizations" on public.organizations
+  for select to authenticated
+  using (public.organization_role(id) is not null);
+
+drop policy if exists "Invitees read organizations" on public.organizations;
+create policy "Invitees read organizations" on public.organizations
+  for select to authenticated
+  using (exists (
+    select 1 from public.organization_invitations i
+     where i.organization_id = organizations.id
+       and lower(i.email) = lower(auth.email())
+  ));
+
+drop policy if exists "Owners update organizations" on public.organizations;
+create policy "Owners update organizations" on public.organizations
+  for update to authenticated
+  using (public.organization_role(id) = 'owner')
+  with check (public.organization_role(id) = 'owner');
+
+-- organization_members: members see each other; owners change roles and
+-- remove members; anyone can leave
+alter table public.organization_members enable row level security;
+
+drop policy if exists "Members read memberships" on public.organization_members;
+create policy "Members read memberships" on public.organization_members
+  for select to authenticated
+  using (public.organization_role(organization_id) is not null);
+
+drop policy if exists "Owners update memberships" on public.organization_members;
+create policy "Owners update memberships" on public.organization_members
+  for update to authenticated
+  using (public.organization_role(organization_id) = 'owner')
+  with check (public.organization_role(organization_id) = 'owner');
+
+-- Only the role changes; members join through invitations and can't be moved
+-- between organizations
+revoke update on public.organization_members from authenticated;
+grant update (role) on public.organization_members to authenticated;
+
+drop policy if exists "Owners remove members, members leave" on public.organization_members;
+create policy "Owners remove members, members leave" on public.organization_members
+  for delete to authenticated
+  using (public.organization_role(organization_id) = 'owner' or user_id = public.current_profile_id());
+
+-- organization_invitations: owners manage them; invitees see and decline
+-- their own (accepting goes through accept_organization_invitation)
+alter table public.organization_invitations enable row level security;
+
+drop policy if exists "Owners manage invitations" on public.organization_invitations;
+create policy "Owners manage invitations" on public.organization_invitations
+  for all to authenticated
+  using (public.organization_role(organization_id) = 'owner')
+  with check (public.organization_role(organization_id) = 'owner');
+
+drop policy if exists "Invitees read invitations" on public.organization_invitations;
+create policy "Invitees read invitations" on public.organization_invitations
+  for select to authenticated
+  using (lower(email) = lower(auth.email()));
+
+drop policy if exists "Invitees decline invitations" on public.organization_invitations;
+create policy "Invitees decline invitations" on public.organization_invitations
+  for delete to authenticated
+  using (lower(email) = lower(auth.email()));
+
+-- users: colleagues can see each other's name and email
+drop policy if exists "Members read colleagues" on public.users;
+create policy "Members read colleagues" on public.users
+  for select to authenticated
+  using (public.shares_organization_with(id));
+
+-- qr_codes and brand_kits: personal rows as before; organization rows are
+-- readable by every member and writable by owners and editors
+drop policy if exists "Users manage own QR codes" on public.qr_codes;
+
+drop policy if exists "Users read QR codes" on public.qr_codes;
+create policy "Users read QR codes" on public.qr_codes
+  for select to authenticated
+  using (
+    (organization_id is null and user_id = public.current_profile_id())
+    or public.organization_role(organization_id) is not null
+  );
+
+-- Dynamic links behind an organization's codes: members see them and their
+-- scans, editors change where they point
+create or replace function public.is_organization_dynamic_link(link_id uuid, editors_only boolean default false)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.qr_codes
+     where dynamic_link_id = link_id
+       and organization_id is not null
+       and case when editors_only
+             then public.can_edit_organization(organization_id)
+             else public.organization_role(organization_id) is not null
+           end
+  );
+$$;
+
+-- Codes may only point at links the caller could change anyway, so attaching
+-- someone else's link to a code doesn't hand it over
+create or replace function public.can_edit_dynamic_link(link_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.dynamic_links
+     where id = link_id
+       and user_id = public.current_profile_id()
+  ) or public.is_organization_dynamic_link(link_id, true);
+$$;
+
+-- Editors change any of the organization's codes, but new rows are always
+-- recorded under the editor who creates them
+drop policy if exists "Users write QR codes" on public.qr_codes;
+
+drop policy if exists "Users create QR codes" on public.qr_codes;
+create policy "Users create QR codes" on public.qr_codes
+  for insert to authenticated
+  with check (
+    user_id = public.current_profile_id()
+    and (organization_id is null or public.can_edit_organization(organization_id))
+    and (dynamic_link_id is null or public.can_edit_dynamic_link(dynamic_link_id))
+  );
+
+drop policy if exists "Users update QR codes" on public.qr_codes;
+create policy "Users update QR codes" on public.qr_codes
+  for update to authenticated
+  using (
+    (organization_id is null and user_id = public.current_profile_id())
+    or public.can_edit_organization(organization_id)
+  )
+  with check (
+    ((organization_id is null and user_id = public.current_profile_id())
+      or public.can_edit_organization(organization_id))
+    and (dynamic_link_id is null or public.can_edit_dynamic_link(dynamic_link_id))
+  );
+
+drop policy if exists "Users delete QR codes" on public.qr_codes;
+create policy "Users delete QR codes" on public.qr_codes
+  for delete to authenticated
+  using (
+    (organization_id is null and user_id = public.current_profile_id())
+    or public.can_edit_organization(organization_id)
+  );
+
+-- The creator of a code never changes, whoever edits it later
+create or replace function public.keep_qr_code_creator()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.user_id := old.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists qr_codes_keep_creator on public.qr_codes;
+create trigger qr_codes_keep_creator
+  before update on public.qr_codes
+  for each row execute function public.keep_qr_code_creator();
+
+drop policy if exists "Members read organization dynamic links" on public.dynamic_links;
+create policy "Members read organization dynamic links" on public.dynamic_links
+  for select to authenticated
+  using (public.is_organization_dynamic_link(id));
+
+drop policy if exists "Editors update organization dynamic links" on public.dynamic_links;
+create policy "Editors update organization dynamic links" on public.dynamic_links
+  for update to authenticated
+  using (public.is_organization_dynamic_link(id, true))
+  with check (public.is_organization_dynamic_link(id, true));
+
+drop policy if exists "Members read organization scans" on public.scans;
+create policy "Members read organization scans" on public.scans
+  for select to authenticated
+  using (public.is_organization_dynamic_link(link_id));
+
+drop policy if exists "Users manage own brand kits" on public.brand_kits;
+
+drop policy if exists "Users read brand kits" on public.brand_kits;
+create policy "Users read brand kits" on public.brand_kits
+  for select to authenticated
+  using (
+    (organization_id is null and user_id = public.current_profile_id())
+    or public.organization_role(organization_id) is not null
+  );
+
+drop policy if exists "Users write brand kits" on public.brand_kits;
+create policy "Users write brand kits" on public.brand_kits
+  for all to authenticated
+  using (
+    (organization_id is null and user_id = public.current_profile_id())
+    or public.can_edit_organization(organization_id)
+  )
+  with check (
+    (organization_id is null and user_id = public.current_profile_id())
+    or public.can_edit_organization(organization_id)
+  );
+
+-- Organization logos live under orgs/<organization id>/ in the logos bucket
+drop policy if exists "Members read organization logos" on storage.objects;
+create policy "Members read organization logos" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'logos'
+    and (storage.foldername(name))[1] = 'orgs'
+    and public.organization_role(((storage.foldername(name))[2])::uuid) is not null
+  );
+
+drop policy if exists "Editors upload organization logos" on storage.objects;
+create policy "Editors upload organization logos" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'logos'
+    and (storage.foldername(name))[1] = 'orgs'
+    and public.can_edit_organization(((storage.foldername(name))[2])::uuid)
+  );
+
+drop policy if exists "Editors replace organization logos" on storage.objects;
+create policy "Editors replace organization logos" on storage.objects
+  for update to authenticated
+  using (
+    bucket_id = 'logos'
+    and (storage.foldername(name))[1] = 'orgs'
+    and public.can_edit_organization(((storage.foldername(name))[2])::uuid)
+  );
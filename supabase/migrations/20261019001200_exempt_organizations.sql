@@ -0,0 +1,98 @@
+-- IRS exempt-organization reference data, loaded from the EO Business Master
+-- File and Publication 78 bulk downloads by scripts/import-exempt-organizations.mjs.
+-- Rows are keyed by the nine-digit EIN; each source fills its own columns so
+-- both files can be imported in either order.
+create table if not exists public.exempt_organizations (
+  ein text primary key check (ein ~ '^[0-9]{9}$'),
+  name text not null,
+  city text,
+  state text,
+  country text,
+  -- EO BMF DEDUCTIBILITY code: 1 deductible, 2 not deductible, 4 deductible by treaty
+  bmf_deductibility text,
+  -- Publication 78 deductibility status codes (PC, PF, POF, ...); listed
+  -- organizations are eligible to receive tax-deductible contributions
+  pub78_codes text[] not null default '{}',
+  imported_at timestamptz not null default now()
+);
+
+-- Public records: anyone can look an EIN up, only the importer (service role)
+-- writes
+alter table public.exempt_organizations enable row level security;
+
+drop policy if exists "Anyone reads exempt organizations" on public.exempt_organizations;
+create policy "Anyone reads exempt organizations" on public.exempt_organizations
+  for select to anon, authenticated
+  using (true);
+
+-- Compares names the way the IRS files spell them: case, punctuation, "&",
+-- a leading "The" and corporate suffixes are ignored. Mirrors
+-- normalizeOrganizationName in src/lib/exemptOrganizations.ts.
+create or replace function public.normalize_organization_name(value text)
+returns text
+language sql
+immutable
+as $$
+  select trim(
+    regexp_replace(
+      regexp_replace(
+        ' ' || trim(regexp_replace(replace(upper(coalesce(value, '')), '&', ' AND '), '[^A-Z0-9]+', ' ', 'g')) || ' ',
+        '^ THE ', ' '
+      ),
+      ' (INC|INCORPORATED|CORP|CORPORATION|CO|LTD|LLC) $', ' '
+    )
+  );
+$$;
+
+create or replace function public.is_verified_exempt_organization(registration_number text, org_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.exempt_organizations
+     where ein = registration_number
+       and public.normalize_organization_name(name) = public.normalize_organization_name(org_name)
+  );
+$$;
+
+-- Organizations whose EIN and legal name match the IRS data get a verified badge
+alter table public.organizations
+  add column if not exists verified_at timestamptz;
+
+create or replace function public.verify_organization()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_verified_exempt_organization(new.registration_number, new.name) then
+    -- old is null on insert
+    new.verified_at := coalesce(old.verified_at, now());
+  else
+    new.verified_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists organizations_verify on public.organizations;
+create trigger organizations_verify
+  before insert or update on public.organizations
+  for each row execute function public.verify_organization();
+
+-- Re-checks every organization; the importer calls this after loading new data
+create or replace function public.refresh_organization_verification()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.organizations
+     set verified_at = case
+       when public.is_verified_exempt_organization(registration_number, name) then coalesce(verified_at, now())
+     end;
+$$;
+
+revoke execute on function public.refresh_organization_verification() from public, anon, authenticated;
@@ -0,0 +1,159 @@
+-- Charity registration numbers for any country: an ISO 3166-1 alpha-2 country
+-- code plus the number in canonical form (upper-case letters and digits, e.g.
+-- 123456789 for an EIN, 123456782RR0001 for a Canadian Business Number).
+-- Formats and checksums are validated in src/lib/charityIds.ts.
+alter table public.users
+  add column if not exists charity_id_country text check (charity_id_country ~ '^[A-Z]{2}$'),
+  add column if not exists charity_id text check (charity_id ~ '^[A-Z0-9]{4,32}$');
+
+-- Existing EINs become US charity IDs; the ein column is no longer written
+update public.users
+   set charity_id_country = 'US',
+       charity_id = regexp_replace(ein, '[^0-9]', '', 'g')
+ where charity_id is null
+   and regexp_replace(coalesce(ein, ''), '[^0-9]', '', 'g') ~ '^[0-9]{9}$';
+
+revoke update (ein) on public.users from authenticated;
+grant update (charity_id_country, charity_id) on public.users to authenticated;
+
+create or replace function public.handle_new_auth_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  meta_country text := upper(nullif(new.raw_user_meta_data ->> 'charity_id_country', ''));
+  meta_charity_id text := upper(regexp_replace(coalesce(new.raw_user_meta_data ->> 'charity_id', ''), '[^A-Za-z0-9]', '', 'g'));
+begin
+  update public.users
+     set auth_id = new.id
+   where lower(email) = lower(new.email)
+     and auth_id is null;
+
+  if not found then
+    insert into public.users (auth_id, email, name, organization, charity_id_country, charity_id, app_ids)
+    values (
+      new.id,
+      new.email,
+      coalesce(nullif(new.raw_user_meta_data ->> 'name', ''), split_part(new.email, '@', 1)),
+      nullif(new.raw_user_meta_data ->> 'organization', ''),
+      case when meta_charity_id <> '' then meta_country end,
+      nullif(meta_charity_id, ''),
+      array['qr-gen-v1']
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Anyone can type in a registration number, so it only becomes exclusive once
+-- an administrator has confirmed out of band (e.g. from the charity's own
+-- email domain or records) that the workspace really represents the charity.
+-- Until then several workspaces may carry the same number.
+alter table public.organizations
+  add column if not exists country text not null default 'US' check (country ~ '^[A-Z]{2}$'),
+  add column if not exists claimed_at timestamptz;
+
+alter table public.organizations drop constraint if exists organizations_registration_number_key;
+drop index if exists public.organizations_country_registration_number_idx;
+create unique index if not exists organizations_claimed_registration_number_idx
+  on public.organizations (country, registration_number)
+  where claimed_at is not null;
+
+-- Owners may rename their organization; the country, number and claim are
+-- fixed once created
+revoke update on public.organizations from authenticated;
+grant update (name) on public.organizations to authenticated;
+
+drop function if exists public.create_organization(text, text);
+
+create or replace function public.create_organization(org_name text, org_country text, org_registration_number text)
+returns public.organizations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  profile_id uuid := public.current_profile_id();
+  created public.organizations;
+begin
+  if profile_id is null then
+    raise exception 'Please sign in to create an organization';
+  end if;
+
+  if exists (
+    select 1 from public.organizations
+     where country = upper(org_country)
+       and registration_number = org_registration_number
+       and claimed_at is not null
+  ) then
+    raise exception 'This organization is already registered. Ask one of its owners to invite you.';
+  end if;
+
+  insert into public.organizations (name, country, registration_number, created_by)
+  values (trim(org_name), upper(org_country), org_registration_number, profile_id)
+  returning * into created;
+
+  insert into public.organization_members (organization_id, user_id, role)
+  values (created.id, profile_id, 'owner');
+
+  return created;
+end;
+$$;
+
+-- Confirms a workspace's claim to its registration number. For administrators
+-- only (run with the service role, e.g. from the SQL editor); fails if another
+-- workspace already holds a confirmed claim to the same number.
+create or replace function public.confirm_organization_claim(org_id uuid)
+returns public.organizations
+language sql
+security definer
+set search_path = public
+as $$
+  update public.organizations
+     set claimed_at = coalesce(claimed_at, now())
+   where id = org_id
+  returning *;
+$$;
+
+revoke execute on function public.confirm_organization_claim(uuid) from public, anon, authenticated;
+
+-- Anyone can look up an EIN and its legal name, so matching the IRS data only
+-- says the charity exists. The badge also needs the claim to have been
+-- confirmed out of band (confirm_organization_claim). The IRS data only covers
+-- US organizations.
+create or replace function public.verify_organization()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.claimed_at is not null
+     and new.country = 'US'
+     and public.is_verified_exempt_organization(new.registration_number, new.name) then
+    -- old is null on insert
+    new.verified_at := coalesce(old.verified_at, now());
+  else
+    new.verified_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.refresh_organization_verification()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.organizations
+     set verified_at = case
+       when claimed_at is not null
+        and country = 'US'
+        and public.is_verified_exempt_organization(registration_number, name)
+         then coalesce(verified_at, now())
+     end;
+$$;
+
+revoke execute on function public.refresh_organization_verification() from public, anon, authenticated;
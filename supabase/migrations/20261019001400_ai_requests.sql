@@ -0,0 +1,91 @@
+-- One row per AI text request made through the generate-text Edge Function.
+-- The function reserves a row through reserve_ai_request before calling the
+-- provider, then records the outcome and token usage on it.
+create table if not exists public.ai_requests (
+  id bigint generated always as identity primary key,
+  user_id uuid references public.users (id) on delete set null,
+  organization_id uuid references public.organizations (id) on delete set null,
+  ip_address text,
+  kind text not null,
+  -- Completions the request asked for (one per variant); limits count these
+  weight integer not null default 1 check (weight between 1 and 10),
+  model text,
+  status text not null check (status in ('pending', 'ok', 'rate_limited', 'error')),
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_requests_user_created_idx on public.ai_requests (user_id, created_at desc);
+create index if not exists ai_requests_ip_created_idx on public.ai_requests (ip_address, created_at desc);
+create index if not exists ai_requests_organization_created_idx on public.ai_requests (organization_id, created_at desc);
+
+-- Written only by the Edge Function (service role). Users see their own usage,
+-- owners their organization's.
+alter table public.ai_requests enable row level security;
+
+drop policy if exists "Users read own AI usage" on public.ai_requests;
+create policy "Users read own AI usage" on public.ai_requests
+  for select to authenticated
+  using (
+    user_id = public.current_profile_id()
+    or public.organization_role(organization_id) = 'owner'
+  );
+
+-- Counts the caller's recent completions per user and per IP address and, in
+-- the same transaction, records this request: a pending row when its weight
+-- still fits both limits, a rate_limited row otherwise. The advisory locks serialize
+-- concurrent requests from the same user or address, so a burst can't all
+-- pass the count before any of them is recorded. Returns the row and, when
+-- turned away, which limit was hit ('user' or 'ip').
+create or replace function public.reserve_ai_request(
+  request_user_id uuid,
+  request_organization_id uuid,
+  request_ip_address text,
+  request_kind text,
+  request_weight integer,
+  user_limit integer,
+  ip_limit integer,
+  window_seconds integer
+)
+returns table (request_id bigint, limited_by text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  since timestamptz := now() - make_interval(secs => window_seconds);
+  exceeded text;
+begin
+  perform pg_advisory_xact_lock(hashtext('ai_requests:user:' || request_user_id::text));
+  perform pg_advisory_xact_lock(hashtext('ai_requests:ip:' || request_ip_address));
+
+  if (select coalesce(sum(weight), 0) from public.ai_requests
+       where user_id = request_user_id and status <> 'rate_limited' and created_at >= since)
+     + request_weight > user_limit then
+    exceeded := 'user';
+  elsif (select coalesce(sum(weight), 0) from public.ai_requests
+          where ip_address = request_ip_address and status <> 'rate_limited' and created_at >= since)
+        + request_weight > ip_limit then
+    exceeded := 'ip';
+  end if;
+
+  insert into public.ai_requests (user_id, organization_id, ip_address, kind, weight, status)
+  values (
+    request_user_id,
+    request_organization_id,
+    request_ip_address,
+    request_kind,
+    request_weight,
+    case when exceeded is null then 'pending' else 'rate_limited' end
+  )
+  returning id into request_id;
+
+  limited_by := exceeded;
+  return next;
+end;
+$$;
+
+revoke execute on function public.reserve_ai_request(uuid, uuid, text, text, integer, integer, integer, integer)
+  from public, anon, authenticated;
@@ -0,0 +1,7 @@
+-- Multilingual flyers: the language of the saved description and purpose, its
+-- section headings (null uses the language's defaults), and translations as
+-- [{ language, headings: { about, purpose }, orgDescription, urlPurpose }].
+alter table public.qr_codes
+  add column if not exists language text not null default 'en',
+  add column if not exists flyer_headings jsonb,
+  add column if not exists translations jsonb not null default '[]'::jsonb;